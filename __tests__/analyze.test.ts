@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { build } from 'esbuild';
+import { analyzeMetafile, renderReportHtml } from '../src/build-engine/analyze.js';
+import { writeFile } from './helpers/fs.js';
+
+describe('Bundle analysis', () => {
+  it('attributes chunk bytes to packages and explains each module', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-analyze-'));
+    try {
+      const app = path.join(root, 'apps', 'shop');
+      await writeFile(root, 'package.json', JSON.stringify({ name: 'workspace' }));
+      await writeFile(app, 'package.json', JSON.stringify({ name: 'shop' }));
+      await writeFile(app, 'src/index.ts', 'import { Card } from "./Card";\nconsole.log(Card());\n');
+      await writeFile(app, 'src/Card.ui', '');
+      await writeFile(app, 'src/Card.tsx', 'import { button } from "@acme/ui";\nimport pad from "left-pad";\nexport const Card = () => button(pad("card", 8));\n');
+      await writeFile(root, 'lib/ui/package.json', JSON.stringify({ name: '@acme/ui' }));
+      await writeFile(root, 'lib/ui/index.js', 'export const button = (label) => "<button>" + label + "</button>";\n');
+      await fs.mkdir(path.join(root, 'node_modules', '@acme'), { recursive: true });
+      await fs.symlink(path.join(root, 'lib', 'ui'), path.join(root, 'node_modules', '@acme', 'ui'));
+      await writeFile(root, 'node_modules/left-pad/package.json', JSON.stringify({ name: 'left-pad', main: 'index.js' }));
+      await writeFile(root, 'node_modules/left-pad/index.js', 'module.exports = (s, n) => s.padStart(n);\n');
+
+      const outDir = path.join(app, 'dist');
+      const result = await build({
+        entryPoints: [path.join(app, 'src', 'index.ts')],
+        bundle: true,
+        format: 'esm',
+        outdir: outDir,
+        absWorkingDir: root,
+        metafile: true,
+        logLevel: 'silent',
+      });
+
+      const report = await analyzeMetafile(result.metafile, {
+        absWorkingDir: root,
+        outDir,
+        appRoot: app,
+        toSourcePath: (file) => file,
+      });
+
+      assert.strictEqual(report.chunks.length, 1);
+      const [chunk] = report.chunks;
+      assert.strictEqual(chunk.file, 'index.js');
+      assert.strictEqual(chunk.entryPoint, 'apps/shop/src/index.ts');
+      assert(chunk.gzip > 0 && chunk.brotli > 0);
+
+      const kinds = Object.fromEntries(chunk.packages.map((pkg) => [pkg.name, pkg.kind]));
+      assert.deepStrictEqual(kinds, { 'shop': 'app', '@acme/ui': 'workspace', 'left-pad': 'node_modules' });
+
+      const shop = chunk.packages.find((pkg) => pkg.name === 'shop')!;
+      const card = shop.modules.find((mod) => mod.path === 'apps/shop/src/Card.ui');
+      assert(card, 'compiled .tsx is reported as its .ui source');
+      assert.strictEqual(card.component, true);
+
+      const leftPad = chunk.packages.find((pkg) => pkg.name === 'left-pad')!;
+      assert.deepStrictEqual(leftPad.modules[0].chain, [
+        'apps/shop/src/index.ts',
+        'apps/shop/src/Card.ui',
+        'node_modules/left-pad/index.js',
+      ]);
+
+      assert(renderReportHtml(report).includes(JSON.stringify(report)));
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
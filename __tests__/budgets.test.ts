@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { BudgetExceededError, checkBudgets, chunkName } from '../src/build-engine/budgets.js';
+
+describe('Size budgets', () => {
+  it('measures entries with what they load and chunks on their own', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-budgets-'));
+    try {
+      const outDir = path.join(root, 'dist');
+      await fs.mkdir(outDir, { recursive: true });
+      const files = {
+        entry: path.join(outDir, 'index-4F2A9C1B.js'),
+        shared: path.join(outDir, 'chunk-8B3D2E11.js'),
+        css: path.join(outDir, 'index-1C0FFEE0.css'),
+      };
+      await fs.writeFile(files.entry, 'x'.repeat(600));
+      await fs.writeFile(files.shared, 'y'.repeat(500));
+      await fs.writeFile(files.css, 'z'.repeat(100));
+
+      const violations = await checkBudgets(
+        {
+          entries: { 'src/index.ui': { raw: 1000, gzip: 10000 } },
+          chunks: { '*': { raw: 550 }, 'index.css': { raw: 200 } },
+        },
+        {
+          root,
+          outputs: new Map([
+            [path.join(root, 'src', 'index.ui'), { file: files.entry, imports: [files.shared], css: [files.css] }],
+          ]),
+          chunks: Object.values(files),
+        },
+      );
+
+      assert.deepStrictEqual(violations, [
+        { target: 'entry src/index.ui', metric: 'raw', actual: 1200, budget: 1000 },
+        { target: 'chunk index.js', metric: 'raw', actual: 600, budget: 550 },
+      ]);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('reports every overrun against its budget', () => {
+    const error = new BudgetExceededError([
+      { target: 'entry src/index.ui', metric: 'gzip', actual: 53555, budget: 51200 },
+      { target: 'chunk about.js', metric: 'raw', actual: 900, budget: 800 },
+    ]);
+
+    assert(error instanceof BudgetExceededError);
+    assert.strictEqual(
+      error.message,
+      [
+        '2 size budgets exceeded:',
+        '  entry src/index.ui  gzip  52.30 KB > 50.00 KB  (+2.30 KB, +4.6%)',
+        '  chunk about.js      raw   900 B > 800 B  (+100 B, +12.5%)',
+      ].join('\n'),
+    );
+  });
+
+  it('names chunks without their content hash', () => {
+    assert.strictEqual(chunkName('/dist/about-7KQ2M4XZ.js'), 'about.js');
+    assert.strictEqual(chunkName('/dist/chunk-8B3D2E11.js'), 'chunk.js');
+    assert.strictEqual(chunkName('/dist/vendor.js'), 'vendor.js');
+  });
+});
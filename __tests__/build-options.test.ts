@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import path from 'node:path';
+import { parseBuildFlags, resolveBuildConfig } from '../src/config/build-options.js';
+
+describe('Build options', () => {
+  it('parses flags with separate, inline and repeated values', () => {
+    const flags = parseBuildFlags([
+      '--outDir', 'build/web',
+      '--format=esm',
+      '--no-minify',
+      '--sourcemap',
+      '--external', 'react',
+      '--external=react-dom',
+      '--define', '__API__="https://api.example.com"',
+      '--analyze',
+    ]);
+
+    assert.deepStrictEqual(flags, {
+      outDir: 'build/web',
+      format: 'esm',
+      minify: false,
+      sourcemap: true,
+      external: ['react', 'react-dom'],
+      define: { __API__: '"https://api.example.com"' },
+      analyze: true,
+    });
+  });
+
+  it('rejects unknown flags and bad values', () => {
+    assert.throws(() => parseBuildFlags(['--out', 'dist']), /Unknown build option: --out/);
+    assert.throws(() => parseBuildFlags(['--format', 'umd']), /--format must be one of esm, cjs, iife/);
+    assert.throws(() => parseBuildFlags(['--outDir', '--minify']), /--outDir needs a value/);
+    assert.throws(() => parseBuildFlags(['--define', 'DEBUG']), /--define expects KEY=VALUE/);
+  });
+
+  it('lets flags override swiss.config.ts and merges external and define', () => {
+    const root = path.resolve('/app');
+    const config = resolveBuildConfig(
+      root,
+      {
+        outDir: 'out',
+        minify: true,
+        target: 'es2022',
+        external: ['react'],
+        define: { __VERSION__: '"1.0.0"', __DEBUG__: 'false' },
+        budgets: { chunks: { '*': { gzip: 50000 } } },
+      },
+      { outDir: 'build', minify: false, external: ['vue'], define: { __DEBUG__: 'true' } },
+    );
+
+    assert.strictEqual(config.entry, path.join(root, 'src', 'index.ui'));
+    assert.strictEqual(config.outDir, path.join(root, 'build'));
+    assert.strictEqual(config.minify, false);
+    assert.strictEqual(config.target, 'es2022');
+    assert.deepStrictEqual(config.external, ['react', 'vue']);
+    assert.deepStrictEqual(config.define, { __VERSION__: '"1.0.0"', __DEBUG__: 'true' });
+    assert.deepStrictEqual(config.budgets, { chunks: { '*': { gzip: 50000 } } });
+    assert.strictEqual(config.html, undefined);
+  });
+
+  it('resolves the HTML entry against the root', () => {
+    const root = path.resolve('/app');
+    assert.deepStrictEqual(parseBuildFlags(['--html', 'web/index.html']), { html: 'web/index.html' });
+
+    assert.strictEqual(resolveBuildConfig(root, { html: 'src/app.html' }).html, path.join(root, 'src', 'app.html'));
+    assert.strictEqual(
+      resolveBuildConfig(root, { html: 'src/app.html' }, { html: 'web/index.html' }).html,
+      path.join(root, 'web', 'index.html'),
+    );
+  });
+});
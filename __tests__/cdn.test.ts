@@ -0,0 +1,448 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { getCdnIntegrity } from '../src/dev-engine/deps/cdn-integrity.js';
+import { getCdnUrl, loadCdnOptions } from '../src/resolution/cdn/cdn-fallback.js';
+import { readLockedVersions } from '../src/resolution/cdn/lockfile.js';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { writeFile } from './helpers/fs.js';
+
+let base: string;
+
+const PNPM_LOCK = `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    devDependencies:
+      typescript:
+        specifier: ^5.0.0
+        version: 5.4.5
+
+  apps/web:
+    dependencies:
+      '@tanstack/query-core':
+        specifier: ^5.0.0
+        version: 5.40.0
+      lodash-es:
+        specifier: ^4.17.0
+        version: 4.17.21
+      react-dom:
+        specifier: ^18.2.0
+        version: 18.3.1(react@18.3.1)
+      shared:
+        specifier: workspace:*
+        version: link:../../packages/shared
+
+packages:
+
+  lodash-es@4.17.21:
+    resolution: {integrity: sha512-abc}
+`;
+
+// As written by pnpm 10 and pnpm 8 for the same workspace
+const PNPM_LOCK_V9 = `lockfileVersion: '9.0'
+
+settings:
+  autoInstallPeers: true
+  excludeLinksFromLockfile: false
+
+importers:
+
+  .:
+    devDependencies:
+      typescript:
+        specifier: 5.4.5
+        version: 5.4.5
+
+  apps/web:
+    dependencies:
+      '@tanstack/query-core':
+        specifier: 5.40.0
+        version: 5.40.0
+      lodash-es:
+        specifier: ^4.17.0
+        version: 4.18.1
+      preact-alias:
+        specifier: npm:preact@10.19.2
+        version: preact@10.19.2
+      react:
+        specifier: 18.3.1
+        version: 18.3.1
+      react-dom:
+        specifier: 18.3.1
+        version: 18.3.1(react@18.3.1)
+      shared:
+        specifier: workspace:*
+        version: link:../../packages/shared
+
+  packages/shared: {}
+
+packages:
+
+  '@tanstack/query-core@5.40.0':
+    resolution: {integrity: sha512-eD8K8jsOIq0Z5u/QbvOmfvKKE/XC39jA7yv4hgpl/1SRiU+J8QCIwgM/mEHuunQsL87dcvnHqSVLmf9pD4CiaA==}
+
+  js-tokens@4.0.0:
+    resolution: {integrity: sha512-RdJUflcE3cUzKiMqQgsCu06FPu9UdIJO0beYbPhHN4k6apgJtifcoCtT9bcxOpYBtpD2kCM6Sbzg4CausW/PKQ==}
+
+  lodash-es@4.18.1:
+    resolution: {integrity: sha512-J8xewKD/Gk22OZbhpOVSwcs60zhd95ESDwezOFuA3/099925PdHJ7OFHNTGtajL3AlZkykD32HykiMo+BIBI8A==}
+
+  loose-envify@1.4.0:
+    resolution: {integrity: sha512-lyuxPGr/Wfhrlem2CL/UcnUc1zcqKAImBDzukY7Y5F/yQiNdko6+fRLevlw1HgMySw7f611UIY408EtxRSoK3Q==}
+    hasBin: true
+
+  preact@10.19.2:
+    resolution: {integrity: sha512-UA9DX/OJwv6YwP9Vn7Ti/vF80XL+YA5H2l7BpCtUr3ya8LWHFzpiO5R+N7dN16ujpIxhekRFuOOF82bXX7K/lg==}
+
+  react-dom@18.3.1:
+    resolution: {integrity: sha512-5m4nQKp+rZRb09LNH59GM4BxTh9251/ylbKIbpe7TpGxfJ+9kv6BLkLBXIjjspbgbnIBNqlI23tRnTWT0snUIw==}
+    peerDependencies:
+      react: ^18.3.1
+
+  react@18.3.1:
+    resolution: {integrity: sha512-wS+hAgJShR0KhEvPJArfuPVN1+Hz1t0Y6n5jLrGQbkb4urgPE/0Rve+1kMB1v/oWgHgm4WIcV+i7F2pTVj+2iQ==}
+    engines: {node: '>=0.10.0'}
+
+  scheduler@0.23.2:
+    resolution: {integrity: sha512-UOShsPwz7NrMUqhR6t0hWjFduvOzbtv7toDH1/hIrfRNIDBnnBWd0CwJTGvTpngVlmwGCdP9/Zl/tVrDqcuYzQ==}
+
+  typescript@5.4.5:
+    resolution: {integrity: sha512-vcI4UpRgg81oIRUFwR0WSIHKt11nJ7SAVlYNIu+QpqeyXP+gpQJy/Z4+F0aGxSE4MqwjyXvW/TzgkLAx2AGHwQ==}
+    engines: {node: '>=14.17'}
+    hasBin: true
+
+snapshots:
+
+  '@tanstack/query-core@5.40.0': {}
+
+  js-tokens@4.0.0: {}
+
+  lodash-es@4.18.1: {}
+
+  loose-envify@1.4.0:
+    dependencies:
+      js-tokens: 4.0.0
+
+  preact@10.19.2: {}
+
+  react-dom@18.3.1(react@18.3.1):
+    dependencies:
+      loose-envify: 1.4.0
+      react: 18.3.1
+      scheduler: 0.23.2
+
+  react@18.3.1:
+    dependencies:
+      loose-envify: 1.4.0
+
+  scheduler@0.23.2:
+    dependencies:
+      loose-envify: 1.4.0
+
+  typescript@5.4.5: {}
+`;
+
+const PNPM_LOCK_V6 = `lockfileVersion: '6.0'
+
+settings:
+  autoInstallPeers: true
+  excludeLinksFromLockfile: false
+
+importers:
+
+  .:
+    devDependencies:
+      typescript:
+        specifier: 5.4.5
+        version: 5.4.5
+
+  apps/web:
+    dependencies:
+      '@tanstack/query-core':
+        specifier: 5.40.0
+        version: 5.40.0
+      lodash-es:
+        specifier: ^4.17.0
+        version: 4.18.1
+      preact-alias:
+        specifier: npm:preact@10.19.2
+        version: /preact@10.19.2
+      react:
+        specifier: 18.3.1
+        version: 18.3.1
+      react-dom:
+        specifier: 18.3.1
+        version: 18.3.1(react@18.3.1)
+      shared:
+        specifier: workspace:*
+        version: link:../../packages/shared
+
+  packages/shared: {}
+
+packages:
+
+  /@tanstack/query-core@5.40.0:
+    resolution: {integrity: sha512-eD8K8jsOIq0Z5u/QbvOmfvKKE/XC39jA7yv4hgpl/1SRiU+J8QCIwgM/mEHuunQsL87dcvnHqSVLmf9pD4CiaA==}
+    dev: false
+
+  /js-tokens@4.0.0:
+    resolution: {integrity: sha512-RdJUflcE3cUzKiMqQgsCu06FPu9UdIJO0beYbPhHN4k6apgJtifcoCtT9bcxOpYBtpD2kCM6Sbzg4CausW/PKQ==}
+    dev: false
+
+  /lodash-es@4.18.1:
+    resolution: {integrity: sha512-J8xewKD/Gk22OZbhpOVSwcs60zhd95ESDwezOFuA3/099925PdHJ7OFHNTGtajL3AlZkykD32HykiMo+BIBI8A==}
+    dev: false
+
+  /loose-envify@1.4.0:
+    resolution: {integrity: sha512-lyuxPGr/Wfhrlem2CL/UcnUc1zcqKAImBDzukY7Y5F/yQiNdko6+fRLevlw1HgMySw7f611UIY408EtxRSoK3Q==}
+    hasBin: true
+    dependencies:
+      js-tokens: 4.0.0
+    dev: false
+
+  /preact@10.19.2:
+    resolution: {integrity: sha512-UA9DX/OJwv6YwP9Vn7Ti/vF80XL+YA5H2l7BpCtUr3ya8LWHFzpiO5R+N7dN16ujpIxhekRFuOOF82bXX7K/lg==}
+    dev: false
+
+  /react-dom@18.3.1(react@18.3.1):
+    resolution: {integrity: sha512-5m4nQKp+rZRb09LNH59GM4BxTh9251/ylbKIbpe7TpGxfJ+9kv6BLkLBXIjjspbgbnIBNqlI23tRnTWT0snUIw==}
+    peerDependencies:
+      react: ^18.3.1
+    dependencies:
+      loose-envify: 1.4.0
+      react: 18.3.1
+      scheduler: 0.23.2
+    dev: false
+
+  /react@18.3.1:
+    resolution: {integrity: sha512-wS+hAgJShR0KhEvPJArfuPVN1+Hz1t0Y6n5jLrGQbkb4urgPE/0Rve+1kMB1v/oWgHgm4WIcV+i7F2pTVj+2iQ==}
+    engines: {node: '>=0.10.0'}
+    dependencies:
+      loose-envify: 1.4.0
+    dev: false
+
+  /scheduler@0.23.2:
+    resolution: {integrity: sha512-UOShsPwz7NrMUqhR6t0hWjFduvOzbtv7toDH1/hIrfRNIDBnnBWd0CwJTGvTpngVlmwGCdP9/Zl/tVrDqcuYzQ==}
+    dependencies:
+      loose-envify: 1.4.0
+    dev: false
+
+  /typescript@5.4.5:
+    resolution: {integrity: sha512-vcI4UpRgg81oIRUFwR0WSIHKt11nJ7SAVlYNIu+QpqeyXP+gpQJy/Z4+F0aGxSE4MqwjyXvW/TzgkLAx2AGHwQ==}
+    engines: {node: '>=14.17'}
+    hasBin: true
+    dev: true
+`;
+
+describe('CDN providers, pinning and integrity', () => {
+  before(async () => {
+    base = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-cdn-'));
+  });
+
+  after(async () => {
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('reads the app\'s locked versions from pnpm-lock.yaml', async () => {
+    await writeFile(base, 'pnpm/pnpm-lock.yaml', PNPM_LOCK);
+    await fs.mkdir(path.join(base, 'pnpm/apps/web'), { recursive: true });
+
+    assert.deepStrictEqual(await readLockedVersions(path.join(base, 'pnpm/apps/web')), {
+      typescript: '5.4.5',
+      '@tanstack/query-core': '5.40.0',
+      'lodash-es': '4.17.21',
+      'react-dom': '18.3.1',
+    });
+    assert.deepStrictEqual(await readLockedVersions(path.join(base, 'pnpm')), { typescript: '5.4.5' });
+  });
+
+  it('reads pnpm v6 and v9 lockfiles as pnpm writes them', async () => {
+    for (const [dir, lock] of [['pnpm9', PNPM_LOCK_V9], ['pnpm6', PNPM_LOCK_V6]]) {
+      await writeFile(base, `${dir}/pnpm-lock.yaml`, lock);
+      await fs.mkdir(path.join(base, dir, 'apps/web'), { recursive: true });
+
+      // Aliases and workspace links aren't registry versions of the name
+      assert.deepStrictEqual(await readLockedVersions(path.join(base, dir, 'apps/web')), {
+        typescript: '5.4.5',
+        '@tanstack/query-core': '5.40.0',
+        'lodash-es': '4.18.1',
+        react: '18.3.1',
+        'react-dom': '18.3.1',
+      });
+      assert.deepStrictEqual(await readLockedVersions(path.join(base, dir)), { typescript: '5.4.5' });
+    }
+  });
+
+  it('reads only the importers of a pnpm lockfile', async () => {
+    await writeFile(base, 'yaml/pnpm-lock.yaml', [
+      "lockfileVersion: '9.0'",
+      '',
+      'importers:',
+      '',
+      '  .:',
+      '    dependencies:',
+      '      "@scope/a: b":',
+      '        specifier: ^2.0.0',
+      '        version: 2.0.0 # pinned',
+      "      'htm':",
+      '        specifier: >-',
+      '          version: 1.0.0',
+      '        version: 3.1.1',
+      '      lit: {',
+      '        specifier: ^3.0.0, version: 3.1.2 }',
+      '      preact:',
+      '        specifier: ^10.0.0',
+      "        version: '10.19.2'",
+      '    dependenciesMeta:',
+      '      preact:',
+      '        injected: true',
+      '',
+      'packages:',
+      '',
+      "  'left-pad@https://codeload.github.com/stevemao/left-pad/tar.gz/5e3d8a6':",
+      '    resolution: {tarball: https://codeload.github.com/stevemao/left-pad/tar.gz/5e3d8a6}',
+      '    deprecated: |',
+      '      dependencies:',
+      '        left-pad: 9.9.9',
+      '',
+    ].join('\n'));
+
+    // Flow collections are skipped rather than misread; pnpm doesn't write them here
+    assert.deepStrictEqual(await readLockedVersions(path.join(base, 'yaml')), {
+      '@scope/a: b': '2.0.0',
+      htm: '3.1.1',
+      preact: '10.19.2',
+    });
+  });
+
+  it('reads older pnpm lockfiles and package-lock.json', async () => {
+    await writeFile(base, 'pnpm5/pnpm-lock.yaml', 'lockfileVersion: 5.4\n\nspecifiers:\n  preact: ^10.0.0\n\ndependencies:\n  preact: 10.19.2\n  htm: 3.1.1_preact@10.19.2\n');
+    assert.deepStrictEqual(await readLockedVersions(path.join(base, 'pnpm5')), { preact: '10.19.2', htm: '3.1.1' });
+
+    await writeFile(base, 'npm/package-lock.json', JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'workspace' },
+        'node_modules/lodash-es': { version: '4.17.20' },
+        'node_modules/web': { resolved: 'apps/web', link: true },
+        'node_modules/lodash-es/node_modules/nested': { version: '1.0.0' },
+        'apps/web': { name: 'web' },
+        'apps/web/node_modules/lodash-es': { version: '4.17.21' },
+        'apps/web/node_modules/nanoid': { version: '5.0.7' },
+      },
+    }));
+    assert.deepStrictEqual(await readLockedVersions(path.join(base, 'npm/apps/web')), {
+      'lodash-es': '4.17.21',
+      nanoid: '5.0.7',
+    });
+    assert.deepStrictEqual(await readLockedVersions(path.join(base, 'npm')), { 'lodash-es': '4.17.20' });
+  });
+
+  it('builds pinned URLs for each provider and a mirror template', async () => {
+    const root = path.join(base, 'pnpm/apps/web');
+    const jsdelivr = await loadCdnOptions(root);
+    assert.strictEqual(getCdnUrl('lodash-es/debounce', jsdelivr), 'https://cdn.jsdelivr.net/npm/lodash-es@4.17.21/debounce/+esm');
+    assert.strictEqual(getCdnUrl('left-pad', jsdelivr), 'https://cdn.jsdelivr.net/npm/left-pad/+esm');
+
+    const esm = await loadCdnOptions(root, { provider: 'esm.sh' });
+    assert.strictEqual(getCdnUrl('react-dom/client', esm), 'https://esm.sh/react-dom@18.3.1/client?target=es2022');
+    const unpkg = await loadCdnOptions(root, { provider: 'unpkg' });
+    assert.strictEqual(getCdnUrl('@tanstack/query-core', unpkg), 'https://unpkg.com/@tanstack/query-core@5.40.0?module');
+
+    const mirror = await loadCdnOptions(root, { provider: 'https://npm.example.com/{name}/{version}{path}.js' });
+    assert.strictEqual(getCdnUrl('lodash-es', mirror), 'https://npm.example.com/lodash-es/4.17.21.js');
+    assert.strictEqual(getCdnUrl('left-pad', mirror), 'https://npm.example.com/left-pad/latest.js');
+
+    const unpinned = await loadCdnOptions(root, { pin: false });
+    assert.strictEqual(getCdnUrl('lodash-es', unpinned), 'https://cdn.jsdelivr.net/npm/lodash-es/+esm');
+
+    await assert.rejects(loadCdnOptions(root, { provider: 'skypack' }), /resolve\.cdn\.provider must be one of jsdelivr, esm\.sh, unpkg/);
+  });
+
+  it('resolves missing packages to the configured CDN, including allowed scopes', async () => {
+    const root = path.join(base, 'pnpm/apps/web');
+    const resolver = new ModuleResolver(root);
+    resolver.setCdnOptions(await loadCdnOptions(root, { provider: 'esm.sh', scopes: ['@tanstack'] }));
+
+    assert.strictEqual(await resolver.resolve('lodash-es', '/src/main.ts'), 'https://esm.sh/lodash-es@4.17.21?target=es2022');
+    assert.strictEqual(await resolver.resolve('@tanstack/query-core', '/src/main.ts'), 'https://esm.sh/@tanstack/query-core@5.40.0?target=es2022');
+    assert.strictEqual(await resolver.resolve('@private/missing', '/src/main.ts'), '/node_modules/@private/missing');
+
+    const explanation = await resolver.explain('lodash-es', '/src/main.ts');
+    assert.match(explanation.steps.at(-1)?.reason ?? '', /version pinned by the lockfile/);
+  });
+
+  it('hashes pinned CDN modules for the import map and caches the hashes', async () => {
+    const body = 'export default "lodash";\n';
+    const requests: string[] = [];
+    const server = http.createServer((req, res) => {
+      requests.push(req.url ?? '');
+      res.setHeader('Content-Type', 'application/javascript');
+      res.end(body);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const root = path.join(base, 'pnpm/apps/web');
+      await writeFile(base, 'pnpm/apps/web/src/main.ts', 'import _ from "lodash-es";\nimport pad from "left-pad";\n');
+      const options = await loadCdnOptions(root, { provider: `http://127.0.0.1:${port}/{name}@{version}{path}` });
+      const resolver = new ModuleResolver(root);
+      resolver.setCdnOptions(options);
+
+      const url = `http://127.0.0.1:${port}/lodash-es@4.17.21`;
+      const expected = `sha384-${createHash('sha384').update(body).digest('base64')}`;
+      // left-pad isn't in the lockfile, so its URL may change and isn't hashed
+      assert.deepStrictEqual(await getCdnIntegrity(root, resolver, options), { [url]: expected });
+      assert.deepStrictEqual(requests, ['/lodash-es@4.17.21']);
+
+      assert.deepStrictEqual(await getCdnIntegrity(root, resolver, options), { [url]: expected });
+      assert.strictEqual(requests.length, 1);
+      const cached = JSON.parse(await fs.readFile(path.join(root, '.swite', 'cdn-integrity.json'), 'utf-8'));
+      assert.deepStrictEqual(cached, { [url]: expected });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('remembers CDN modules that can\'t be fetched', async () => {
+    const requests: string[] = [];
+    const server = http.createServer((req, res) => {
+      requests.push(req.url ?? '');
+      res.statusCode = 503;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const root = path.join(base, 'pnpm9/apps/web');
+      await writeFile(base, 'pnpm9/apps/web/src/main.ts', 'import _ from "lodash-es";\nimport { createRoot } from "react-dom/client";\n');
+      const options = await loadCdnOptions(root, { provider: `http://127.0.0.1:${port}/{name}@{version}{path}` });
+      const resolver = new ModuleResolver(root);
+      resolver.setCdnOptions(options);
+
+      assert.deepStrictEqual(await getCdnIntegrity(root, resolver, options), {});
+      assert.deepStrictEqual(requests.sort(), ['/lodash-es@4.18.1', '/react-dom@18.3.1/client']);
+
+      // Later starts don't wait on them again
+      assert.deepStrictEqual(await getCdnIntegrity(root, resolver, options), {});
+      assert.strictEqual(requests.length, 2);
+      const cached = JSON.parse(await fs.readFile(path.join(root, '.swite', 'cdn-integrity.json'), 'utf-8'));
+      assert.deepStrictEqual(Object.keys(cached).sort(), [
+        `http://127.0.0.1:${port}/lodash-es@4.18.1`,
+        `http://127.0.0.1:${port}/react-dom@18.3.1/client`,
+      ]);
+      assert(Object.values(cached).every((entry) => typeof (entry as { failedAt?: unknown }).failedAt === 'number'));
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
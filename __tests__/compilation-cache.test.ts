@@ -0,0 +1,104 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { CompilationCache, getCompilerVersions, type CompiledModule } from '../src/internal/cache/compilation-cache.js';
+
+const compiled: CompiledModule = {
+  code: 'import "./utils";',
+  transformed: 'import "./utils";',
+  map: '{"version":3,"sources":[],"names":[],"mappings":""}',
+  compilerMap: null,
+};
+
+describe('Compilation cache - on disk', () => {
+  let root: string;
+  let cacheDir: string;
+  let file: string;
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-cache-'));
+    cacheDir = path.join(root, '.swite', 'cache');
+    file = path.join(root, 'src', 'App.ui');
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, 'component App {}');
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('keeps compiled output from a previous run, but not its rewritten imports', async () => {
+    const first = new CompilationCache();
+    await first.persistTo(cacheDir, { compiler: '1.0.0', env: {} });
+    await first.set(file, compiled, 'import "/src/utils.ts";', 'component App {}');
+
+    // Other files may resolve differently by now
+    const restarted = new CompilationCache();
+    await restarted.persistTo(cacheDir, { compiler: '1.0.0', env: {} });
+    assert.strictEqual(await restarted.get(file), null);
+    assert.deepStrictEqual(await restarted.getCompiled(file, 'component App {}'), compiled);
+    assert.strictEqual(restarted.getStats().size, 0);
+  });
+
+  it('misses when the file content changed since', async () => {
+    await fs.writeFile(file, 'component App { changed }');
+
+    const restarted = new CompilationCache();
+    await restarted.persistTo(cacheDir, { compiler: '1.0.0', env: {} });
+    assert.strictEqual(await restarted.getCompiled(file, 'component App { changed }'), null);
+
+    // Only in memory without the source
+    await restarted.set(file, compiled, 'rewritten');
+    assert.strictEqual(await restarted.get(file), 'rewritten');
+    const again = new CompilationCache();
+    await again.persistTo(cacheDir, { compiler: '1.0.0', env: {} });
+    assert.strictEqual(await again.getCompiled(file, 'component App { changed }'), null);
+  });
+
+  it('starts over when the compiler or other inputs change', async () => {
+    const first = new CompilationCache();
+    await first.persistTo(cacheDir, { compiler: '1.0.0', env: {} });
+    await first.set(file, compiled, 'rewritten', 'component App { changed }');
+
+    const upgraded = new CompilationCache();
+    await upgraded.persistTo(cacheDir, { compiler: '1.1.0', env: {} });
+    assert.strictEqual(await upgraded.getCompiled(file, 'component App { changed }'), null);
+    assert.strictEqual((await fs.readdir(cacheDir)).length, 1);
+
+    const downgraded = new CompilationCache();
+    await downgraded.persistTo(cacheDir, { compiler: '1.0.0', env: {} });
+    assert.strictEqual(await downgraded.getCompiled(file, 'component App { changed }'), null);
+  });
+
+  it('keeps entries until the file or something it imports is invalidated', async () => {
+    const cache = new CompilationCache();
+    await cache.persistTo(cacheDir, { compiler: '1.0.0', env: {} });
+    await cache.set(file, compiled, 'rewritten', 'component App { changed }');
+
+    // Lookups don't check the file; the watcher reports changes
+    await fs.writeFile(file, 'component App { changed again }');
+    assert.strictEqual(await cache.get(file), 'rewritten');
+
+    // An importer is invalidated with its source unchanged: only its
+    // imports are rewritten again
+    cache.invalidate(file);
+    assert.strictEqual(await cache.get(file), null);
+    assert.deepStrictEqual(await cache.getCompiled(file, 'component App { changed }'), compiled);
+
+    // A new version replaces the old one on disk
+    await cache.set(file, { ...compiled, code: 'changed again' }, 'rewritten', 'component App { changed again }');
+    const restarted = new CompilationCache();
+    await restarted.persistTo(cacheDir, { compiler: '1.0.0', env: {} });
+    assert.strictEqual(await restarted.getCompiled(file, 'component App { changed }'), null);
+    assert.strictEqual((await restarted.getCompiled(file, 'component App { changed again }'))?.code, 'changed again');
+  });
+
+  it('reports the versions of the compiling packages', async () => {
+    const pkg = JSON.parse(await fs.readFile(path.join(process.cwd(), 'package.json'), 'utf-8'));
+    const versions = await getCompilerVersions();
+    assert(versions.swite.startsWith(`${pkg.version}+`));
+    assert.deepStrictEqual(Object.keys(versions).sort(), ['compiler', 'esbuild', 'swite']);
+  });
+});
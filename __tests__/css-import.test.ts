@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type { Response } from 'express';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { rewriteImports } from '../src/resolution/rewriting/import-rewriter.js';
+import { ModuleGraph } from '../src/dev-engine/hmr/module-graph.js';
+import {
+  CSSHandler,
+  isCssImportRequest,
+  rewriteCssUrls,
+} from '../src/dev-engine/handlers/css-handler.js';
+
+describe('CSS imports - dev server', () => {
+  it('marks CSS imports at any depth with ?import', async () => {
+    const code = [
+      'import "./styles/card.css";',
+      'import { Button } from "./Button.ui";',
+      'const lazy = () => import("../theme/dark.css");',
+    ].join('\n');
+
+    const rewritten = await rewriteImports(code, '/app/src/components/Card.ui', new ModuleResolver('/app'));
+
+    assert(rewritten.includes('import "./styles/card.css?import";'));
+    assert(rewritten.includes('import("../theme/dark.css?import")'));
+    assert(rewritten.includes('from "./Button.ui"'));
+  });
+
+  it('only treats ?import stylesheet requests as modules', () => {
+    assert.strictEqual(isCssImportRequest('/src/app.css?import'), true);
+    assert.strictEqual(isCssImportRequest('/src/app.css?import&t=123'), true);
+    assert.strictEqual(isCssImportRequest('/src/app.css'), false);
+    assert.strictEqual(isCssImportRequest('/src/App.ui?import'), false);
+  });
+
+  it('makes relative url() and @import references absolute', () => {
+    const css = [
+      '@import "./tokens.css";',
+      '.hero { background: url(../img/hero.png); }',
+      '.logo { background: url("logo.svg"); }',
+      '.icon { background: url(data:image/png;base64,AAAA); }',
+      '.bg { background: url(/public/bg.png), url(https://cdn.example.com/x.png); }',
+    ].join('\n');
+
+    const rewritten = rewriteCssUrls(css, '/src/styles/app.css');
+
+    assert(rewritten.includes('@import "/src/styles/tokens.css";'));
+    assert(rewritten.includes('url(/src/img/hero.png)'));
+    assert(rewritten.includes('url("/src/styles/logo.svg")'));
+    assert(rewritten.includes('url(data:image/png;base64,AAAA)'));
+    assert(rewritten.includes('url(/public/bg.png), url(https://cdn.example.com/x.png)'));
+  });
+
+  it('serves a self-accepting module that injects the stylesheet', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-css-'));
+    try {
+      await fs.mkdir(path.join(root, 'src', 'styles'), { recursive: true });
+      await fs.writeFile(path.join(root, 'src', 'styles', 'card.css'), '.card { color: red; }\n');
+
+      const moduleGraph = new ModuleGraph();
+      const handler = new CSSHandler({
+        resolver: new ModuleResolver(root),
+        root,
+        workspaceRoot: root,
+        env: {},
+        moduleGraph,
+      });
+
+      let body = '';
+      const headers: Record<string, string> = {};
+      const res = {
+        setHeader(name: string, value: string) {
+          headers[name.toLowerCase()] = value;
+          return this;
+        },
+        send(content: string) {
+          body = content;
+          return this;
+        },
+      } as unknown as Response;
+
+      await handler.handle('/src/styles/card.css', res);
+
+      assert.match(headers['content-type'], /^application\/javascript/);
+      assert(body.includes('updateStyle(id, css);'));
+      assert(body.includes(JSON.stringify('.card { color: red; }\n')));
+      assert(body.includes('__swite__createHotContext("/src/styles/card.css")'));
+      assert.strictEqual(moduleGraph.getModuleByUrl('/src/styles/card.css')?.isSelfAccepting, true);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { getCssModuleId, scopeCssModule } from '../src/internal/css/css-modules.js';
+
+describe('CSS Modules - scoping', () => {
+  it('scopes class selectors and exports the name map', () => {
+    const { css, exports } = scopeCssModule(
+      '.card { color: red; }\n.card:hover > .title, .title.active { color: blue; }\n',
+      '@acme/ui/src/Card.module.css',
+    );
+
+    assert.deepStrictEqual(Object.keys(exports), ['card', 'title', 'active']);
+    assert.match(exports.card, /^Card_card_[0-9a-f]{6}$/);
+    assert(css.includes(`.${exports.card}:hover > .${exports.title}, .${exports.title}.${exports.active} {`));
+  });
+
+  it('leaves declarations, at-rule preludes and :global() alone', () => {
+    const { css, exports } = scopeCssModule(
+      [
+        '@media (min-width: 40.5em) { .grid { margin: .5em; } }',
+        ':global(.theme-dark) .grid { background: url("./bg.png"); }',
+        '/* .commented { } */',
+        '.icon::after { content: ".not-a-class"; }',
+      ].join('\n'),
+      '@acme/ui/src/Grid.module.css',
+    );
+
+    assert.deepStrictEqual(Object.keys(exports), ['grid', 'icon']);
+    assert(css.includes('@media (min-width: 40.5em) {'));
+    assert(css.includes('margin: .5em;'));
+    assert(css.includes(`.theme-dark .${exports.grid} {`));
+    assert(css.includes('/* .commented { } */'));
+    assert(css.includes('content: ".not-a-class";'));
+  });
+
+  it('derives names from the package, not the machine or the contents', async () => {
+    const first = scopeCssModule('.card {}', '@acme/ui/src/Card.module.css');
+    const edited = scopeCssModule('.card { padding: 0 }', '@acme/ui/src/Card.module.css');
+    const otherPackage = scopeCssModule('.card {}', '@acme/shop/src/Card.module.css');
+    assert.strictEqual(first.exports.card, edited.exports.card);
+    assert.notStrictEqual(first.exports.card, otherPackage.exports.card);
+
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-css-modules-'));
+    try {
+      await fs.mkdir(path.join(root, 'lib', 'ui', 'src'), { recursive: true });
+      await fs.writeFile(path.join(root, 'lib', 'ui', 'package.json'), JSON.stringify({ name: '@acme/ui' }));
+      const id = await getCssModuleId(path.join(root, 'lib', 'ui', 'src', 'Card.module.css'));
+      assert.strictEqual(id, '@acme/ui/src/Card.module.css');
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { optimizeDeps } from '../src/dev-engine/deps/dep-optimizer.js';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { rewriteImports } from '../src/resolution/rewriting/import-rewriter.js';
+import { writeFile } from './helpers/fs.js';
+
+let root: string;
+
+describe('Dependency pre-bundling', () => {
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-deps-'));
+    await writeFile(root, 'package-lock.json', '{"lockfileVersion":3}');
+    await writeFile(root, 'node_modules/cjs-dep/package.json', JSON.stringify({ name: 'cjs-dep', version: '1.0.0', main: 'index.js' }));
+    await writeFile(root, 'node_modules/cjs-dep/index.js', 'exports.greet = (name) => "hi " + name;\nexports.answer = require("./answer.js");\n');
+    await writeFile(root, 'node_modules/cjs-dep/answer.js', 'module.exports = 42;\n');
+
+    // An ES module package whose entry pulls in a dozen internal modules
+    await writeFile(root, 'node_modules/deep-dep/package.json', JSON.stringify({ name: 'deep-dep', version: '1.0.0', type: 'module', exports: './index.js' }));
+    const parts = Array.from({ length: 12 }, (_, i) => `part${i}`);
+    for (const part of parts) {
+      await writeFile(root, `node_modules/deep-dep/${part}.js`, `export const ${part} = "${part}";\n`);
+    }
+    await writeFile(root, 'node_modules/deep-dep/index.js', parts.map((part) => `export { ${part} } from "./${part}.js";`).join('\n'));
+
+    await writeFile(root, 'node_modules/tiny-dep/package.json', JSON.stringify({ name: 'tiny-dep', version: '1.0.0', type: 'module', main: 'index.js' }));
+    await writeFile(root, 'node_modules/tiny-dep/index.js', 'export const tiny = true;\n');
+
+    await writeFile(
+      root,
+      'src/main.ts',
+      [
+        'import { greet } from "cjs-dep";',
+        "import { part0 } from 'deep-dep';",
+        'import { tiny } from "tiny-dep";',
+        'import { local } from "./local";',
+      ].join('\n'),
+    );
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('bundles detected CommonJS and deep-import packages into .swite/deps', async () => {
+    const optimized = await optimizeDeps(root);
+    assert(optimized);
+    assert.deepStrictEqual(optimized.files, { 'cjs-dep': 'cjs-dep.js', 'deep-dep': 'deep-dep.js' });
+    assert.strictEqual(optimized.dir, path.join(root, '.swite', 'deps'));
+
+    const cjs = await import(pathToFileURL(path.join(optimized.dir, 'cjs-dep.js')).href);
+    assert.strictEqual(cjs.greet('swite'), 'hi swite');
+    assert.strictEqual(cjs.answer, 42);
+    assert.strictEqual(cjs.default.answer, 42);
+
+    const deep = await import(pathToFileURL(path.join(optimized.dir, 'deep-dep.js')).href);
+    assert.strictEqual(deep.part11, 'part11');
+  });
+
+  it('reuses the bundles until the lockfile changes', async () => {
+    const first = await optimizeDeps(root);
+    const bundle = path.join(root, '.swite', 'deps', 'cjs-dep.js');
+    const { mtimeMs } = await fs.stat(bundle);
+
+    const second = await optimizeDeps(root);
+    assert.strictEqual(second?.hash, first?.hash);
+    assert.strictEqual((await fs.stat(bundle)).mtimeMs, mtimeMs);
+
+    await writeFile(root, 'package-lock.json', '{"lockfileVersion":3,"packages":{}}');
+    const third = await optimizeDeps(root, { exclude: ['deep-dep'] });
+    assert.notStrictEqual(third?.hash, first?.hash);
+    assert.deepStrictEqual(third?.files, { 'cjs-dep': 'cjs-dep.js' });
+  });
+
+  it('points bare imports of bundled packages at .swite/deps', async () => {
+    const optimized = await optimizeDeps(root, { include: ['tiny-dep'] });
+    assert(optimized);
+    const resolver = new ModuleResolver(root);
+    resolver.setOptimizedDeps(optimized);
+
+    const rewritten = await rewriteImports(
+      'import { greet } from "cjs-dep";\nimport { tiny } from "tiny-dep";',
+      '/src/main.ts',
+      resolver,
+    );
+    assert(rewritten.includes(`from "/.swite/deps/cjs-dep.js?v=${optimized.hash}"`));
+    assert(rewritten.includes(`from "/.swite/deps/tiny-dep.js?v=${optimized.hash}"`));
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { transform } from 'esbuild';
+import {
+  buildErrorPayload,
+  extractLocation,
+  generateCodeFrame,
+  toTransformError,
+} from '../src/dev-engine/hmr/error-payload.js';
+import { ModuleGraph } from '../src/dev-engine/hmr/module-graph.js';
+import { analyzeImportsForHmr } from '../src/dev-engine/hmr/import-analysis.js';
+import { SwiteTransformError } from '../src/dev-engine/handlers/SwiteTransformError.js';
+
+const SOURCE = ['const a = 1;', 'const b = 2;', 'const c = ;', 'const d = 4;', 'const e = 5;', 'const f = 6;'].join('\n');
+
+describe('Error overlay payload', () => {
+  it('frames two lines either side with a caret under the column', () => {
+    assert.strictEqual(
+      generateCodeFrame(SOURCE, 3, 11),
+      [
+        '  1 | const a = 1;',
+        '  2 | const b = 2;',
+        '> 3 | const c = ;',
+        '    |           ^',
+        '  4 | const d = 4;',
+        '  5 | const e = 5;',
+      ].join('\n'),
+    );
+  });
+
+  it('clamps the frame to the start and end of the file', () => {
+    assert.strictEqual(generateCodeFrame('only();\r\nsecond();', 1, 1), ['> 1 | only();', '    | ^', '  2 | second();'].join('\n'));
+    assert.strictEqual(generateCodeFrame(SOURCE, 6, 1, 0), ['> 6 | const f = 6;', '    | ^'].join('\n'));
+  });
+
+  it('finds locations in the shapes compilers report', () => {
+    assert.deepStrictEqual(extractLocation({ errors: [{ text: 'x', location: { line: 3, column: 10 } }] }), { line: 3, column: 11 });
+    assert.deepStrictEqual(extractLocation({ loc: { line: 2, column: 4 } }), { line: 2, column: 5 });
+    assert.deepStrictEqual(extractLocation({ location: { line: 2, col: 4 } }), { line: 2, column: 5 });
+    assert.deepStrictEqual(extractLocation(Object.assign(new Error('x'), { line: 7 })), { line: 7, column: 1 });
+    assert.deepStrictEqual(extractLocation(new Error('Unexpected token (4:2)')), { line: 4, column: 3 });
+
+    assert.strictEqual(extractLocation(new Error('no location')), null);
+    assert.strictEqual(extractLocation('Unexpected token (4:2)'), null);
+    assert.strictEqual(extractLocation(null), null);
+    assert.strictEqual(extractLocation({ errors: 'not a list', loc: 'nowhere' }), null);
+  });
+
+  it('wraps esbuild failures with the file, location and frame', async () => {
+    let thrown: unknown;
+    try {
+      await transform(SOURCE, { loader: 'ts' });
+    } catch (error) {
+      thrown = error;
+    }
+
+    const error = toTransformError(thrown, '/app/src/broken.ts', SOURCE, 'esbuild');
+    assert(error instanceof SwiteTransformError);
+    assert.strictEqual(error.message, 'Unexpected ";"');
+    assert.strictEqual(error.file, '/app/src/broken.ts');
+    assert.strictEqual(error.plugin, 'esbuild');
+    assert.deepStrictEqual(error.loc, { line: 3, column: 11 });
+    assert.match(error.frame ?? '', /> 3 \| const c = ;/);
+
+    // Already wrapped errors pass through untouched
+    assert.strictEqual(toTransformError(error, '/app/src/other.ts', '', 'compiler'), error);
+  });
+
+  it('wraps errors without a location', () => {
+    const error = toTransformError('compiler crashed', '/app/src/App.ui', SOURCE, 'compiler');
+    assert.strictEqual(error.message, 'compiler crashed');
+    assert.strictEqual(error.loc, null);
+    assert.strictEqual(error.frame, null);
+  });
+
+  it('reports the import chain from the entry to the failing module', async () => {
+    const graph = new ModuleGraph();
+    await analyzeImportsForHmr(`import "./App.ui";`, '/src/main.ts', '/app/src/main.ts', graph);
+    await analyzeImportsForHmr(`import "./broken.ts";`, '/src/App.ui', '/app/src/App.ui', graph);
+    graph.ensureEntry('/src/broken.ts', '/app/src/broken.ts');
+
+    const cause = new SwiteTransformError('Unexpected ";"', {
+      file: '/app/src/broken.ts',
+      plugin: 'esbuild',
+      loc: { line: 3, column: 11 },
+      frame: 'frame',
+    });
+    const payload = buildErrorPayload(cause, '/src/broken.ts', graph);
+    assert.deepStrictEqual(
+      { ...payload, stack: null },
+      {
+        message: 'Unexpected ";"',
+        plugin: 'esbuild',
+        url: '/src/broken.ts',
+        file: '/app/src/broken.ts',
+        loc: { line: 3, column: 11 },
+        frame: 'frame',
+        importChain: ['/src/main.ts', '/src/App.ui', '/src/broken.ts'],
+        stack: null,
+      },
+    );
+    assert.match(payload.stack ?? '', /SwiteTransformError/);
+  });
+
+  it('falls back to the module graph for errors from elsewhere', () => {
+    const graph = new ModuleGraph();
+    graph.ensureEntry('/src/store.ts', '/app/src/store.ts');
+
+    const payload = buildErrorPayload(new TypeError('boom'), '/src/store.ts', graph);
+    assert.strictEqual(payload.plugin, 'server');
+    assert.strictEqual(payload.file, '/app/src/store.ts');
+    assert.deepStrictEqual(payload.importChain, ['/src/store.ts']);
+
+    const unknown = buildErrorPayload('boom', '/src/missing.ts', graph);
+    assert.strictEqual(unknown.message, 'boom');
+    assert.strictEqual(unknown.file, null);
+    assert.strictEqual(unknown.stack, null);
+    assert.deepStrictEqual(unknown.importChain, ['/src/missing.ts']);
+  });
+});
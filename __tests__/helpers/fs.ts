@@ -0,0 +1,8 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+
+// Write `file`, relative to `dir`, creating the directories it goes in
+export async function writeFile(dir: string, file: string, content: string | Buffer): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+  await fs.writeFile(path.join(dir, file), content);
+}
@@ -0,0 +1,16 @@
+import type { Response } from 'express';
+
+// Just enough of an express Response for the handlers
+export function createResponse(): { res: Response; sent: () => string } {
+  let body = '';
+  const res = {
+    setHeader() {
+      return this;
+    },
+    send(content: string) {
+      body = content;
+      return this;
+    },
+  } as unknown as Response;
+  return { res, sent: () => body };
+}
@@ -0,0 +1,193 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { HMREngine, type FileChangeEvent } from '../src/dev-engine/hmr/hmr.js';
+import { HMR_SOCKET_PATH } from '../src/dev-engine/hmr/hmr-client-template.js';
+import type { HmrErrorPayload } from '../src/dev-engine/hmr/error-payload.js';
+import { TSHandler } from '../src/dev-engine/handlers/ts-handler.js';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { loadPathAliases } from '../src/resolution/path-aliases.js';
+import { compilationCache } from '../src/internal/cache/compilation-cache.js';
+import { writeFile } from './helpers/fs.js';
+import { createResponse } from './helpers/response.js';
+
+let root: string;
+
+function connect(port: number, socketPath: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}${socketPath}`);
+    ws.once('open', () => resolve(ws));
+    ws.once('error', reject);
+  });
+}
+
+function nextMessage(ws: WebSocket): Promise<unknown> {
+  return new Promise((resolve) => ws.once('message', (raw) => resolve(JSON.parse(String(raw)))));
+}
+
+function nextFileChange(hmr: HMREngine, file: string, event: FileChangeEvent): Promise<void> {
+  return new Promise((resolve) => {
+    const remove = hmr.onFileChange((changed, seen) => {
+      if (changed !== file || seen !== event) return;
+      remove();
+      resolve();
+    });
+  });
+}
+
+// The watcher starts up in the background: touch a file until it's seen
+async function watcherReady(hmr: HMREngine, dir: string): Promise<void> {
+  const probe = path.join(dir, 'probe.txt');
+  let seen = false;
+  const remove = hmr.onFileChange((changed) => {
+    if (changed === probe) seen = true;
+  });
+  for (let i = 0; !seen; i++) {
+    await fs.writeFile(probe, String(i));
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+  remove();
+}
+
+function close(ws: WebSocket): Promise<void> {
+  return new Promise((resolve) => {
+    ws.once('close', () => resolve());
+    ws.close();
+  });
+}
+
+describe('HMR socket', () => {
+  let server: http.Server;
+  let hmr: HMREngine;
+  let port: number;
+  // Stands in for a proxy that handles its own WebSocket upgrades
+  const proxied = new WebSocketServer({ noServer: true });
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-hmr-'));
+    server = http.createServer((_req, res) => res.end());
+    hmr = new HMREngine(root);
+    await hmr.initialize(server);
+    server.on('upgrade', (req, socket, head) => {
+      if (req.url !== '/proxied') return;
+      proxied.handleUpgrade(req, socket, head, (ws) => ws.send(JSON.stringify({ from: 'proxy' })));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await hmr.stop();
+    proxied.close();
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('accepts connections on the dev server port', async () => {
+    assert.strictEqual(hmr.getPort(), undefined);
+    const ws = await connect(port, `${HMR_SOCKET_PATH}?token=1`);
+    try {
+      const message = nextMessage(ws);
+      hmr.notifyChange(path.join(root, 'src', 'not-loaded.ts'));
+      assert.deepStrictEqual(await message, { type: 'full-reload', path: path.join(root, 'src', 'not-loaded.ts') });
+    } finally {
+      await close(ws);
+    }
+  });
+
+  it('replays the last error to clients that connect later', async () => {
+    const err: HmrErrorPayload = {
+      message: 'Boom',
+      plugin: 'swite:ts',
+      url: '/src/main.ts',
+      file: null,
+      loc: null,
+      frame: null,
+      importChain: ['/src/main.ts'],
+      stack: null,
+    };
+    hmr.sendError(err);
+    const ws = new WebSocket(`ws://127.0.0.1:${port}${HMR_SOCKET_PATH}`);
+    try {
+      assert.deepStrictEqual(await nextMessage(ws), { type: 'error', err });
+    } finally {
+      await close(ws);
+    }
+  });
+
+  it('leaves other upgrade requests to their own handlers', async () => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/proxied`);
+    try {
+      assert.deepStrictEqual(await nextMessage(ws), { from: 'proxy' });
+    } finally {
+      await close(ws);
+    }
+  });
+});
+
+describe('HMR file watcher', () => {
+  let dir: string;
+  let hmr: HMREngine;
+  let handler: TSHandler;
+
+  async function serve(url: string): Promise<string> {
+    const { res, sent } = createResponse();
+    await handler.handle(url, res);
+    return sent();
+  }
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-watch-'));
+    await writeFile(dir, 'tsconfig.json', '{ "compilerOptions": { "paths": { "@/*": ["./src/*"] } } }');
+    await writeFile(dir, 'src/main.ts', 'import { value } from "@/utils";\nexport default value;\n');
+    await writeFile(dir, 'src/utils.ts', 'export const value = 1;\n');
+
+    hmr = new HMREngine(dir);
+    await hmr.initialize(http.createServer());
+    // As the dev server wires it up
+    hmr.onFileChange((file, event) => {
+      compilationCache.handleFileChange(file, event, hmr.moduleGraph.getImporterFiles(file));
+    });
+    await hmr.start();
+    await watcherReady(hmr, dir);
+
+    const resolver = new ModuleResolver(dir);
+    resolver.setPathAliases(await loadPathAliases(dir));
+    handler = new TSHandler({ resolver, root: dir, workspaceRoot: dir, env: {}, moduleGraph: hmr.moduleGraph });
+  });
+
+  after(async () => {
+    await hmr.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // An alias resolves to a file, so the served import names the file
+  it('rewrites importers again when a dependency is moved', async () => {
+    assert.match(await serve('/src/main.ts'), /from "\/src\/utils\.ts(\?[^"]*)?"/);
+    // As the browser would, which maps the module to its file
+    await serve('/src/utils.ts');
+
+    const deleted = nextFileChange(hmr, path.join(dir, 'src', 'utils.ts'), 'unlink');
+    await fs.rm(path.join(dir, 'src', 'utils.ts'));
+    await deleted;
+    const added = nextFileChange(hmr, path.join(dir, 'src', 'utils', 'index.ts'), 'add');
+    await writeFile(dir, 'src/utils/index.ts', 'export const value = 2;\n');
+    await added;
+
+    assert.match(await serve('/src/main.ts'), /from "\/src\/utils\/index\.ts(\?[^"]*)?"/);
+  });
+
+  it('rewrites importers again when an added file takes over an import', async () => {
+    // Not imported by anything yet, so only the add event tells
+    const added = nextFileChange(hmr, path.join(dir, 'src', 'utils.ts'), 'add');
+    await writeFile(dir, 'src/utils.ts', 'export const value = 3;\n');
+    await added;
+
+    assert.match(await serve('/src/main.ts'), /from "\/src\/utils\.ts(\?[^"]*)?"/);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  modulePreloadTag,
+  parseHtmlEntry,
+  renderHtmlEntry,
+  scriptTag,
+  stylesheetTag,
+} from '../src/build-engine/html-entry.js';
+
+const page = [
+  '<!doctype html>',
+  '<html>',
+  '  <head>',
+  '    <link rel="stylesheet" href="/src/styles/global.css?v=1">',
+  '    <link rel="stylesheet" href="https://fonts.example.com/inter.css">',
+  '    <link rel="icon" href="/favicon.ico">',
+  '  </head>',
+  '  <body>',
+  '    <div id="app"></div>',
+  '    <script type="module" src="/__swite_hmr_client"></script>',
+  '    <script type="module" src="/src/index.ui"></script>',
+  '    <script src="/legacy.js"></script>',
+  '  </body>',
+  '</html>',
+].join('\n');
+
+describe('HTML entry - builder', () => {
+  it('finds local module scripts, stylesheets and dev-only tags', () => {
+    const entry = parseHtmlEntry(page);
+
+    assert.deepStrictEqual(entry.scripts.map((ref) => ref.url), ['/src/index.ui']);
+    assert.deepStrictEqual(entry.stylesheets.map((ref) => ref.url), ['/src/styles/global.css']);
+    assert.deepStrictEqual(entry.devOnly, ['<script type="module" src="/__swite_hmr_client"></script>']);
+  });
+
+  it('rewrites tags in place and adds head tags', () => {
+    const entry = parseHtmlEntry(page);
+    const replacements = new Map<string, string>([
+      [entry.scripts[0].tag, scriptTag('/index-4F2A9C1B.js')],
+      [entry.stylesheets[0].tag, stylesheetTag('/global-77D0E3AA.css')],
+      [entry.devOnly[0], ''],
+    ]);
+
+    const html = renderHtmlEntry(page, replacements, [
+      stylesheetTag('/index-1C0FFEE0.css'),
+      modulePreloadTag('/chunk-8B3D2E11.js'),
+    ]);
+
+    assert(html.includes('<script type="module" src="/index-4F2A9C1B.js"></script>'));
+    assert(html.includes('<link rel="stylesheet" href="/global-77D0E3AA.css">'));
+    assert(!html.includes('__swite_hmr_client'));
+    assert(!html.includes('/src/'));
+    assert(html.includes('<script src="/legacy.js"></script>'));
+    assert(html.includes('https://fonts.example.com/inter.css'));
+    assert.match(
+      html,
+      /<link rel="stylesheet" href="\/index-1C0FFEE0.css">\n\s*<link rel="modulepreload" href="\/chunk-8B3D2E11.js">\n\s*<\/head>/,
+    );
+    assert(!/\n[ \t]*\n/.test(html), 'removed tag leaves no blank line');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { build } from 'esbuild';
+import { outputHeadTags, renderHtmlEntry, scriptTag } from '../src/build-engine/html-entry.js';
+import { createManifest, getEntryOutputs, type EntryOutput } from '../src/build-engine/manifest.js';
+import { writeFile } from './helpers/fs.js';
+
+describe('Build manifest', () => {
+  it('maps entries and routes to their outputs relative to outDir', () => {
+    const root = path.resolve('/app');
+    const outDir = path.join(root, 'dist');
+    const entry = path.join(root, 'src', 'index.ui');
+    const route = path.join(root, 'src', 'pages', 'about.ui');
+    const outputs = new Map<string, EntryOutput>([
+      [entry, {
+        file: path.join(outDir, 'index-4F2A9C1B.js'),
+        css: [path.join(outDir, 'index-1C0FFEE0.css')],
+        imports: [path.join(outDir, 'chunk-8B3D2E11.js')],
+      }],
+      [route, {
+        file: path.join(outDir, 'about-77D0E3AA.js'),
+        css: [],
+        imports: [path.join(outDir, 'chunk-8B3D2E11.js')],
+      }],
+    ]);
+
+    const manifest = createManifest(root, outDir, outputs, [route]);
+
+    assert.deepStrictEqual(manifest, {
+      'src/index.ui': {
+        file: 'index-4F2A9C1B.js',
+        imports: ['chunk-8B3D2E11.js'],
+        css: ['index-1C0FFEE0.css'],
+        isEntry: true,
+      },
+      'src/pages/about.ui': {
+        file: 'about-77D0E3AA.js',
+        imports: ['chunk-8B3D2E11.js'],
+        css: [],
+        isRoute: true,
+      },
+    });
+  });
+});
+
+describe('Build outputs - CSS', () => {
+  let root: string;
+  let outDir: string;
+  let outputs: Map<string, EntryOutput>;
+  const toUrl = (file: string) => '/' + path.relative(outDir, file).split(path.sep).join('/');
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-manifest-'));
+    outDir = path.join(root, 'dist');
+    await writeFile(root, 'src/main.js', 'import "./main.css";\nimport { shared } from "./shared.js";\nexport const open = () => import("./dialog.js");\n');
+    await writeFile(root, 'src/main.css', '.main { color: red; }\n');
+    await writeFile(root, 'src/shared.js', 'import "./shared.css";\nexport const shared = 1;\n');
+    await writeFile(root, 'src/shared.css', '.shared { color: green; }\n');
+    await writeFile(root, 'src/dialog.js', 'import "./dialog.css";\nimport { shared } from "./shared.js";\nexport const dialog = shared;\n');
+    await writeFile(root, 'src/dialog.css', '.dialog { color: blue; }\n');
+    await writeFile(root, 'src/pages/about.js', 'import "./about.css";\nimport { shared } from "../shared.js";\nexport default shared;\n');
+    await writeFile(root, 'src/pages/about.css', '.about { color: black; }\n');
+
+    // As the builder does: the route is an entry of its own, built from a page component
+    const entryPoints = new Map([
+      [path.join(root, 'src', 'main.js'), path.join(root, 'src', 'main.js')],
+      [path.join(root, 'src', 'pages', 'about.js'), path.join(root, 'src', 'pages', 'about.ui')],
+    ]);
+    const result = await build({
+      entryPoints: Array.from(entryPoints.keys()),
+      absWorkingDir: root,
+      outdir: outDir,
+      bundle: true,
+      splitting: true,
+      format: 'esm',
+      entryNames: '[name]-[hash]',
+      chunkNames: '[name]-[hash]',
+      metafile: true,
+      logLevel: 'silent',
+    });
+    outputs = getEntryOutputs(result.metafile, entryPoints, root);
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('bundles the CSS of lazily imported modules with the entry', async () => {
+    const main = outputs.get(path.join(root, 'src', 'main.js'))!;
+    assert.match(path.basename(main.file), /^main-[A-Z0-9]{8}\.js$/);
+    assert.strictEqual(main.css.length, 1);
+    assert(path.isAbsolute(main.css[0]));
+    const css = await fs.readFile(main.css[0], 'utf-8');
+    for (const rule of ['.main', '.shared', '.dialog']) assert(css.includes(rule), `${rule} should be in ${css}`);
+    assert(!css.includes('.about'));
+    // shared.js is a chunk the entry imports statically
+    assert.strictEqual(main.imports.length, 1);
+  });
+
+  it('keeps route CSS with the route', async () => {
+    const about = outputs.get(path.join(root, 'src', 'pages', 'about.ui'))!;
+    assert.strictEqual(about.css.length, 1);
+    const css = await fs.readFile(about.css[0], 'utf-8');
+    assert(css.includes('.about'));
+    assert(!css.includes('.main'));
+  });
+
+  it('links entry and route CSS from the page', () => {
+    const main = outputs.get(path.join(root, 'src', 'main.js'))!;
+    const about = outputs.get(path.join(root, 'src', 'pages', 'about.ui'))!;
+    const entryTag = '<script type="module" src="/src/main.js"></script>';
+    const html = renderHtmlEntry(
+      `<html><head></head><body>${entryTag}</body></html>`,
+      new Map([[entryTag, scriptTag(toUrl(main.file))]]),
+      outputHeadTags([main], [about], toUrl),
+    );
+
+    assert(html.includes(`<link rel="stylesheet" href="${toUrl(main.css[0])}">`));
+    assert(html.includes(`<link rel="stylesheet" href="${toUrl(about.css[0])}">`));
+    assert(html.includes(`<link rel="modulepreload" href="${toUrl(main.imports[0])}">`));
+    assert(html.includes(`<script type="module" src="${toUrl(main.file)}"></script>`));
+    // The route chunk itself is still imported lazily
+    assert(!html.includes(toUrl(about.file)));
+  });
+
+  it('links each stylesheet once', () => {
+    const main = outputs.get(path.join(root, 'src', 'main.js'))!;
+    const tags = outputHeadTags([main, main], [], toUrl);
+    assert.strictEqual(new Set(tags).size, tags.length);
+  });
+});
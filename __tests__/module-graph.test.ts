@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { ModuleGraph } from '../src/dev-engine/hmr/module-graph.js';
+import { analyzeImportsForHmr } from '../src/dev-engine/hmr/import-analysis.js';
+
+describe('Module graph - HMR propagation', () => {
+  it('records importers from served modules', async () => {
+    const graph = new ModuleGraph();
+    await analyzeImportsForHmr(
+      `import { Button } from "./components/Button.ui";\nimport { store } from "/src/store.ts";`,
+      '/src/App.ui',
+      '/app/src/App.ui',
+      graph,
+    );
+
+    const button = graph.getModuleByUrl('/src/components/Button.ui');
+    assert(button, 'Button should be in the graph');
+    assert.deepStrictEqual(Array.from(button.importers, (m) => m.url), ['/src/App.ui']);
+    assert(graph.getModulesByFile('/app/src/App.ui')?.size === 1);
+  });
+
+  it('keeps two files with the same basename apart', async () => {
+    const graph = new ModuleGraph();
+    await analyzeImportsForHmr(`import "./a/Button.ui";\nimport "./b/Button.ui";`, '/src/App.ui', '/app/src/App.ui', graph);
+
+    assert(graph.getModuleByUrl('/src/a/Button.ui'));
+    assert(graph.getModuleByUrl('/src/b/Button.ui'));
+    assert.notStrictEqual(graph.getModuleByUrl('/src/a/Button.ui'), graph.getModuleByUrl('/src/b/Button.ui'));
+  });
+
+  it('stops at a self-accepting module', async () => {
+    const graph = new ModuleGraph();
+    await analyzeImportsForHmr(`import "./Page.ui";`, '/src/main.ts', '/app/src/main.ts', graph);
+    await analyzeImportsForHmr(
+      `import "./Button.ui";\nif (import.meta.hot) { import.meta.hot.accept(); }`,
+      '/src/Page.ui',
+      '/app/src/Page.ui',
+      graph,
+    );
+    await analyzeImportsForHmr(`export const label = "x";`, '/src/Button.ui', '/app/src/Button.ui', graph);
+
+    const button = graph.getModuleByUrl('/src/Button.ui')!;
+    const boundaries = graph.propagateUpdate(button, 1000);
+    assert(boundaries, 'Update should be accepted');
+    assert.deepStrictEqual(
+      boundaries.map((b) => [b.boundary.url, b.acceptedVia.url]),
+      [['/src/Page.ui', '/src/Page.ui']],
+    );
+    assert.strictEqual(button.lastHMRTimestamp, 1000);
+  });
+
+  it('lists every file that imports a file, directly or not', async () => {
+    const graph = new ModuleGraph();
+    await analyzeImportsForHmr(`import "./App.ui";`, '/src/main.ts', '/app/src/main.ts', graph);
+    await analyzeImportsForHmr(`import "./Button.ui";\nimport "./store.ts";`, '/src/App.ui', '/app/src/App.ui', graph);
+    await analyzeImportsForHmr(`import "./store.ts";`, '/src/Button.ui', '/app/src/Button.ui', graph);
+    await analyzeImportsForHmr(`export const store = {};`, '/src/store.ts', '/app/src/store.ts', graph);
+
+    assert.deepStrictEqual(
+      Array.from(graph.getImporterFiles('/app/src/store.ts')).sort(),
+      ['/app/src/App.ui', '/app/src/Button.ui', '/app/src/main.ts'],
+    );
+    assert.strictEqual(graph.getImporterFiles('/app/src/main.ts').size, 0);
+  });
+
+  it('accepts a dependency referenced without its extension', async () => {
+    const graph = new ModuleGraph();
+    await analyzeImportsForHmr(
+      `import { store } from "/src/store.ts";\nimport.meta.hot.accept("./store", (mod) => {});`,
+      '/src/App.ui',
+      '/app/src/App.ui',
+      graph,
+    );
+
+    const store = graph.getModuleByUrl('/src/store.ts')!;
+    const boundaries = graph.propagateUpdate(store, 1000);
+    assert.deepStrictEqual(
+      boundaries?.map((b) => [b.boundary.url, b.acceptedVia.url]),
+      [['/src/App.ui', '/src/store.ts']],
+    );
+  });
+
+  it('requires a full reload when no module accepts the update', async () => {
+    const graph = new ModuleGraph();
+    await analyzeImportsForHmr(`import "./Button.ui";`, '/src/main.ts', '/app/src/main.ts', graph);
+
+    const button = graph.getModuleByUrl('/src/Button.ui')!;
+    assert.strictEqual(graph.propagateUpdate(button, 1000), null);
+  });
+
+  it('walks a shared importer once and reports its boundary once', async () => {
+    // A -> B -> D and A -> C -> D, with A accepting itself
+    const graph = new ModuleGraph();
+    await analyzeImportsForHmr(`import "./B.ts";\nimport "./C.ts";\nimport.meta.hot.accept();`, '/src/A.ts', '/app/src/A.ts', graph);
+    await analyzeImportsForHmr(`import "./D.ts";`, '/src/B.ts', '/app/src/B.ts', graph);
+    await analyzeImportsForHmr(`import "./D.ts";`, '/src/C.ts', '/app/src/C.ts', graph);
+
+    const d = graph.getModuleByUrl('/src/D.ts')!;
+    const boundaries = graph.propagateUpdate(d, 1000);
+    assert.deepStrictEqual(
+      boundaries?.map((b) => [b.boundary.url, b.acceptedVia.url]),
+      [['/src/A.ts', '/src/A.ts']],
+    );
+    for (const url of ['/src/B.ts', '/src/C.ts', '/src/D.ts']) {
+      assert.strictEqual(graph.getModuleByUrl(url)!.lastHMRTimestamp, 1000);
+    }
+  });
+
+  it('requires a full reload for a cycle without an accepting module', async () => {
+    const graph = new ModuleGraph();
+    await analyzeImportsForHmr(`import "./B.ts";`, '/src/A.ts', '/app/src/A.ts', graph);
+    await analyzeImportsForHmr(`import "./A.ts";`, '/src/B.ts', '/app/src/B.ts', graph);
+
+    assert.strictEqual(graph.propagateUpdate(graph.getModuleByUrl('/src/B.ts')!, 1000), null);
+  });
+
+  it('stamps updated imports and defines import.meta.hot', async () => {
+    const graph = new ModuleGraph();
+    const source = `import { Button } from "./Button.ui";\nconst lazy = () => import("./Lazy.ui");\nimport.meta.hot?.accept();`;
+    await analyzeImportsForHmr(source, '/src/Page.ui', '/app/src/Page.ui', graph);
+    graph.getModuleByUrl('/src/Button.ui')!.lastHMRTimestamp = 42;
+
+    const result = await analyzeImportsForHmr(source, '/src/Page.ui', '/app/src/Page.ui', graph);
+
+    assert(result.includes('from "./Button.ui?t=42"'), 'Static import should carry the timestamp');
+    assert(result.includes('import("./Lazy.ui")'), 'Untouched imports should not change');
+    assert(result.includes('__swite__createHotContext("/src/Page.ui")'), 'Hot context should be created');
+    assert.strictEqual(result.split('\n').length, source.split('\n').length, 'Line count should be preserved');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import {
+  DEV_CONDITIONS,
+  BUILD_CONDITIONS,
+  InvalidPackageConfigError,
+  resolvePackageExports,
+  resolvePackageImports,
+} from '../src/resolution/package-exports.js';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { writeFile } from './helpers/fs.js';
+
+describe('package.json exports', () => {
+  const exports = {
+    '.': { swiss: './src/index.ui', import: './dist/index.js', default: './dist/index.cjs' },
+    './button': {
+      browser: { development: './src/button.dev.ts', default: './src/button.ts' },
+      default: './dist/button.node.js',
+    },
+    './features/*': './src/features/*.ts',
+    './features/*.css': './styles/*.css',
+    './features/internal/*': null,
+    './icons/*': ['./src/icons/*.svg', './dist/icons/*.svg'],
+  };
+
+  it('expands string, array and conditions-only sugar to the "." subpath', () => {
+    assert.strictEqual(resolvePackageExports('./index.js', '.', DEV_CONDITIONS), './index.js');
+    assert.strictEqual(resolvePackageExports({ import: './index.mjs', default: './index.cjs' }, '.', DEV_CONDITIONS), './index.mjs');
+    assert.strictEqual(resolvePackageExports('./index.js', './other', DEV_CONDITIONS), null);
+  });
+
+  it('matches conditions in the package\'s key order, including nested ones', () => {
+    assert.strictEqual(resolvePackageExports(exports, '.', DEV_CONDITIONS), './src/index.ui');
+    assert.strictEqual(resolvePackageExports(exports, '.', ['import']), './dist/index.js');
+    assert.strictEqual(resolvePackageExports(exports, '.', []), './dist/index.cjs');
+    assert.strictEqual(resolvePackageExports(exports, './button', DEV_CONDITIONS), './src/button.dev.ts');
+    assert.strictEqual(resolvePackageExports(exports, './button', BUILD_CONDITIONS), './src/button.ts');
+    assert.strictEqual(resolvePackageExports(exports, './button', ['node']), './dist/button.node.js');
+  });
+
+  it('substitutes patterns, preferring the most specific key', () => {
+    assert.strictEqual(resolvePackageExports(exports, './features/cart', DEV_CONDITIONS), './src/features/cart.ts');
+    assert.strictEqual(resolvePackageExports(exports, './features/cart/list', DEV_CONDITIONS), './src/features/cart/list.ts');
+    assert.strictEqual(resolvePackageExports(exports, './features/cart.css', DEV_CONDITIONS), './styles/cart.css');
+    assert.strictEqual(resolvePackageExports(exports, './icons/close', DEV_CONDITIONS), './src/icons/close.svg');
+  });
+
+  it('excludes subpaths mapped to null', () => {
+    assert.strictEqual(resolvePackageExports(exports, './features/internal/db', DEV_CONDITIONS), null);
+    assert.strictEqual(resolvePackageExports(exports, './missing', DEV_CONDITIONS), null);
+  });
+
+  it('rejects invalid package configs and targets', () => {
+    assert.throws(
+      () => resolvePackageExports({ '.': './index.js', import: './index.mjs' }, '.', DEV_CONDITIONS),
+      InvalidPackageConfigError,
+    );
+    assert.throws(() => resolvePackageExports({ '.': 'index.js' }, '.', DEV_CONDITIONS), InvalidPackageConfigError);
+    assert.throws(() => resolvePackageExports({ '.': '../outside.js' }, '.', DEV_CONDITIONS), InvalidPackageConfigError);
+    assert.throws(
+      () => resolvePackageExports({ './*': './src/*.js' }, './../secret', DEV_CONDITIONS),
+      InvalidPackageConfigError,
+    );
+  });
+});
+
+describe('package.json imports', () => {
+  const imports = {
+    '#internal/*': './src/internal/*.ts',
+    '#config': { development: './src/config.dev.ts', default: './src/config.ts' },
+    '#dep': 'some-package/sub',
+  };
+
+  it('maps # specifiers to package files and dependencies', () => {
+    assert.strictEqual(resolvePackageImports(imports, '#internal/db', DEV_CONDITIONS), './src/internal/db.ts');
+    assert.strictEqual(resolvePackageImports(imports, '#config', DEV_CONDITIONS), './src/config.dev.ts');
+    assert.strictEqual(resolvePackageImports(imports, '#config', BUILD_CONDITIONS), './src/config.ts');
+    assert.strictEqual(resolvePackageImports(imports, '#dep', DEV_CONDITIONS), 'some-package/sub');
+    assert.strictEqual(resolvePackageImports(imports, '#missing', DEV_CONDITIONS), null);
+    assert.strictEqual(resolvePackageImports(undefined, '#config', DEV_CONDITIONS), null);
+  });
+
+  it('rejects specifiers that aren\'t valid imports keys', () => {
+    assert.throws(() => resolvePackageImports(imports, '#', DEV_CONDITIONS), InvalidPackageConfigError);
+    assert.throws(() => resolvePackageImports(imports, '#/x', DEV_CONDITIONS), InvalidPackageConfigError);
+  });
+});
+
+describe('ModuleResolver package exports and imports', () => {
+  let workspace: string;
+  let root: string;
+
+  before(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-exports-'));
+    root = path.join(workspace, 'apps', 'web');
+    await writeFile(workspace, 'pnpm-workspace.yaml', 'packages:\n  - "apps/*"\n  - "packages/*"\n');
+    await writeFile(workspace, 'package.json', JSON.stringify({ name: 'workspace', private: true }));
+    await writeFile(workspace, 'apps/web/package.json', JSON.stringify({ name: 'web', dependencies: { '@acme/kit': 'workspace:*' } }));
+    await writeFile(workspace, 'apps/web/src/main.ts', 'export {};\n');
+    await writeFile(
+      workspace,
+      'packages/kit/package.json',
+      JSON.stringify({
+        name: '@acme/kit',
+        exports: {
+          '.': './src/index.ts',
+          './button': { development: './src/button.dev.ts', default: './src/button.ts' },
+          './widgets/*': './src/widgets/*.ts',
+        },
+        imports: { '#utils/*': './src/utils/*.ts' },
+      }),
+    );
+    for (const file of ['index.ts', 'button.ts', 'button.dev.ts', 'widgets/card.ts', 'utils/format.ts']) {
+      await writeFile(workspace, `packages/kit/src/${file}`, 'export {};\n');
+    }
+  });
+
+  after(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('resolves workspace package subpaths with the configured conditions', async () => {
+    const dev = new ModuleResolver(root);
+    assert.match(await dev.resolve('@acme/kit/button', '/src/main.ts'), /\/packages\/kit\/src\/button\.dev\.ts$/);
+    assert.match(await dev.resolve('@acme/kit/widgets/card', '/src/main.ts'), /\/packages\/kit\/src\/widgets\/card\.ts$/);
+
+    const prod = new ModuleResolver(root, BUILD_CONDITIONS);
+    assert.match(await prod.resolve('@acme/kit/button', '/src/main.ts'), /\/packages\/kit\/src\/button\.ts$/);
+  });
+
+  it('resolves # imports from the importing file\'s package', async () => {
+    const resolver = new ModuleResolver(root);
+    const importer = await resolver.resolve('@acme/kit', '/src/main.ts');
+    assert.match(await resolver.resolve('#utils/format', importer), /\/packages\/kit\/src\/utils\/format\.ts$/);
+    await assert.rejects(() => resolver.resolve('#missing', importer), /not defined in "imports"/);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { loadPathAliases, resolvePathAlias, isPathAlias } from '../src/resolution/path-aliases.js';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { rewriteImports } from '../src/resolution/rewriting/import-rewriter.js';
+import { writeFile } from './helpers/fs.js';
+
+let root: string;
+
+describe('Path aliases', () => {
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-alias-'));
+    await writeFile(
+      root,
+      'config/tsconfig.base.json',
+      [
+        '{',
+        '  // paths are relative to the config that declares them',
+        '  "compilerOptions": {',
+        '    "paths": { "@shared/*": ["../shared/*"] },',
+        '  },',
+        '}',
+      ].join('\n'),
+    );
+    await writeFile(
+      root,
+      'tsconfig.json',
+      [
+        '{',
+        '  "extends": "./config/tsconfig.base.json",',
+        '  /* app aliases */',
+        '  "compilerOptions": {',
+        '    "baseUrl": "src",',
+        '    "paths": {',
+        '      "@app/*": ["*"],',
+        '      "@app/components/*": ["widgets/*", "components/*"],',
+        '      "~/*": ["*"],',
+        '      "@config": ["config/index.ts"],',
+        '    },',
+        '  },',
+        '}',
+      ].join('\n'),
+    );
+    for (const file of [
+      'src/components/Button.ui',
+      'src/utils/format.ts',
+      'src/utils/dates/index.ts',
+      'src/config/index.ts',
+      'src/lib/api.ts',
+      'shared/tokens.ts',
+      'styles/theme.css',
+    ]) {
+      await writeFile(root, file, 'export {};\n');
+    }
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('reads paths and baseUrl from tsconfig.json, following extends', async () => {
+    const aliases = await loadPathAliases(root);
+    assert.strictEqual(aliases.baseUrl, path.join(root, 'src'));
+    assert.deepStrictEqual(aliases.paths['@app/*'], [path.join(root, 'src', '*')]);
+    assert.strictEqual(aliases.paths['@shared/*'], undefined, 'paths replace the base config\'s');
+
+    await writeFile(root, 'packages/lib/tsconfig.json', '{ "extends": "../../config/tsconfig.base.json" }');
+    const inherited = await loadPathAliases(path.join(root, 'packages/lib'));
+    assert.deepStrictEqual(inherited.paths['@shared/*'], [path.join(root, 'shared', '*')]);
+    assert.strictEqual(inherited.baseUrl, null);
+  });
+
+  it('resolves the most specific pattern, trying targets and extensions in order', async () => {
+    const aliases = await loadPathAliases(root);
+    assert.strictEqual(await resolvePathAlias(aliases, '@app/components/Button'), path.join(root, 'src/components/Button.ui'));
+    assert.strictEqual(await resolvePathAlias(aliases, '~/utils/format.js'), path.join(root, 'src/utils/format.ts'));
+    assert.strictEqual(await resolvePathAlias(aliases, '~/utils/dates'), path.join(root, 'src/utils/dates/index.ts'));
+    assert.strictEqual(await resolvePathAlias(aliases, '@config'), path.join(root, 'src/config/index.ts'));
+    assert.strictEqual(await resolvePathAlias(aliases, 'lib/api'), path.join(root, 'src/lib/api.ts'), 'baseUrl');
+  });
+
+  it('leaves packages and missing files to package resolution', async () => {
+    const aliases = await loadPathAliases(root);
+    assert.strictEqual(await resolvePathAlias(aliases, 'react'), null);
+    assert.strictEqual(await resolvePathAlias(aliases, '~/missing'), null);
+    assert.strictEqual(await resolvePathAlias(aliases, './utils/format'), null);
+  });
+
+  it('checks resolve.alias before tsconfig paths', async () => {
+    const aliases = await loadPathAliases(root, { '@app/components': 'shared', '#styles': 'styles' });
+    assert.strictEqual(await resolvePathAlias(aliases, '@app/components/tokens'), path.join(root, 'shared/tokens.ts'));
+    assert.strictEqual(await resolvePathAlias(aliases, '#styles/theme.css'), path.join(root, 'styles/theme.css'));
+    assert(isPathAlias(aliases, '#styles/theme.css'));
+    assert(!isPathAlias(aliases, '#stylesheet'));
+  });
+
+  it('rewrites aliased imports in dev to app URLs', async () => {
+    const resolver = new ModuleResolver(root);
+    resolver.setPathAliases(await loadPathAliases(root));
+    const code = [
+      'import { Button } from "@app/components/Button";',
+      'import { format } from "~/utils/format";',
+    ].join('\n');
+    const rewritten = await rewriteImports(code, '/src/main.ts', resolver);
+    assert(rewritten.includes('"/src/components/Button.ui"'), rewritten);
+    assert(rewritten.includes('"/src/utils/format.ts"'), rewritten);
+  });
+});
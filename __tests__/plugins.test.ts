@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { build } from 'esbuild';
+import { PluginContainer, type SwitePlugin } from '../src/internal/plugins/plugin-container.js';
+import { createPluginBridge } from '../src/build-engine/plugin-bridge.js';
+import { PluginHandler } from '../src/dev-engine/handlers/plugin-handler.js';
+import { TSHandler } from '../src/dev-engine/handlers/ts-handler.js';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { ModuleGraph } from '../src/dev-engine/hmr/module-graph.js';
+import { SwiteTransformError } from '../src/dev-engine/handlers/SwiteTransformError.js';
+import { createResponse } from './helpers/response.js';
+
+// Virtual module plus a transform that tags every module
+const plugins: SwitePlugin[] = [
+  {
+    name: 'virtual-version',
+    resolveId: (source) => (source === 'virtual:version' ? 'virtual:version' : null),
+    load: (id) => (id === 'virtual:version' ? 'export const version = "1.2.3";' : null),
+  },
+  {
+    name: 'banner',
+    transform: (code, id) => `${code}\nexport const seenBy = ${JSON.stringify(path.basename(id))};`,
+  },
+  {
+    name: 'build-only',
+    apply: 'build',
+    transformIndexHtml: (html) => html.replace('</head>', '<meta name="built"></head>'),
+  },
+];
+
+describe('Plugins - container', () => {
+  it('filters by apply, stops resolveId at the first result and chains the rest', async () => {
+    const container = new PluginContainer(
+      [
+        { name: 'a', resolveId: () => null, transform: (code) => code.replace('1', '2') },
+        { name: 'b', resolveId: (source) => `/b/${source}`, transform: (code) => `${code};` },
+        { name: 'c', resolveId: () => '/c', apply: 'serve' },
+        { name: 'd', transformIndexHtml: (html, { mode }) => `${html}<!-- ${mode} -->` },
+      ],
+      'build',
+    );
+
+    assert.deepStrictEqual(container.plugins.map((plugin) => plugin.name), ['a', 'b', 'd']);
+    assert.strictEqual(await container.resolveId('x', undefined), '/b/x');
+    assert.strictEqual((await container.transform('one = 1', '/src/a.ts')).code, 'one = 2;');
+    assert.strictEqual(await container.transformIndexHtml('<p></p>', { path: '/', mode: 'build' }), '<p></p><!-- build -->');
+    assert.strictEqual(container.has('configureServer'), false);
+  });
+
+  it('names the failing plugin', async () => {
+    const container = new PluginContainer(
+      [{ name: 'broken', transform: () => { throw new Error('boom'); } }],
+      'serve',
+    );
+    await assert.rejects(container.transform('x', '/src/a.ts'), (error: unknown) => {
+      assert(error instanceof SwiteTransformError);
+      assert.strictEqual(error.plugin, 'broken');
+      assert.strictEqual(error.file, '/src/a.ts');
+      return true;
+    });
+  });
+
+  it('lets handleHotUpdate hooks narrow the modules', async () => {
+    const graph = new ModuleGraph();
+    const modules = [graph.ensureEntry('/src/a.ts', '/app/src/a.ts'), graph.ensureEntry('/src/b.ts', '/app/src/b.ts')];
+    const container = new PluginContainer(
+      [
+        { name: 'keep-a', handleHotUpdate: (ctx) => ctx.modules.filter((mod) => mod.url.endsWith('a.ts')) },
+        { name: 'observer', handleHotUpdate: () => undefined },
+      ],
+      'serve',
+    );
+    const chosen = await container.handleHotUpdate({ file: '/app/src/a.ts', timestamp: 0, modules, read: async () => '' });
+    assert.deepStrictEqual(chosen?.map((mod) => mod.url), ['/src/a.ts']);
+    assert.strictEqual(await new PluginContainer([], 'serve').handleHotUpdate({ file: '', timestamp: 0, modules, read: async () => '' }), null);
+  });
+});
+
+describe('Plugins - dev server', () => {
+  it('serves virtual modules and runs transform on served modules', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-plugins-'));
+    try {
+      await fs.mkdir(path.join(root, 'src'), { recursive: true });
+      await fs.writeFile(
+        path.join(root, 'src', 'main.ts'),
+        'import { version } from "virtual:version";\nexport const label: string = `v${version}`;\n',
+      );
+
+      const container = new PluginContainer(plugins, 'serve');
+      const resolver = new ModuleResolver(root);
+      resolver.setPluginContainer(container);
+      const context = { resolver, root, workspaceRoot: root, env: {}, plugins: container };
+
+      const main = createResponse();
+      await new TSHandler(context).handle('/src/main.ts', main.res);
+      assert(main.sent().includes('from "/@id/virtual%3Aversion"'));
+      assert(main.sent().includes('export const seenBy = "main.ts";'));
+
+      const virtual = createResponse();
+      assert.strictEqual(await new PluginHandler(context).handle('/@id/virtual%3Aversion', virtual.res), true);
+      assert(virtual.sent().startsWith('export const version = "1.2.3";'));
+
+      const notLoaded = createResponse();
+      assert.strictEqual(await new PluginHandler(context).handle('/src/main.ts', notLoaded.res), false);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Plugins - builder', () => {
+  it('runs resolveId, load and transform inside esbuild', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-plugins-'));
+    try {
+      await fs.writeFile(
+        path.join(root, 'main.ts'),
+        'import { version } from "virtual:version";\nconsole.log(version as string);\n',
+      );
+
+      const result = await build({
+        entryPoints: [path.join(root, 'main.ts')],
+        bundle: true,
+        write: false,
+        format: 'esm',
+        logLevel: 'silent',
+        plugins: [createPluginBridge(new PluginContainer(plugins, 'build'), { root, toSourcePath: (file) => file })],
+      });
+
+      const output = result.outputFiles[0].text;
+      assert(output.includes('"1.2.3"'));
+      assert(output.includes('"main.ts"'));
+      assert(!output.includes(' as string'));
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { Prerenderer, pageOutputPath } from '../src/build-engine/prerender.js';
+import { expandRoutePath, isDynamicRoute } from '../src/internal/routes/route-matcher.js';
+
+describe('Prerendering', () => {
+  it('expands dynamic route params', () => {
+    assert.strictEqual(isDynamicRoute('/blog/:slug'), true);
+    assert.strictEqual(isDynamicRoute('/docs/[...path]'), true);
+    assert.strictEqual(isDynamicRoute('/blog/[slug]'), true);
+    assert.strictEqual(isDynamicRoute('/about'), false);
+
+    assert.strictEqual(expandRoutePath('/blog/:slug', { slug: 'hello world' }), '/blog/hello%20world');
+    assert.strictEqual(expandRoutePath('/docs/[...path]', { path: 'guide/intro' }), '/docs/guide/intro');
+    assert.strictEqual(expandRoutePath('/[lang]/blog/:slug', { lang: 'en', slug: 'a/b' }), '/en/blog/a%2Fb');
+    assert.strictEqual(expandRoutePath('/', {}), '/');
+    assert.throws(() => expandRoutePath('/blog/[slug]', {}), /Missing "slug"/);
+  });
+
+  it('writes each page to <route>/index.html', () => {
+    const outDir = path.resolve('/dist');
+    assert.strictEqual(pageOutputPath(outDir, '/'), path.join(outDir, 'index.html'));
+    assert.strictEqual(
+      pageOutputPath(outDir, '/blog/hello%20world'),
+      path.join(outDir, 'blog', 'hello world', 'index.html'),
+    );
+  });
+
+  it('renders pages with the built app and reads static params', async () => {
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-prerender-'));
+    const prerenderer = new Prerenderer(outDir);
+    try {
+      await fs.writeFile(
+        path.join(outDir, 'index-4F2A9C1B.js'),
+        [
+          'const page = location.pathname.startsWith("/blog/") ? import("./post-77D0E3AA.js") : import("./home-1C0FFEE0.js");',
+          'page.then((mod) => { document.getElementById("app").innerHTML = mod.default(location.pathname); });',
+        ].join('\n'),
+      );
+      await fs.writeFile(path.join(outDir, 'home-1C0FFEE0.js'), 'export default () => "<h1>Home</h1>";');
+      await fs.writeFile(
+        path.join(outDir, 'post-77D0E3AA.js'),
+        [
+          'export default (pathname) => `<article>${pathname}</article>`;',
+          'export async function getStaticParams() { return [{ slug: "first" }, { slug: "second" }]; }',
+        ].join('\n'),
+      );
+      const shell = '<!DOCTYPE html>\n<html><head><script type="module" src="/index-4F2A9C1B.js"></script></head><body><div id="app"></div></body></html>';
+
+      assert.deepStrictEqual(await prerenderer.loadStaticParams('/post-77D0E3AA.js'), [
+        { slug: 'first' },
+        { slug: 'second' },
+      ]);
+      assert.strictEqual(await prerenderer.loadStaticParams('/home-1C0FFEE0.js'), null);
+
+      const home = await prerenderer.render('/', shell);
+      assert(home.startsWith('<!DOCTYPE html>\n<html>'));
+      assert(home.includes('<div id="app"><h1>Home</h1></div>'));
+      assert(home.includes('<script type="module" src="/index-4F2A9C1B.js"></script>'));
+
+      const post = await prerenderer.render('/blog/first', shell);
+      assert(post.includes('<article>/blog/first</article>'));
+    } finally {
+      await prerenderer.close();
+      await fs.rm(outDir, { recursive: true, force: true });
+    }
+  });
+});
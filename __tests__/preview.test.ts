@@ -0,0 +1,168 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import http from 'node:http';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { promises as fs } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { getEncodedBody, isCompressible, negotiateEncoding } from '../src/preview-engine/compression.js';
+import { SwitePreviewServer } from '../src/preview-engine/server.js';
+import { writeFile } from './helpers/fs.js';
+
+interface PreviewResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+let root: string;
+let server: SwitePreviewServer;
+let port: number;
+
+async function freePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+function request(urlPath: string, headers: http.OutgoingHttpHeaders = {}): Promise<PreviewResponse> {
+  return new Promise((resolve, reject) => {
+    const req = http.get({ host: '127.0.0.1', port, path: urlPath, headers }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks) }));
+    });
+    req.on('error', reject);
+  });
+}
+
+// Large enough to be worth compressing
+const APP_JS = `export const app = ${JSON.stringify('x'.repeat(4096))};\n`;
+
+describe('Preview server', () => {
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-preview-'));
+    await writeFile(root, 'dist/index.html', '<!DOCTYPE html><html><body>app</body></html>');
+    await writeFile(root, 'dist/assets/app-5HXKQ2ZB.js', APP_JS);
+    await writeFile(root, 'dist/sw.js', 'self.skipWaiting();\n');
+    await writeFile(root, 'dist/about/index.html', '<!DOCTYPE html><html><body>about</body></html>');
+    await writeFile(root, 'dist/__swite_routes', JSON.stringify({ routes: [{ path: '/', meta: {}, componentUrl: '/index-5HXKQ2ZB.js' }] }));
+
+    port = await freePort();
+    server = new SwitePreviewServer({ root, outDir: 'dist', port, host: '127.0.0.1' });
+    await server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('negotiates brotli over gzip and honours q=0', () => {
+    assert.strictEqual(negotiateEncoding('gzip, deflate, br'), 'br');
+    assert.strictEqual(negotiateEncoding('gzip;q=1.0, deflate'), 'gzip');
+    assert.strictEqual(negotiateEncoding('br;q=0, gzip'), 'gzip');
+    assert.strictEqual(negotiateEncoding('br;q=0, gzip;q=0'), null);
+    assert.strictEqual(negotiateEncoding('*'), 'gzip');
+    assert.strictEqual(negotiateEncoding('identity'), null);
+    assert.strictEqual(negotiateEncoding(undefined), null);
+  });
+
+  it('only compresses text formats worth compressing', () => {
+    assert.strictEqual(isCompressible('app.js', 4096), true);
+    assert.strictEqual(isCompressible('app.JS', 4096), true);
+    assert.strictEqual(isCompressible('app.js', 100), false);
+    assert.strictEqual(isCompressible('logo.png', 4096), false);
+  });
+
+  it('prefers a precompressed sibling that is newer than the file', async () => {
+    const file = path.join(root, 'dist', 'precompressed.js');
+    await fs.writeFile(file, APP_JS);
+    await fs.writeFile(`${file}.gz`, 'precompressed');
+    const { mtimeMs } = await fs.stat(file);
+    assert.strictEqual((await getEncodedBody(file, mtimeMs, 'gzip')).toString(), 'precompressed');
+
+    // The sibling is older than the file, so it's stale
+    const body = await getEncodedBody(file, mtimeMs + 60_000, 'gzip');
+    assert.strictEqual(zlib.gunzipSync(body).toString(), APP_JS);
+  });
+
+  it('caches hashed assets forever and revalidates everything else', async () => {
+    const hashed = await request('/assets/app-5HXKQ2ZB.js');
+    assert.strictEqual(hashed.status, 200);
+    assert.strictEqual(hashed.headers['cache-control'], 'public, max-age=31536000, immutable');
+    assert.match(String(hashed.headers['content-type']), /javascript/);
+    assert.strictEqual(hashed.body.toString(), APP_JS);
+
+    for (const urlPath of ['/sw.js', '/index.html']) {
+      const response = await request(urlPath);
+      assert.strictEqual(response.status, 200);
+      assert.strictEqual(response.headers['cache-control'], 'no-cache');
+      assert.ok(response.headers.etag);
+    }
+  });
+
+  it('answers 304 when the ETag matches', async () => {
+    const first = await request('/sw.js');
+    const etag = String(first.headers.etag);
+
+    const revalidated = await request('/sw.js', { 'If-None-Match': etag });
+    assert.strictEqual(revalidated.status, 304);
+    assert.strictEqual(revalidated.body.length, 0);
+
+    const changed = await request('/sw.js', { 'If-None-Match': 'W/"0-0"' });
+    assert.strictEqual(changed.status, 200);
+  });
+
+  it('compresses with the negotiated encoding', async () => {
+    const br = await request('/assets/app-5HXKQ2ZB.js', { 'Accept-Encoding': 'gzip, br' });
+    assert.strictEqual(br.headers['content-encoding'], 'br');
+    assert.strictEqual(br.headers.vary, 'Accept-Encoding');
+    assert.strictEqual(zlib.brotliDecompressSync(br.body).toString(), APP_JS);
+
+    const gzip = await request('/assets/app-5HXKQ2ZB.js', { 'Accept-Encoding': 'gzip' });
+    assert.strictEqual(gzip.headers['content-encoding'], 'gzip');
+    assert.strictEqual(zlib.gunzipSync(gzip.body).toString(), APP_JS);
+
+    // Too small to compress
+    const small = await request('/sw.js', { 'Accept-Encoding': 'br' });
+    assert.strictEqual(small.headers['content-encoding'], undefined);
+  });
+
+  it('serves index.html for a directory', async () => {
+    const response = await request('/about', { Accept: 'text/html' });
+    assert.strictEqual(response.status, 200);
+    assert.match(String(response.headers['content-type']), /text\/html/);
+    assert.match(response.body.toString(), /about/);
+  });
+
+  it('falls back to index.html for navigations but not for assets', async () => {
+    const navigation = await request('/users/42', { Accept: 'text/html,application/xhtml+xml' });
+    assert.strictEqual(navigation.status, 200);
+    assert.match(navigation.body.toString(), /<body>app<\/body>/);
+
+    const script = await request('/assets/missing-AAAAAAAA.js', { Accept: 'text/html' });
+    assert.strictEqual(script.status, 404);
+    assert.match(String(script.headers['content-type']), /text\/plain/);
+
+    const fetchRequest = await request('/users/42', { Accept: 'application/json' });
+    assert.strictEqual(fetchRequest.status, 404);
+  });
+
+  it('serves the route table as JSON', async () => {
+    const response = await request('/__swite_routes', { Accept: '*/*' });
+    assert.strictEqual(response.status, 200);
+    assert.match(String(response.headers['content-type']), /application\/json/);
+    assert.strictEqual(response.headers['cache-control'], 'no-cache');
+    assert.strictEqual(JSON.parse(response.body.toString()).routes[0].componentUrl, '/index-5HXKQ2ZB.js');
+  });
+
+  it('refuses paths outside the build output', async () => {
+    const response = await request('/%2e%2e/package.json');
+    assert.strictEqual(response.status, 403);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { loadPathAliases } from '../src/resolution/path-aliases.js';
+import { formatResolveExplanation, type ResolveExplanation } from '../src/resolution/resolve-trace.js';
+import type { ImportMap } from '../src/internal/generate-import-map.js';
+import { quietLogger, type Logger } from '../src/kernel/logger.js';
+import { writeFile } from './helpers/fs.js';
+
+let root: string;
+
+function strategies(explanation: ResolveExplanation): string[] {
+  return explanation.steps.map((step) => `${step.accepted ? '+' : '-'}${step.strategy}`);
+}
+
+describe('Resolution traces', () => {
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-trace-'));
+    await writeFile(root, 'package.json', JSON.stringify({ name: 'app' }));
+    await writeFile(root, 'src/main.ts', 'export {};\n');
+    await writeFile(root, 'src/components/Button.ui', 'export {};\n');
+    await writeFile(root, 'tsconfig.json', JSON.stringify({ compilerOptions: { paths: { '~/*': ['./src/*'] } } }));
+    await writeFile(root, 'node_modules/tiny/package.json', JSON.stringify({ name: 'tiny', exports: { '.': './index.js' } }));
+    await writeFile(root, 'node_modules/tiny/index.js', 'export const tiny = true;\n');
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('records the node_modules walk, exports and URL mapping', async () => {
+    const explanation = await new ModuleResolver(root).explain('tiny', path.join(root, 'src/main.ts'));
+
+    assert.strictEqual(explanation.importer, '/src/main.ts');
+    assert.strictEqual(explanation.url, '/node_modules/tiny/index.js');
+    assert.strictEqual(explanation.file, path.join(root, 'node_modules/tiny/index.js'));
+    assert.strictEqual(explanation.exists, true);
+    assert.deepStrictEqual(strategies(explanation), [
+      '-import-map',
+      '+node-modules',
+      '+package-exports',
+      '-symlink-registry',
+      '+url',
+    ]);
+  });
+
+  it('explains CDN fallbacks and why they were allowed or not', async () => {
+    const resolver = new ModuleResolver(root);
+
+    const unscoped = await resolver.explain('left-pad-missing', '/src/main.ts');
+    assert.strictEqual(unscoped.url, 'https://cdn.jsdelivr.net/npm/left-pad-missing/+esm');
+    assert.strictEqual(unscoped.file, null);
+    assert.deepStrictEqual(unscoped.steps.at(-1), {
+      strategy: 'cdn',
+      accepted: true,
+      reason: 'left-pad-missing not found in node_modules or the workspace; falling back to the CDN, unpinned (not in the lockfile)',
+    });
+
+    const scoped = await resolver.explain('@private/missing', '/src/main.ts');
+    assert.strictEqual(scoped.url, '/node_modules/@private/missing');
+    assert.strictEqual(scoped.exists, false);
+    assert.strictEqual(scoped.steps.at(-1)?.strategy, 'cdn');
+    assert.strictEqual(scoped.steps.at(-1)?.accepted, false);
+    assert(strategies(scoped).includes('-package-registry'));
+  });
+
+  it('records import map hits, aliases and relative lookups', async () => {
+    const resolver = new ModuleResolver(root);
+    const importMap: ImportMap = { version: '1.0.0', generated: 0, imports: { mapped: '/vendor/mapped.js' } };
+    resolver.setImportMap(importMap);
+    resolver.setPathAliases(await loadPathAliases(root));
+
+    const mapped = await resolver.explain('mapped', '/src/main.ts');
+    assert.deepStrictEqual(strategies(mapped), ['+import-map']);
+
+    const aliased = await resolver.explain('~/components/Button', '/src/main.ts');
+    assert.strictEqual(aliased.url, '/src/components/Button.ui');
+    assert.strictEqual(aliased.steps[0].strategy, 'alias');
+    assert.strictEqual(aliased.exists, true);
+
+    const missing = await resolver.explain('./nope', '/src/main.ts');
+    assert.strictEqual(missing.steps[0].strategy, 'relative');
+    assert.strictEqual(missing.steps[0].accepted, false);
+    assert.strictEqual(missing.exists, false);
+  });
+
+  it('logs through the logger it is given', async () => {
+    const logged: string[] = [];
+    const logger: Logger = {
+      log: (message: string) => logged.push(message),
+      warn: (message: string) => logged.push(message),
+      error: (message: string) => logged.push(message),
+    };
+    const resolver = new ModuleResolver(root);
+    resolver.setLogger(logger);
+    await resolver.explain('left-pad-missing', '/src/main.ts');
+    assert(logged.some((message) => message.includes('left-pad-missing')));
+
+    // Nothing reaches the console when quiet
+    const { log, warn } = console;
+    const printed: unknown[] = [];
+    console.log = console.warn = (...args: unknown[]) => printed.push(args);
+    try {
+      resolver.setLogger(quietLogger);
+      await resolver.explain('other-missing', path.join(root, 'src/main.ts'));
+    } finally {
+      console.log = log;
+      console.warn = warn;
+    }
+    assert.deepStrictEqual(printed, []);
+  });
+
+  it('reports resolution errors and formats the trace', async () => {
+    const explanation = await new ModuleResolver(root).explain('#missing', '/src/main.ts');
+    assert.strictEqual(explanation.url, null);
+    assert.match(explanation.error ?? '', /not defined in "imports"/);
+
+    const text = formatResolveExplanation(await new ModuleResolver(root).explain('tiny', '/src/main.ts'));
+    assert.match(text, /node-modules\s+found .*node_modules[/\\]tiny/);
+    assert.match(text, /url: +.*\/node_modules\/tiny\/index\.js/);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+import type { RouteDefinition } from '@swissjs/core';
+import { getEntryOutputs, type EntryOutput } from '../src/build-engine/manifest.js';
+import { createRouteTable } from '../src/internal/routes/route-table.js';
+import { writeFile } from './helpers/fs.js';
+
+// What the file router's scanner returns for src/pages
+const scanned = [
+  { path: '/', component: () => null, meta: { httpUrl: '/src/pages/index.ui', title: 'Home' } },
+  { path: '/about', component: () => null, meta: { httpUrl: '/src/pages/about.ui' } },
+  { path: '/legacy', component: () => null, meta: {} },
+] as unknown as RouteDefinition[];
+
+describe('Route table', () => {
+  it('points the dev server at the page sources', () => {
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(createRouteTable(scanned))), {
+      routes: [
+        { path: '/', meta: { httpUrl: '/src/pages/index.ui', title: 'Home' }, componentUrl: '/src/pages/index.ui' },
+        { path: '/about', meta: { httpUrl: '/src/pages/about.ui' }, componentUrl: '/src/pages/about.ui' },
+        { path: '/legacy', meta: {}, componentUrl: null },
+      ],
+    });
+  });
+
+  describe('in a build', () => {
+    let root: string;
+    let outDir: string;
+    let outputs: Map<string, EntryOutput>;
+
+    before(async () => {
+      root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-routes-'));
+      outDir = path.join(root, 'dist');
+      await writeFile(root, 'build/src/pages/index.tsx', 'export default () => "home";\n');
+      await writeFile(root, 'build/src/pages/about.tsx', 'export default () => "about";\n');
+
+      // Pages are compiled to .tsx and bundled as entries of their own
+      const entryPoints = new Map([
+        [path.join(root, 'build', 'src', 'pages', 'index.tsx'), path.join(root, 'src', 'pages', 'index.ui')],
+        [path.join(root, 'build', 'src', 'pages', 'about.tsx'), path.join(root, 'src', 'pages', 'about.ui')],
+      ]);
+      const result = await build({
+        entryPoints: Array.from(entryPoints.keys()),
+        absWorkingDir: root,
+        outdir: outDir,
+        bundle: true,
+        splitting: true,
+        format: 'esm',
+        entryNames: '[name]-[hash]',
+        metafile: true,
+        logLevel: 'silent',
+      });
+      outputs = getEntryOutputs(result.metafile, entryPoints, root);
+    });
+
+    after(async () => {
+      await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('points each route at its hashed chunk', async () => {
+      const table = createRouteTable(scanned, (httpUrl) => {
+        const output = outputs.get(path.join(root, httpUrl));
+        return output ? '/' + path.relative(outDir, output.file).split(path.sep).join('/') : null;
+      });
+
+      const [home, about, legacy] = table.routes;
+      assert.match(home.componentUrl ?? '', /^\/index-[A-Z0-9]{8}\.js$/);
+      assert.match(about.componentUrl ?? '', /^\/about-[A-Z0-9]{8}\.js$/);
+      assert.deepStrictEqual(home.meta, { httpUrl: home.componentUrl, title: 'Home' });
+      assert.strictEqual(about.meta?.httpUrl, about.componentUrl);
+      assert.strictEqual(legacy.componentUrl, null);
+
+      // The chunk is the page's module
+      const page = await import(pathToFileURL(path.join(outDir, about.componentUrl!)).href);
+      assert.strictEqual(page.default(), 'about');
+      assert(!JSON.stringify(table).includes('/src/pages/'));
+    });
+  });
+});
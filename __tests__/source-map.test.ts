@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import * as esbuild from 'esbuild';
+import { decodeMappings, encodeMappings } from '../src/internal/sourcemap/vlq.js';
+import {
+  adjustForLineRewrites,
+  appendInlineSourceMap,
+  composeSourceMaps,
+  extractInlineSourceMap,
+  type RawSourceMap,
+} from '../src/internal/sourcemap/source-map.js';
+
+// Original [line, column] (0-based) of the token at a generated position
+function originalPositionFor(map: RawSourceMap, line: number, column: number): [number, number] | null {
+  const segments = decodeMappings(map.mappings)[line] ?? [];
+  const segment = segments.filter((s) => s[0] <= column).pop();
+  return segment && segment.length > 1 ? [segment[2], segment[3]] : null;
+}
+
+function positionOf(code: string, token: string): [number, number] {
+  const lines = code.split('\n');
+  const line = lines.findIndex((l) => l.includes(token));
+  return [line, lines[line].indexOf(token)];
+}
+
+describe('Source maps - dev transform chain', () => {
+  it('round-trips mappings through decode and encode', async () => {
+    const result = await esbuild.transform('const a: number = 1;\nexport function f(b: string) {\n  return a + b;\n}\n', {
+      loader: 'ts',
+      sourcemap: 'external',
+      sourcefile: '/app/src/a.ts',
+    });
+    const map: RawSourceMap = JSON.parse(result.map);
+    assert.strictEqual(encodeMappings(decodeMappings(map.mappings)), map.mappings);
+  });
+
+  it('shifts columns after an import specifier is rewritten', async () => {
+    const source = 'export const load = (): Promise<number> => import("@app/store").then((m) => m.count);\n';
+    const result = await esbuild.transform(source, { loader: 'ts', sourcemap: 'external', sourcefile: '/app/src/a.ts' });
+    const rewritten = result.code.replace('"@app/store"', '"/node_modules/@app/store/dist/index.js"');
+
+    const map = adjustForLineRewrites(JSON.parse(result.map), result.code, rewritten);
+
+    const [line, column] = positionOf(rewritten, 'then');
+    assert.deepStrictEqual(originalPositionFor(map, line, column), positionOf(source, 'then'));
+  });
+
+  it('composes a map chain back to the original source', async () => {
+    const original = 'type Props = { label: string };\n\nexport function render(props: Props) {\n  return props.label.toUpperCase();\n}\n';
+    const first = await esbuild.transform(original, { loader: 'ts', sourcemap: 'external', sourcefile: '/app/src/Button.ui' });
+    const second = await esbuild.transform(first.code, { loader: 'js', sourcemap: 'external', sourcefile: 'intermediate.js', minifyWhitespace: true });
+
+    const composed = composeSourceMaps(JSON.parse(second.map), JSON.parse(first.map));
+
+    assert.deepStrictEqual(composed.sources, ['/app/src/Button.ui']);
+    const [line, column] = positionOf(second.code, 'toUpperCase');
+    assert.deepStrictEqual(originalPositionFor(composed, line, column), positionOf(original, 'toUpperCase'));
+  });
+
+  it('extracts and re-appends inline maps', () => {
+    const map: RawSourceMap = { version: 3, sources: ['/app/src/a.ts'], names: [], mappings: 'AAAA' };
+    const code = appendInlineSourceMap('export const a = 1;', map);
+
+    const extracted = extractInlineSourceMap(code);
+    assert.strictEqual(extracted.code, 'export const a = 1;');
+    assert.deepStrictEqual(extracted.map, map);
+  });
+});
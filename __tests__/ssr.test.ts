@@ -0,0 +1,156 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import type { RouteDefinition } from '@swissjs/core';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { SSRModuleLoader } from '../src/dev-engine/ssr/ssr-module-loader.js';
+import { injectSSR } from '../src/dev-engine/ssr/ssr-render.js';
+import { SwiteTransformError } from '../src/dev-engine/handlers/SwiteTransformError.js';
+import { matchRoute } from '../src/internal/routes/route-matcher.js';
+
+async function createApp(files: Record<string, string>): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-ssr-'));
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), content);
+  }
+  return root;
+}
+
+function createLoader(root: string): SSRModuleLoader {
+  return new SSRModuleLoader({
+    resolver: new ModuleResolver(root),
+    root,
+    workspaceRoot: null,
+    env: { VITE_TITLE: 'Shop' },
+  });
+}
+
+describe('SSR module loader', () => {
+  it('loads a TypeScript module graph in Node with SSR set', async () => {
+    const root = await createApp({
+      'src/entry-server.ts': [
+        'import { join } from "node:path";',
+        'import { greet } from "./greet";',
+        'import styles from "./Card.module.css";',
+        'export const title: string = import.meta.env.VITE_TITLE;',
+        'export const ssr = import.meta.env.SSR;',
+        'export const joined = join("a", "b");',
+        'export const card = styles.card;',
+        'export const render = () => greet("server");',
+        'export const later = () => import("./greet").then((m) => m.greet("later"));',
+      ].join('\n'),
+      'src/greet.ts': 'export function greet(name: string): string { return `<p>hello ${name}</p>`; }\n',
+      'src/Card.module.css': '.card { color: red; }\n',
+    });
+    try {
+      const mod = await createLoader(root).ssrLoadModule('/src/entry-server.ts');
+      assert.strictEqual(mod.title, 'Shop');
+      assert.strictEqual(mod.ssr, true);
+      assert.strictEqual(mod.joined, path.join('a', 'b'));
+      assert.match(mod.card, /^Card_card_[0-9a-f]{6}$/);
+      assert.strictEqual(mod.render(), '<p>hello server</p>');
+      assert.strictEqual(await mod.later(), '<p>hello later</p>');
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('re-evaluates a changed module and its importers after invalidate()', async () => {
+    const root = await createApp({
+      'src/page.ts': 'import { label } from "./label";\nexport const html = `<h1>${label}</h1>`;\n',
+      'src/label.ts': 'export const label = "before";\n',
+    });
+    try {
+      const loader = createLoader(root);
+      const first = await loader.ssrLoadModule('/src/page.ts');
+      assert.strictEqual(await loader.ssrLoadModule('/src/page.ts'), first);
+
+      await fs.writeFile(path.join(root, 'src/label.ts'), 'export const label = "after";\n');
+      loader.invalidate(path.join(root, 'src/label.ts'));
+      const second = await loader.ssrLoadModule('/src/page.ts');
+      assert.strictEqual(second.html, '<h1>after</h1>');
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('handles circular imports', async () => {
+    const root = await createApp({
+      'src/a.ts': 'import { b } from "./b";\nexport const a = () => "a" + b();\n',
+      'src/b.ts': 'import { a } from "./a";\nexport const b = () => "b";\nexport const callA = () => a();\n',
+    });
+    try {
+      const loader = createLoader(root);
+      const a = await loader.ssrLoadModule('/src/a.ts');
+      assert.strictEqual(a.a(), 'ab');
+      const b = await loader.ssrLoadModule('/src/b.ts');
+      assert.strictEqual(b.callA(), 'ab');
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('reports unresolved imports as the browser handlers do', async () => {
+    const root = await createApp({
+      'src/page.ts': 'export const title = "x";\nimport { missing } from "./missing.ts";\nexport const label = missing;\n',
+    });
+    try {
+      await assert.rejects(createLoader(root).ssrLoadModule('/src/page.ts'), (error: unknown) => {
+        assert(error instanceof SwiteTransformError);
+        assert.strictEqual(error.plugin, 'resolve');
+        assert.strictEqual(error.file, path.join(root, 'src', 'page.ts'));
+        assert.match(error.message, /Failed to resolve import "\.\/missing\.ts" from "\/src\/page\.ts"/);
+        assert.deepStrictEqual(error.loc, { line: 2, column: 26 });
+        return true;
+      });
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SSR - route matching', () => {
+  // Matching only looks at paths
+  const page = () => null;
+  const routes: RouteDefinition[] = [
+    { path: '/', component: page, meta: { httpUrl: '/src/pages/index.ui' } },
+    { path: '/blog/new', component: page },
+    { path: '/blog/:slug', component: page },
+    { path: '/docs/[...path]', component: page },
+  ];
+
+  it('prefers static segments and decodes params', () => {
+    assert.strictEqual(matchRoute(routes, '/')?.route.path, '/');
+    assert.strictEqual(matchRoute(routes, '/blog/new')?.route.path, '/blog/new');
+    assert.deepStrictEqual(matchRoute(routes, '/blog/hello%20world')?.params, { slug: 'hello world' });
+    assert.deepStrictEqual(matchRoute(routes, '/docs/guide/intro')?.params, { path: 'guide/intro' });
+    assert.strictEqual(matchRoute(routes, '/blog/a/b'), null);
+  });
+
+  it('matches pages nested under layouts', () => {
+    const nested: RouteDefinition[] = [{ path: '/shop', component: page, children: [{ path: ':id', component: page }] }];
+    assert.strictEqual(matchRoute(nested, '/shop/42')?.route.path, '/shop/:id');
+    assert.deepStrictEqual(matchRoute(nested, '/shop/42')?.params, { id: '42' });
+  });
+});
+
+describe('SSR - template injection', () => {
+  it('fills the outlet or the empty app root', () => {
+    assert.strictEqual(
+      injectSSR('<body><!--ssr-outlet--></body>', '<p>$&</p>'),
+      '<body><p>$&</p></body>',
+    );
+    assert.strictEqual(
+      injectSSR('<body><div id="app"></div></body>', { html: '<p>hi</p>' }),
+      '<body><div id="app"><p>hi</p></div></body>',
+    );
+    assert.match(
+      injectSSR('<head>\n  </head><div id="app"></div>', { html: '', head: '<title>Hi</title>' }),
+      /<title>Hi<\/title>\n {2}<\/head>/,
+    );
+    assert.throws(() => injectSSR('<body></body>', ''), /ssr-outlet/);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { findCdnFallbacks, loadVendoredDeps, vendorDeps } from '../src/dev-engine/deps/vendor.js';
+import { SwiteTransformError } from '../src/dev-engine/handlers/SwiteTransformError.js';
+import { CdnFallbackDisabledError } from '../src/resolution/cdn/cdn-fallback.js';
+import { ModuleResolver } from '../src/resolution/resolver.js';
+import { rewriteImports } from '../src/resolution/rewriting/import-rewriter.js';
+import { writeFile } from './helpers/fs.js';
+
+// The app lives two levels below the node_modules that has hoisted-dep, out
+// of the dev resolver's reach but not Node's
+let base: string;
+let root: string;
+
+describe('Offline mode and vendoring', () => {
+  before(async () => {
+    base = await fs.mkdtemp(path.join(os.tmpdir(), 'swite-vendor-'));
+    root = path.join(base, 'apps', 'web');
+    await writeFile(base, 'node_modules/hoisted-dep/package.json', JSON.stringify({ name: 'hoisted-dep', version: '2.1.0', main: 'index.js' }));
+    await writeFile(base, 'node_modules/hoisted-dep/index.js', 'module.exports = { hoisted: true };\n');
+    await writeFile(base, 'apps/web/package.json', JSON.stringify({ name: 'web' }));
+    await writeFile(base, 'apps/web/node_modules/local-dep/package.json', JSON.stringify({ name: 'local-dep', type: 'module', main: 'index.js' }));
+    await writeFile(base, 'apps/web/node_modules/local-dep/index.js', 'export const local = true;\n');
+    await writeFile(base, 'apps/web/src/main.ts', 'import { hoisted } from "hoisted-dep";\nimport { local } from "local-dep";\n');
+  });
+
+  after(async () => {
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('fails CDN fallbacks with an explanation when the CDN is off', async () => {
+    const resolver = new ModuleResolver(root);
+    assert.strictEqual(await resolver.resolve('hoisted-dep', '/src/main.ts'), 'https://cdn.jsdelivr.net/npm/hoisted-dep/+esm');
+
+    resolver.setCdnFallback(false);
+    await assert.rejects(resolver.resolve('hoisted-dep', '/src/main.ts'), (error: unknown) => {
+      assert(error instanceof CdnFallbackDisabledError);
+      assert.strictEqual(error.specifier, 'hoisted-dep');
+      assert.match(error.message, /hoisted-dep not found in node_modules or the workspace/);
+      assert.match(error.message, /--offline or resolve\.cdn: false/);
+      assert.match(error.message, /swite vendor/);
+      return true;
+    });
+
+    // Scopes kept off the CDN already resolve to /node_modules/
+    assert.strictEqual(await resolver.resolve('@private/missing', '/src/main.ts'), '/node_modules/@private/missing');
+    assert.strictEqual(await resolver.resolve('local-dep', '/src/main.ts'), '/node_modules/local-dep/index.js');
+
+    const explanation = await resolver.explain('hoisted-dep', '/src/main.ts');
+    assert.match(explanation.error ?? '', /CDN fallback is off/);
+    assert.deepStrictEqual(explanation.steps.at(-1), {
+      strategy: 'cdn',
+      accepted: false,
+      reason: 'hoisted-dep not found in node_modules or the workspace; CDN fallback is off (--offline or resolve.cdn: false)',
+    });
+  });
+
+  it('turns an offline CDN fallback into a module error', async () => {
+    const resolver = new ModuleResolver(root);
+    resolver.setCdnFallback(false);
+    await assert.rejects(
+      rewriteImports('import { hoisted } from "hoisted-dep";', path.join(root, 'src/main.ts'), resolver),
+      (error: unknown) => {
+        assert(error instanceof SwiteTransformError);
+        assert.strictEqual(error.plugin, 'resolve');
+        assert.strictEqual(error.file, path.join(root, 'src/main.ts'));
+        return true;
+      },
+    );
+  });
+
+  it('vendors CDN fallbacks from node_modules and serves them offline', async () => {
+    const fallbacks = await findCdnFallbacks(root, new ModuleResolver(root));
+    assert.deepStrictEqual(fallbacks, ['hoisted-dep']);
+
+    const { vendored, versions, missing } = await vendorDeps(root, [...fallbacks, 'not-installed']);
+    assert(vendored);
+    assert.deepStrictEqual(vendored.files, { 'hoisted-dep': 'hoisted-dep.js' });
+    assert.deepStrictEqual(versions, { 'hoisted-dep': '2.1.0' });
+    assert.deepStrictEqual(missing, ['not-installed']);
+    const bundle = await import(pathToFileURL(path.join(root, '.swite', 'vendor', 'hoisted-dep.js')).href);
+    assert.strictEqual(bundle.hoisted, true);
+
+    const loaded = await loadVendoredDeps(root);
+    assert.deepStrictEqual(loaded, vendored);
+    const resolver = new ModuleResolver(root);
+    resolver.setCdnFallback(false);
+    resolver.setVendoredDeps(loaded);
+    assert.strictEqual(
+      await resolver.resolve('hoisted-dep', '/src/main.ts'),
+      `/.swite/vendor/hoisted-dep.js?v=${vendored.hash}`,
+    );
+    const explanation = await resolver.explain('hoisted-dep', '/src/main.ts');
+    assert.strictEqual(explanation.steps.at(-1)?.strategy, 'vendor');
+  });
+
+  it('warns when node_modules moves past the vendored version', async () => {
+    await writeFile(base, 'node_modules/hoisted-dep/package.json', JSON.stringify({ name: 'hoisted-dep', version: '2.2.0', main: 'index.js' }));
+    const warnings: string[] = [];
+    const { warn } = console;
+    console.warn = (message: string) => warnings.push(message);
+    try {
+      assert(await loadVendoredDeps(root));
+    } finally {
+      console.warn = warn;
+    }
+    assert.strictEqual(warnings.length, 1);
+    assert.match(warnings[0], /hoisted-dep \(2\.1\.0 vendored, 2\.2\.0 installed\)/);
+  });
+});
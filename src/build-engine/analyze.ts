@@ -0,0 +1,306 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Production Builder
+ * Licensed under the MIT License.
+ */
+
+import type { Metafile } from "esbuild";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const gzip = promisify(zlib.gzip);
+
+export type PackageKind = "app" | "workspace" | "node_modules";
+
+export interface ModuleReport {
+  // Source path relative to the workspace (or app) root
+  path: string;
+  // Bytes this module adds to the chunk after minification
+  bytes: number;
+  // Compiled from a .ui/.uix file
+  component: boolean;
+  // Shortest import path from an entry point to this module, entry first
+  chain: string[];
+}
+
+export interface PackageReport {
+  name: string;
+  kind: PackageKind;
+  bytes: number;
+  modules: ModuleReport[];
+}
+
+export interface ChunkReport {
+  // Relative to the output directory
+  file: string;
+  bytes: number;
+  gzip: number;
+  brotli: number;
+  // Source entry this chunk was built for; shared chunks have none
+  entryPoint?: string;
+  packages: PackageReport[];
+}
+
+export interface BundleReport {
+  chunks: ChunkReport[];
+}
+
+export interface AnalyzeOptions {
+  // Directory esbuild resolved metafile paths against
+  absWorkingDir: string;
+  outDir: string;
+  // The app's own package; everything else outside node_modules is workspace
+  appRoot: string;
+  // Map a bundled file back to the file it was compiled from
+  toSourcePath: (file: string) => string;
+}
+
+/**
+ * Break each output chunk down by package and module using esbuild's
+ * metafile, and explain why each module is there with its import chain.
+ */
+export async function analyzeMetafile(
+  metafile: Metafile,
+  options: AnalyzeOptions,
+): Promise<BundleReport> {
+  const { absWorkingDir, outDir } = options;
+  const display = (file: string): string =>
+    path.relative(absWorkingDir, file).split(path.sep).join("/");
+  const sources = new Map<string, Promise<string>>();
+  const sourceOf = (input: string): Promise<string> => {
+    if (!sources.has(input)) {
+      const file = options.toSourcePath(path.resolve(absWorkingDir, stripNamespace(input)));
+      sources.set(input, resolveSource(file));
+    }
+    return sources.get(input)!;
+  };
+
+  const chains = findImportChains(metafile);
+  const packageOf = createPackageLookup(options.appRoot);
+
+  const chunks: ChunkReport[] = [];
+  for (const [outputPath, output] of Object.entries(metafile.outputs)) {
+    if (outputPath.endsWith(".map")) continue;
+    const file = path.resolve(absWorkingDir, outputPath);
+    const content = await fs.readFile(file);
+
+    const packages = new Map<string, PackageReport>();
+    for (const [input, { bytesInOutput }] of Object.entries(output.inputs)) {
+      if (bytesInOutput === 0) continue;
+      const source = await sourceOf(input);
+      const chain = await Promise.all((chains.get(input) ?? [input]).map(sourceOf));
+      const { name, kind } = await packageOf(source);
+      let pkg = packages.get(name);
+      if (!pkg) {
+        pkg = { name, kind, bytes: 0, modules: [] };
+        packages.set(name, pkg);
+      }
+      pkg.bytes += bytesInOutput;
+      pkg.modules.push({
+        path: display(source),
+        bytes: bytesInOutput,
+        component: /\.uix?$/.test(source),
+        chain: chain.map(display),
+      });
+    }
+
+    const sortedPackages = Array.from(packages.values()).sort((a, b) => b.bytes - a.bytes);
+    for (const pkg of sortedPackages) pkg.modules.sort((a, b) => b.bytes - a.bytes);
+
+    chunks.push({
+      file: path.relative(outDir, file).split(path.sep).join("/"),
+      bytes: content.length,
+      gzip: (await gzip(content)).length,
+      brotli: (await brotliCompress(content)).length,
+      ...(output.entryPoint && { entryPoint: display(await sourceOf(output.entryPoint)) }),
+      packages: sortedPackages,
+    });
+  }
+
+  return { chunks: chunks.sort((a, b) => b.bytes - a.bytes) };
+}
+
+/**
+ * A self-contained page showing the report as a treemap per chunk:
+ * packages, then the modules inside them, sized by output bytes.
+ */
+export function renderReportHtml(report: BundleReport): string {
+  // Keep `</script>` in module paths from closing the inline script
+  const data = JSON.stringify(report).replace(/</g, "\\u003c");
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <title>SWITE bundle analysis</title>
+    <style>
+      body { font: 13px/1.4 system-ui, sans-serif; margin: 24px; color: #222; }
+      h2 { font-size: 15px; margin: 32px 0 4px; }
+      .sizes { color: #666; margin-bottom: 8px; }
+      .map { position: relative; height: 420px; background: #eee; }
+      .node { position: absolute; box-sizing: border-box; overflow: hidden; border: 1px solid #fff; }
+      .node > span { display: block; padding: 2px 4px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; color: #fff; }
+      .node .node { border-color: rgba(255, 255, 255, 0.5); }
+      .app { background: #4f7fbf; } .workspace { background: #4f9f6f; } .node_modules { background: #c9594f; }
+      .component { background: rgba(255, 255, 255, 0.18); }
+      .legend span { display: inline-block; padding: 2px 8px; margin-right: 8px; color: #fff; }
+    </style>
+  </head>
+  <body>
+    <h1>Bundle analysis</h1>
+    <div class="legend">
+      <span class="app">app</span><span class="workspace">workspace package</span><span class="node_modules">node_modules</span>
+    </div>
+    <div id="chunks"></div>
+    <script>
+      const report = ${data};
+      const formatBytes = (n) => (n < 1024 ? n + " B" : (n / 1024).toFixed(1) + " kB");
+
+      // Split items into two groups of about equal size along the longer side
+      function layout(items, x, y, w, h, out) {
+        if (items.length === 1) out.push({ item: items[0], x, y, w, h });
+        if (items.length <= 1) return out;
+        const total = items.reduce((sum, item) => sum + item.bytes, 0);
+        let head = items[0].bytes;
+        let i = 1;
+        while (i < items.length - 1 && head + items[i].bytes <= total / 2) head += items[i++].bytes;
+        const ratio = head / total;
+        if (w >= h) {
+          layout(items.slice(0, i), x, y, w * ratio, h, out);
+          layout(items.slice(i), x + w * ratio, y, w * (1 - ratio), h, out);
+        } else {
+          layout(items.slice(0, i), x, y, w, h * ratio, out);
+          layout(items.slice(i), x, y + h * ratio, w, h * (1 - ratio), out);
+        }
+        return out;
+      }
+
+      function box(parent, rect, className, label, title) {
+        const el = document.createElement("div");
+        el.className = "node " + className;
+        Object.assign(el.style, { left: rect.x + "%", top: rect.y + "%", width: rect.w + "%", height: rect.h + "%" });
+        el.title = title;
+        const span = document.createElement("span");
+        span.textContent = label;
+        el.appendChild(span);
+        parent.appendChild(el);
+        return el;
+      }
+
+      const container = document.getElementById("chunks");
+      for (const chunk of report.chunks) {
+        const heading = document.createElement("h2");
+        heading.textContent = chunk.file + (chunk.entryPoint ? " (" + chunk.entryPoint + ")" : "");
+        const sizes = document.createElement("div");
+        sizes.className = "sizes";
+        sizes.textContent = formatBytes(chunk.bytes) + " · gzip " + formatBytes(chunk.gzip) + " · brotli " + formatBytes(chunk.brotli);
+        const map = document.createElement("div");
+        map.className = "map";
+        container.append(heading, sizes, map);
+
+        for (const pkgRect of layout(chunk.packages, 0, 0, 100, 100, [])) {
+          const pkg = pkgRect.item;
+          const pkgEl = box(map, pkgRect, pkg.kind, pkg.name + " " + formatBytes(pkg.bytes), pkg.name + " (" + pkg.kind + ")");
+          // Leave room for the package label above its modules
+          for (const modRect of layout(pkg.modules, 0, 14, 100, 86, [])) {
+            const mod = modRect.item;
+            box(
+              pkgEl,
+              modRect,
+              mod.component ? "component" : "",
+              mod.path.split("/").pop(),
+              mod.path + "\\n" + formatBytes(mod.bytes) + "\\n\\nImported via:\\n" + mod.chain.join("\\n→ "),
+            );
+          }
+        }
+      }
+    </script>
+  </body>
+</html>
+`;
+}
+
+// Breadth-first from every entry point, so each chain is a shortest one
+function findImportChains(metafile: Metafile): Map<string, string[]> {
+  const chains = new Map<string, string[]>();
+  const queue: string[] = [];
+  for (const output of Object.values(metafile.outputs)) {
+    if (output.entryPoint && !chains.has(output.entryPoint)) {
+      chains.set(output.entryPoint, [output.entryPoint]);
+      queue.push(output.entryPoint);
+    }
+  }
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const imported of metafile.inputs[current]?.imports ?? []) {
+      if (imported.external || chains.has(imported.path)) continue;
+      chains.set(imported.path, [...chains.get(current)!, imported.path]);
+      queue.push(imported.path);
+    }
+  }
+  return chains;
+}
+
+// Name and kind of the package a file belongs to, from its nearest package.json
+function createPackageLookup(
+  appRoot: string,
+): (file: string) => Promise<{ name: string; kind: PackageKind }> {
+  const names = new Map<string, string | null>();
+  const readName = async (dir: string): Promise<string | null> => {
+    if (!names.has(dir)) {
+      try {
+        const pkg = JSON.parse(await fs.readFile(path.join(dir, "package.json"), "utf-8"));
+        names.set(dir, pkg.name ?? path.basename(dir));
+      } catch {
+        names.set(dir, null);
+      }
+    }
+    return names.get(dir)!;
+  };
+
+  return async (file) => {
+    const segments = file.split(path.sep);
+    const nodeModules = segments.lastIndexOf("node_modules");
+    if (nodeModules !== -1) {
+      const name = segments[nodeModules + 1]?.startsWith("@")
+        ? segments.slice(nodeModules + 1, nodeModules + 3).join("/")
+        : segments[nodeModules + 1];
+      return { name, kind: "node_modules" };
+    }
+
+    let dir = path.dirname(file);
+    for (;;) {
+      const name = await readName(dir);
+      if (name) {
+        return { name, kind: dir === path.resolve(appRoot) ? "app" : "workspace" };
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) return { name: "(unknown)", kind: "app" };
+      dir = parent;
+    }
+  };
+}
+
+// The builder bundles .tsx compiled from .ui/.uix; map back to the original file
+export async function resolveSource(file: string): Promise<string> {
+  if (!file.endsWith(".tsx")) return file;
+  for (const ext of [".ui", ".uix"]) {
+    const original = file.replace(/\.tsx$/, ext);
+    try {
+      await fs.access(original);
+      return original;
+    } catch {
+      // not compiled from this extension
+    }
+  }
+  return file;
+}
+
+// Inputs loaded by plugins are keyed as `<namespace>:<path>`
+function stripNamespace(input: string): string {
+  const match = /^([a-z][a-z-]+):(.*)$/.exec(input);
+  return match ? match[2] : input;
+}
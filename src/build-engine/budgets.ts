@@ -0,0 +1,110 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Production Builder
+ * Licensed under the MIT License.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+import type { BudgetsConfig, SizeBudget } from "../config/config.js";
+import type { EntryOutput } from "./manifest.js";
+
+const gzip = promisify(zlib.gzip);
+
+export interface BudgetViolation {
+  // e.g. `entry src/index.ui` or `chunk about.js`
+  target: string;
+  metric: keyof SizeBudget;
+  actual: number;
+  budget: number;
+}
+
+export class BudgetExceededError extends Error {
+  readonly violations: BudgetViolation[];
+
+  constructor(violations: BudgetViolation[]) {
+    super(formatViolations(violations));
+    this.name = "BudgetExceededError";
+    this.violations = violations;
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+}
+
+/**
+ * Compare the build against the configured budgets. An entry is measured
+ * with everything it loads up front (its chunk, static imports and CSS); a
+ * chunk on its own. Budgets are looked up by name, falling back to `"*"`.
+ */
+export async function checkBudgets(
+  budgets: BudgetsConfig,
+  options: {
+    root: string;
+    outputs: Map<string, EntryOutput>;
+    // Every emitted JS and CSS file
+    chunks: string[];
+  },
+): Promise<BudgetViolation[]> {
+  const sizes = new Map<string, Promise<{ raw: number; gzip: number }>>();
+  const sizeOf = (file: string): Promise<{ raw: number; gzip: number }> => {
+    if (!sizes.has(file)) {
+      sizes.set(
+        file,
+        fs.readFile(file).then(async (content) => ({
+          raw: content.length,
+          gzip: (await gzip(content)).length,
+        })),
+      );
+    }
+    return sizes.get(file)!;
+  };
+
+  const violations: BudgetViolation[] = [];
+  const compare = async (target: string, budget: SizeBudget | undefined, files: string[]) => {
+    if (!budget) return;
+    const measured = await Promise.all(files.map(sizeOf));
+    for (const metric of ["raw", "gzip"] as const) {
+      const limit = budget[metric];
+      if (limit === undefined) continue;
+      const actual = measured.reduce((sum, size) => sum + size[metric], 0);
+      if (actual > limit) violations.push({ target, metric, actual, budget: limit });
+    }
+  };
+
+  for (const [source, output] of options.outputs) {
+    const name = path.relative(options.root, source).split(path.sep).join("/");
+    const files = new Set([output.file, ...output.imports, ...output.css]);
+    await compare(`entry ${name}`, budgets.entries?.[name] ?? budgets.entries?.["*"], [...files]);
+  }
+
+  for (const file of options.chunks) {
+    const name = chunkName(file);
+    await compare(`chunk ${name}`, budgets.chunks?.[name] ?? budgets.chunks?.["*"], [file]);
+  }
+
+  return violations;
+}
+
+// `about-7KQ2M4XZ.js` → `about.js`, so budgets survive content changes
+export function chunkName(file: string): string {
+  return path.basename(file).replace(/-[A-Z0-9]{8}(?=\.[^.]+$)/, "");
+}
+
+function formatViolations(violations: BudgetViolation[]): string {
+  const width = Math.max(...violations.map((violation) => violation.target.length));
+  const lines = violations.map(({ target, metric, actual, budget }) => {
+    const over = actual - budget;
+    const percent = ((over / budget) * 100).toFixed(1);
+    return (
+      `  ${target.padEnd(width)}  ${metric.padEnd(4)}  ` +
+      `${formatSize(actual)} > ${formatSize(budget)}  (+${formatSize(over)}, +${percent}%)`
+    );
+  });
+  const count = violations.length === 1 ? "1 size budget" : `${violations.length} size budgets`;
+  return `${count} exceeded:\n${lines.join("\n")}`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(2)} KB`;
+}
@@ -7,27 +7,87 @@
 import { build as esbuild, type Plugin } from "esbuild";
 import type { BuildOptions } from "esbuild";
 import { UiCompiler } from "@swissjs/compiler";
+import { RouteScanner } from "@swissjs/plugin-file-router/core";
+import type { RouteDefinition } from "@swissjs/core";
 import { promises as fs } from "node:fs";
+import { builtinModules } from "node:module";
 import path from "node:path";
 import chalk from "chalk";
 import { ModuleResolver } from "../resolution/resolver.js";
+import {
+  BUILD_CONDITIONS,
+  resolvePackageExports,
+  resolvePackageImports,
+} from "../resolution/package-exports.js";
+import { loadPathAliases, resolvePathAlias } from "../resolution/path-aliases.js";
+import { getCssModuleId, scopeCssModule } from "../internal/css/css-modules.js";
+import { expandRoutePath, flattenRoutes, isDynamicRoute } from "../internal/routes/route-matcher.js";
+import { createRouteTable, ROUTE_TABLE_PATH } from "../internal/routes/route-table.js";
+import {
+  modulePreloadTag,
+  outputHeadTags,
+  parseHtmlEntry,
+  renderHtmlEntry,
+  scriptTag,
+  stylesheetTag,
+  type HtmlAssetRef,
+  type HtmlEntry,
+} from "./html-entry.js";
+import { createManifest, getEntryOutputs, type EntryOutput } from "./manifest.js";
+import { analyzeMetafile, renderReportHtml, type BundleReport } from "./analyze.js";
+import { BudgetExceededError, checkBudgets } from "./budgets.js";
+import type { BudgetsConfig } from "../config/config.js";
+import { PluginContainer, type SwitePlugin } from "../internal/plugins/plugin-container.js";
+import { createPluginBridge } from "./plugin-bridge.js";
 
 export interface BuildConfig {
   root: string;
+  // Used when the HTML entry has no module script of its own
   entry: string;
   outDir: string;
   publicDir?: string;
+  // HTML entry; defaults to <publicDir>/index.html
+  html?: string;
   minify?: boolean;
   sourcemap?: boolean;
   format?: "esm" | "cjs" | "iife";
+  // "browser" (default) bundles for the page; "node" keeps Node built-ins external
+  platform?: "browser" | "node";
   target?: string;
   external?: string[];
+  // Identifiers replaced with JavaScript expressions at build time
+  define?: Record<string, string>;
+  // Write a bundle analysis report to .swite/analyze.{html,json}
+  analyze?: boolean;
+  // Size limits checked after bundling; exceeding one fails the build
+  budgets?: BudgetsConfig;
+  // Render each file-router page to <outDir>/<route>/index.html
+  prerender?: boolean;
+  // package.json exports/imports conditions; defaults to BUILD_CONDITIONS
+  conditions?: string[];
+  // Import aliases besides tsconfig paths (see ResolveConfig)
+  alias?: Record<string, string>;
+  // Same plugins as the dev server; those with apply: "serve" are skipped
+  plugins?: SwitePlugin[];
+}
+
+// Files referenced from CSS (`url()`) are emitted next to the bundle
+const ASSET_EXTENSIONS = [
+  ".png", ".jpg", ".jpeg", ".gif", ".svg", ".webp", ".avif", ".ico",
+  ".woff", ".woff2", ".ttf", ".otf", ".eot",
+];
+
+// A script or stylesheet to build, and the HTML tag that referenced it
+interface BuildEntry {
+  source: string;
+  ref: HtmlAssetRef | null;
 }
 
 export class SwiteBuilder {
   private compiler = new UiCompiler();
   private config: Required<BuildConfig>;
   private resolver: ModuleResolver;
+  private plugins: PluginContainer;
 
   constructor(config: BuildConfig) {
     this.config = {
@@ -35,13 +95,23 @@ export class SwiteBuilder {
       entry: config.entry,
       outDir: config.outDir,
       publicDir: config.publicDir || "public",
+      html: config.html || "",
       minify: config.minify ?? true,
       sourcemap: config.sourcemap ?? false,
       format: config.format || "esm",
+      platform: config.platform || "browser",
       target: config.target || "es2020",
       external: config.external || [],
+      define: config.define || {},
+      analyze: config.analyze ?? false,
+      budgets: config.budgets || {},
+      prerender: config.prerender ?? false,
+      conditions: config.conditions || BUILD_CONDITIONS,
+      alias: config.alias || {},
+      plugins: config.plugins || [],
     };
-    this.resolver = new ModuleResolver(config.root);
+    this.resolver = new ModuleResolver(config.root, this.config.conditions);
+    this.plugins = new PluginContainer(this.config.plugins, "build");
   }
 
   async build(): Promise<void> {
@@ -50,21 +120,105 @@ export class SwiteBuilder {
 
     const tempDir = path.join(this.config.root, ".swite-build");
     try {
+      const html = await this.loadHtmlEntry();
+      const entries = await this.collectEntries(html);
       await this.cleanOutputDir();
       await this.compileSwissFiles(tempDir);
-      await this.bundle(tempDir);
+      const routes = await this.collectRoutes();
+      const outputs = await this.bundle(tempDir, entries, routes);
+      await this.checkBudgets(outputs);
       await this.copyPublicAssets();
+      await this.writeHtml(html, entries, routes, outputs);
+      await this.writeManifest(outputs, routes);
+      if (routes.length > 0) {
+        await this.writeRouteTable(outputs);
+      }
+      if (this.config.prerender) {
+        await this.prerenderRoutes(outputs);
+      }
 
       const duration = Date.now() - startTime;
       console.log(chalk.green(`\n✅ Build completed in ${duration}ms\n`));
     } catch (error) {
-      console.error(chalk.red("\n❌ Build failed:"), error);
+      console.error(
+        chalk.red("\n❌ Build failed:"),
+        error instanceof BudgetExceededError ? error.message : error,
+      );
       throw error;
     } finally {
       await fs.rm(tempDir, { recursive: true, force: true });
     }
   }
 
+  private async loadHtmlEntry(): Promise<{ path: string; source: string; entry: HtmlEntry } | null> {
+    const htmlPath =
+      this.config.html || path.join(this.config.root, this.config.publicDir, "index.html");
+    if (!(await this.fileExists(htmlPath))) {
+      if (this.config.html) {
+        throw new Error(`HTML entry not found: ${htmlPath}`);
+      }
+      return null;
+    }
+    const source = await fs.readFile(htmlPath, "utf-8");
+    return { path: htmlPath, source, entry: parseHtmlEntry(source) };
+  }
+
+  /**
+   * The HTML entry's module scripts and stylesheets, or the configured
+   * `entry` when the page has no module script (or there is no page).
+   */
+  private async collectEntries(
+    html: { path: string; entry: HtmlEntry } | null,
+  ): Promise<BuildEntry[]> {
+    const entries: BuildEntry[] = [];
+    if (html) {
+      for (const ref of [...html.entry.scripts, ...html.entry.stylesheets]) {
+        const source = await this.resolveHtmlUrl(ref.url, html.path);
+        if (source) entries.push({ source, ref });
+      }
+    }
+    if (!entries.some((entry) => !entry.source.endsWith(".css"))) {
+      entries.push({ source: this.config.entry, ref: null });
+    }
+    return entries;
+  }
+
+  // Source file for a URL in the HTML entry; null for files in public/,
+  // which are copied as they are
+  private async resolveHtmlUrl(url: string, htmlPath: string): Promise<string | null> {
+    const publicPath = path.join(this.config.root, this.config.publicDir);
+    if (url.startsWith("/")) {
+      if (await this.fileExists(path.join(publicPath, url))) return null;
+      const source = path.join(this.config.root, url);
+      if (!(await this.fileExists(source))) {
+        throw new Error(`${url} referenced from ${htmlPath} not found`);
+      }
+      return source;
+    }
+
+    const source = path.resolve(path.dirname(htmlPath), url);
+    if (!path.relative(publicPath, source).startsWith("..")) return null;
+    if (!(await this.fileExists(source))) {
+      throw new Error(`${url} referenced from ${htmlPath} not found`);
+    }
+    return source;
+  }
+
+  /**
+   * Page components under src/pages. The file router loads them lazily, so
+   * each one is built as its own entry to get a chunk per route.
+   */
+  private async collectRoutes(): Promise<string[]> {
+    const routes = await this.findSwissFiles(path.join(this.config.root, "src", "pages"));
+    if (routes.length > 0 && this.config.format !== "esm") {
+      console.warn(
+        chalk.yellow(`⚠️  Route chunks need ESM output; ${this.config.format} bundles every route into the entry`),
+      );
+      return [];
+    }
+    return routes;
+  }
+
   private async cleanOutputDir(): Promise<void> {
     console.log(chalk.blue("🧹 Cleaning output directory..."));
     await fs.rm(this.config.outDir, { recursive: true, force: true });
@@ -163,8 +317,11 @@ export class SwiteBuilder {
     }
 
     // Copy .css and other static assets so imports resolve
-    const cssFiles = await this.findFiles(srcDir, /\.css$/);
-    for (const file of cssFiles) {
+    const assetPattern = new RegExp(
+      `\\.(css|${ASSET_EXTENSIONS.map((ext) => ext.slice(1)).join("|")})$`,
+    );
+    const assetFiles = await this.findFiles(srcDir, assetPattern);
+    for (const file of assetFiles) {
       const relativePath = path.relative(srcDir, file);
       const outputPath = path.join(tempDir, relativePath);
       await fs.mkdir(path.dirname(outputPath), { recursive: true });
@@ -331,7 +488,16 @@ export class SwiteBuilder {
     return deps;
   }
 
-  private async bundle(tempDir: string): Promise<void> {
+  /**
+   * Bundle every entry and route and report, per source file, the output
+   * file, the CSS esbuild collected for it and the chunks it imports
+   * statically.
+   */
+  private async bundle(
+    tempDir: string,
+    entries: BuildEntry[],
+    routes: string[],
+  ): Promise<Map<string, EntryOutput>> {
     console.log(chalk.blue("📦 Bundling with esbuild..."));
 
     const workspaceRoot = await this.findWorkspaceRoot(this.config.root);
@@ -339,43 +505,40 @@ export class SwiteBuilder {
       ? path.relative(workspaceRoot, this.config.root)
       : "";
 
-    // Determine entry point - look for compiled version in temp
-    // const entryBasename = path.basename(this.config.entry, path.extname(this.config.entry)); // Unused
-    const entryExt = path.extname(this.config.entry);
-
-    let entryPoint: string;
-    // Entry point is always relative to src directory
-    const entryRelativeToSrc = path.relative(
-      path.join(this.config.root, "src"),
-      this.config.entry,
-    );
-
-    if (entryExt === ".ui" || entryExt === ".uix") {
-      // Entry was a Swiss file, use compiled .tsx version
-      const entryTsx = entryRelativeToSrc.replace(/\.(ui|uix)$/, ".tsx");
-      entryPoint = appRelativeToWorkspace
-        ? path.join(tempDir, appRelativeToWorkspace, "src", entryTsx)
-        : path.join(tempDir, "src", entryTsx);
-    } else {
-      // Entry is .ts or .js, use from temp
-      entryPoint = appRelativeToWorkspace
-        ? path.join(tempDir, appRelativeToWorkspace, "src", entryRelativeToSrc)
-        : path.join(tempDir, "src", entryRelativeToSrc);
-    }
+    // Map each entry to the file esbuild reads: Swiss files under src/ were
+    // compiled to .tsx in temp; stylesheets outside src/ are read in place
+    const entryPoints = new Map<string, string>();
+    const srcDir = path.join(this.config.root, "src");
+    for (const source of [...entries.map((entry) => entry.source), ...routes]) {
+      const entryRelativeToSrc = path.relative(srcDir, source);
+      let entryPoint: string;
+      if (entryRelativeToSrc.startsWith("..") || path.isAbsolute(entryRelativeToSrc)) {
+        if (!source.endsWith(".css")) {
+          throw new Error(`Entry must be inside ${srcDir}: ${source}`);
+        }
+        entryPoint = source;
+      } else {
+        const compiled = entryRelativeToSrc.replace(/\.(ui|uix)$/, ".tsx");
+        entryPoint = appRelativeToWorkspace
+          ? path.join(tempDir, appRelativeToWorkspace, "src", compiled)
+          : path.join(tempDir, "src", compiled);
+      }
 
-    // Verify entry point exists
-    if (!(await this.fileExists(entryPoint))) {
-      throw new Error(
-        `Entry point not found: ${entryPoint} (from ${this.config.entry})`,
-      );
+      // Verify entry point exists
+      if (!(await this.fileExists(entryPoint))) {
+        throw new Error(`Entry point not found: ${entryPoint} (from ${source})`);
+      }
+      entryPoints.set(path.resolve(entryPoint), source);
     }
 
     // Configure esbuild to resolve workspace packages from temp directory
     const absWorkingDir = workspaceRoot || this.config.root;
+    const browser = this.config.platform === "browser";
     // const aliases = workspaceRoot ? await this.createAliases(workspaceRoot, tempDir) : {}; // Unused
 
-    // Mark Node.js built-ins as external; user-facing framework packages are
-    // resolved at runtime — do not hardcode package scopes here
+    // For node builds, mark Node.js built-ins as external; user-facing
+    // framework packages are resolved at runtime — do not hardcode package
+    // scopes here
     const nodeBuiltins = [
       "fs",
       "path",
@@ -415,6 +578,46 @@ export class SwiteBuilder {
       "node:fs/promises",
     ];
 
+    const sourceRoot = workspaceRoot || this.config.root;
+    // Map a file in the temp directory back to the file it was compiled from
+    const toSourcePath = (file: string): string => {
+      const relativeToTemp = path.relative(tempDir, file);
+      return relativeToTemp.startsWith("..") ? file : path.join(sourceRoot, relativeToTemp);
+    };
+
+    // Browser bundles can't contain Node built-ins. Packages may map them away
+    // with their `browser` field, so only app code is checked; a polyfill
+    // installed under the built-in's name (e.g. `events`) is fine.
+    const nodeBuiltinCheck = Symbol("node-builtin-check");
+    const nodeBuiltinsPlugin: Plugin = {
+      name: "node-builtins",
+      setup(build) {
+        build.onResolve({ filter: /^[\w:]/ }, async (args) => {
+          if (args.pluginData === nodeBuiltinCheck) return undefined;
+          const isBuiltin = args.path.startsWith("node:") || builtinModules.includes(args.path);
+          if (!isBuiltin || args.importer.includes(`${path.sep}node_modules${path.sep}`)) {
+            return undefined;
+          }
+          if (!args.path.startsWith("node:")) {
+            const resolved = await build.resolve(args.path, {
+              kind: args.kind,
+              importer: args.importer,
+              resolveDir: args.resolveDir,
+              pluginData: nodeBuiltinCheck,
+            });
+            if (resolved.errors.length === 0) return resolved;
+          }
+          return {
+            errors: [
+              {
+                text: `${toSourcePath(args.importer)} imports the Node.js built-in "${args.path}", which is not available in the browser`,
+              },
+            ],
+          };
+        });
+      },
+    };
+
     // Resolve relative .js imports to .tsx when UiCompiler rewrites .ui→.js but emits .tsx files
     const jsTsxFallbackPlugin: Plugin = {
       name: "js-tsx-fallback",
@@ -433,13 +636,71 @@ export class SwiteBuilder {
       },
     };
 
-    // Stub .css imports so they resolve (build output may copy CSS separately)
-    const cssStubPlugin: Plugin = {
-      name: "css-stub",
+    // Absolute url() references in CSS point at files served from public/
+    const cssPublicUrlPlugin: Plugin = {
+      name: "css-public-url",
+      setup(build) {
+        build.onResolve({ filter: /^\// }, (args) =>
+          args.kind === "url-token" || args.kind === "import-rule"
+            ? { path: args.path, external: true }
+            : undefined,
+        );
+      },
+    };
+
+    // tsconfig `paths`/`baseUrl` and resolve.alias point at app sources; use
+    // their compiled copies in the temp directory where there are any
+    const pathAliases = await loadPathAliases(this.config.root, this.config.alias);
+    const pathAliasPlugin: Plugin = {
+      name: "path-alias",
       setup(build) {
-        build.onLoad({ filter: /\.css$/ }, () => ({
-          contents: "export {};",
-          loader: "js",
+        build.onResolve({ filter: /^[^./]/ }, async (args) => {
+          if (args.importer.includes(`${path.sep}node_modules${path.sep}`)) return undefined;
+          const file = await resolvePathAlias(pathAliases, args.path);
+          if (!file) return undefined;
+
+          const relativeToSource = path.relative(sourceRoot, file);
+          if (!relativeToSource.startsWith("..")) {
+            const compiled = path.join(tempDir, relativeToSource.replace(/\.(ui|uix)$/, ".tsx"));
+            try {
+              await fs.access(compiled);
+              return { path: compiled };
+            } catch {
+              // not compiled (outside src/); read it in place
+            }
+          }
+          return { path: file };
+        });
+      },
+    };
+
+    // Scope *.module.css with the same naming as the dev server. The JS side
+    // exports the class map; the scoped CSS is a virtual module it imports.
+    const scopedCss = new Map<string, string>();
+    const cssModulesPlugin: Plugin = {
+      name: "css-modules",
+      setup(build) {
+        build.onLoad({ filter: /\.module\.css$/, namespace: "file" }, async (args) => {
+          // Name from the original file, not its copy in the temp directory
+          const source = await fs.readFile(args.path, "utf-8");
+          const { css, exports } = scopeCssModule(
+            source,
+            await getCssModuleId(toSourcePath(args.path)),
+          );
+          scopedCss.set(args.path, css);
+          return {
+            contents: `import ${JSON.stringify(args.path)};\nexport default ${JSON.stringify(exports)};\n`,
+            loader: "js",
+            resolveDir: path.dirname(args.path),
+          };
+        });
+        build.onResolve({ filter: /\.module\.css$/ }, (args) =>
+          scopedCss.has(args.path) ? { path: args.path, namespace: "css-module" } : undefined,
+        );
+        build.onLoad({ filter: /.*/, namespace: "css-module" }, (args) => ({
+          contents: scopedCss.get(args.path),
+          loader: "css",
+          resolveDir: path.dirname(args.path),
         }));
       },
     };
@@ -451,6 +712,7 @@ export class SwiteBuilder {
     const appRoot = this.config.root;
     const wsRoot = await findWorkspaceRoot(appRoot);
     const tempDirForPlugin = tempDir; // Capture tempDir for plugin
+    const conditions = this.config.conditions;
 
     // Helper function to safely join paths - filters out invalid values
     const safePathJoin = (
@@ -467,9 +729,63 @@ export class SwiteBuilder {
       }
     };
 
+    // Map an exports/imports target (`./src/button.ui`) to its compiled copy in
+    // the temp directory, or to the package's own file when it isn't compiled
+    const toCompiledPath = async (
+      pkgDir: string,
+      pkgRelativeToWorkspace: string,
+      target: string,
+    ): Promise<string | null> => {
+      const compiled = safePathJoin(
+        tempDirForPlugin,
+        pkgRelativeToWorkspace || undefined,
+        target.replace(/\.(ui|uix)$/, ".tsx"),
+      );
+      if (compiled && (await fileExists(compiled))) return compiled;
+      const source = path.join(pkgDir, target);
+      return (await fileExists(source)) ? source : null;
+    };
+
     const workspaceResolverPlugin: Plugin = {
       name: "workspace-resolver",
       setup(build) {
+        // Package-internal imports (#internal/*) in compiled files: esbuild
+        // can't find their package.json from the temp directory
+        build.onResolve({ filter: /^#/ }, async (args) => {
+          if (!args.importer || path.relative(tempDirForPlugin, args.importer).startsWith("..")) {
+            return undefined;
+          }
+          let pkgDir = path.dirname(toSourcePath(args.importer));
+          while (!(await fileExists(path.join(pkgDir, "package.json")))) {
+            const parent = path.dirname(pkgDir);
+            if (parent === pkgDir) return undefined;
+            pkgDir = parent;
+          }
+
+          const pkgJsonPath = path.join(pkgDir, "package.json");
+          const pkgJson = JSON.parse(await fs.readFile(pkgJsonPath, "utf-8"));
+          const target = resolvePackageImports(pkgJson.imports, args.path, conditions);
+          if (!target) {
+            return { errors: [{ text: `${args.path} is not defined in "imports" of ${pkgJsonPath}` }] };
+          }
+          if (!target.startsWith("./")) {
+            // A dependency: resolve it like an import written in the file
+            const result = await build.resolve(target, {
+              kind: args.kind,
+              importer: args.importer,
+              resolveDir: args.resolveDir,
+            });
+            return result.errors.length > 0
+              ? { errors: result.errors }
+              : { path: result.path, external: result.external, namespace: result.namespace };
+          }
+
+          const resolved = await toCompiledPath(pkgDir, path.relative(sourceRoot, pkgDir), target);
+          return resolved
+            ? { path: resolved }
+            : { errors: [{ text: `${args.path} maps to ${target}, which doesn't exist in ${pkgDir}` }] };
+        });
+
         // Resolve workspace packages
         build.onResolve({ filter: /^@/ }, async (args) => {
           // Early return if tempDirForPlugin is invalid
@@ -481,8 +797,9 @@ export class SwiteBuilder {
             return undefined;
           }
           // Check if this is a workspace package (from dependencies or try to find it)
-          let matchingDep = workspaceDeps.find((d: { name: string }) =>
-            args.path.startsWith(d.name),
+          let matchingDep = workspaceDeps.find(
+            (d: { name: string }) =>
+              args.path === d.name || args.path.startsWith(`${d.name}/`),
           );
 
           // If not in dependencies, try to find it in workspace
@@ -555,117 +872,44 @@ export class SwiteBuilder {
                 depRelativeToWorkspace = "";
               }
 
-              // Extract subpath (e.g., "@alpine/skltn/shell" -> "shell")
-              const subPath = args.path.replace(matchingDep.name + "/", "");
+              // Subpath as exports spells it (e.g., "@alpine/skltn/shell" -> "./shell")
+              const subpath =
+                args.path === matchingDep.name
+                  ? "."
+                  : `./${args.path.slice(matchingDep.name.length + 1)}`;
 
               // Log for debugging
               console.log(
-                `[SWITE] Resolving ${args.path} -> subPath: ${subPath} from ${matchingDep.name} (${depRelativeToWorkspace || "root"})`,
+                `[SWITE] Resolving ${args.path} -> subpath: ${subpath} from ${matchingDep.name} (${depRelativeToWorkspace || "root"})`,
               );
 
-              // Try to resolve the subpath
+              // Resolve the subpath through package.json exports, as the dev server does
               let resolvedPath: string | null = null;
-              if (subPath) {
-                // Check package.json exports
-                if (
-                  !matchingDep.pkgDir ||
-                  typeof matchingDep.pkgDir !== "string"
-                ) {
-                  return undefined;
-                }
-                const pkgJsonPath = safePathJoin(
-                  matchingDep.pkgDir,
-                  "package.json",
-                );
-                if (!pkgJsonPath) {
-                  return undefined;
-                }
-                if (await fileExists(pkgJsonPath)) {
-                  try {
-                    const pkgJson = JSON.parse(
-                      await fs.readFile(pkgJsonPath, "utf-8"),
-                    );
-                    if (pkgJson.exports) {
-                      const exportKey = `./${subPath}`;
-                      let exportValue = pkgJson.exports[exportKey];
-
-                      // Try directory-based matching
-                      if (!exportValue && subPath.includes("/")) {
-                        const dirPath = subPath.split("/")[0];
-                        exportValue = pkgJson.exports[`./${dirPath}`];
-                      }
-
-                      if (exportValue) {
-                        const exportPath =
-                          typeof exportValue === "string"
-                            ? exportValue
-                            : exportValue.import || exportValue.default;
-
-                        if (exportPath && typeof exportPath === "string") {
-                          // Convert export path to compiled path
-                          const srcRelative = exportPath.replace(
-                            /^\.\/src\//,
-                            "",
-                          );
-                          const compiledPath = srcRelative.replace(
-                            /\.(ui|uix)$/,
-                            ".tsx",
-                          );
-
-                          // Validate compiledPath is a valid string
-                          if (
-                            !compiledPath ||
-                            typeof compiledPath !== "string" ||
-                            compiledPath.length === 0
-                          ) {
-                            return undefined;
-                          }
-
-                          const parts: string[] = [];
-                          // Validate tempDirForPlugin is a valid string
-                          if (
-                            tempDirForPlugin &&
-                            typeof tempDirForPlugin === "string" &&
-                            tempDirForPlugin.length > 0
-                          ) {
-                            parts.push(tempDirForPlugin);
-                          } else {
-                            // Skip this resolution if tempDir is invalid
-                            return undefined;
-                          }
-                          if (
-                            depRelativeToWorkspace &&
-                            typeof depRelativeToWorkspace === "string" &&
-                            depRelativeToWorkspace.length > 0
-                          ) {
-                            parts.push(depRelativeToWorkspace);
-                          }
-                          // Validate compiledPath before adding
-                          if (
-                            compiledPath &&
-                            typeof compiledPath === "string" &&
-                            compiledPath.length > 0
-                          ) {
-                            const joined = safePathJoin(
-                              tempDirForPlugin,
-                              depRelativeToWorkspace || undefined,
-                              "src",
-                              compiledPath,
-                            );
-                            if (joined) {
-                              resolvedPath = joined;
-                            }
-                          }
-                        }
-                      }
+              const pkgJsonPath = safePathJoin(matchingDep.pkgDir, "package.json");
+              if (pkgJsonPath && (await fileExists(pkgJsonPath))) {
+                try {
+                  const pkgJson = JSON.parse(
+                    await fs.readFile(pkgJsonPath, "utf-8"),
+                  );
+                  if (pkgJson.exports) {
+                    const exportPath = resolvePackageExports(pkgJson.exports, subpath, conditions);
+                    if (!exportPath) {
+                      return {
+                        errors: [{ text: `${args.path} is not exported by ${matchingDep.name} (conditions: ${conditions.join(", ")})` }],
+                      };
                     }
-                  } catch (err) {
-                    // Fallback to index
-                    console.warn(
-                      `[SWITE] Error reading exports for ${matchingDep.name}:`,
-                      err,
+                    resolvedPath = await toCompiledPath(
+                      matchingDep.pkgDir,
+                      depRelativeToWorkspace,
+                      exportPath,
                     );
                   }
+                } catch (err) {
+                  // Fallback to index
+                  console.warn(
+                    `[SWITE] Error reading exports for ${matchingDep.name}:`,
+                    err,
+                  );
                 }
               }
 
@@ -762,40 +1006,268 @@ export class SwiteBuilder {
     };
 
     const buildOptions: BuildOptions = {
-      entryPoints: [entryPoint],
+      entryPoints: Array.from(entryPoints.keys()),
       bundle: true,
       outdir: this.config.outDir,
+      // Content-hashed names so everything can be cached long-term
+      entryNames: "[name]-[hash]",
+      chunkNames: "[name]-[hash]",
       format: this.config.format,
       target: this.config.target,
+      define: this.config.define,
       minify: this.config.minify,
       sourcemap: this.config.sourcemap,
-      external: [...this.config.external, ...nodeBuiltins],
-      platform: "node", // Keep as node for now - browser apps will need different strategy
+      external: browser ? this.config.external : [...this.config.external, ...nodeBuiltins],
+      platform: this.config.platform,
+      // Prefer packages' browser builds: the `browser` field first, and the
+      // configured export conditions (browser, import, ...) even for require() calls
+      ...(browser && {
+        mainFields: ["browser", "module", "main"],
+        conditions: [...this.config.conditions],
+      }),
+      // Shared code and each lazily imported route get their own chunks
       splitting: this.config.format === "esm",
       metafile: true,
       logLevel: "info",
       absWorkingDir, // Help esbuild resolve modules from workspace root
-      plugins: [jsTsxFallbackPlugin, cssStubPlugin, workspaceResolverPlugin],
+      loader: Object.fromEntries(ASSET_EXTENSIONS.map((ext) => [ext, "file" as const])),
+      assetNames: "assets/[name]-[hash]",
+      plugins: [
+        // User plugins get first say on resolving and loading
+        ...(this.plugins.plugins.length > 0
+          ? [createPluginBridge(this.plugins, { root: this.config.root, toSourcePath })]
+          : []),
+        ...(browser ? [nodeBuiltinsPlugin] : []),
+        jsTsxFallbackPlugin,
+        cssModulesPlugin,
+        cssPublicUrlPlugin,
+        pathAliasPlugin,
+        workspaceResolverPlugin,
+      ],
     };
 
-    // Add aliases via plugins if esbuild version supports it
-    // For now, we'll rely on the compiled files being in the right structure
-
     const result = await esbuild(buildOptions);
+    if (this.config.analyze && result.metafile) {
+      const report = await analyzeMetafile(result.metafile, {
+        absWorkingDir,
+        outDir: this.config.outDir,
+        appRoot: this.config.root,
+        toSourcePath,
+      });
+      await this.writeAnalysis(report);
+    }
+
+    const resolveOutput = (output: string): string =>
+      path.isAbsolute(output) ? output : path.join(absWorkingDir, output);
+    const entryOutputs = result.metafile
+      ? getEntryOutputs(result.metafile, entryPoints, absWorkingDir)
+      : new Map<string, EntryOutput>();
 
     // Log bundle stats (metafile paths can be relative to absWorkingDir)
     if (result.metafile) {
       const outputs = Object.keys(result.metafile.outputs);
       console.log(chalk.green(`\n  Generated ${outputs.length} file(s):`));
       for (const output of outputs) {
-        const resolvedPath = path.isAbsolute(output)
-          ? output
-          : path.join(absWorkingDir, output);
+        const resolvedPath = resolveOutput(output);
         const stats = await fs.stat(resolvedPath);
         const size = this.formatBytes(stats.size);
         console.log(chalk.gray(`    ${path.basename(output)}: ${size}`));
       }
     }
+
+    return entryOutputs;
+  }
+
+  /**
+   * Write the HTML entry to the output with its scripts and stylesheets
+   * pointing at the hashed bundles, plus CSS links (routes' too) and
+   * modulepreload hints for each script.
+   */
+  private async writeHtml(
+    html: { path: string; source: string; entry: HtmlEntry } | null,
+    entries: BuildEntry[],
+    routes: string[],
+    outputs: Map<string, EntryOutput>,
+  ): Promise<void> {
+    if (!html) {
+      console.warn(chalk.yellow("⚠️  No HTML entry found; bundles are not linked from any page"));
+      return;
+    }
+
+    const replacements = new Map<string, string>();
+    const headTags = new Set<string>();
+    const scripts: EntryOutput[] = [];
+
+    for (const { source, ref } of entries) {
+      const output = outputs.get(source);
+      if (!output) {
+        throw new Error(`No build output for entry ${source}`);
+      }
+      if (output.file.endsWith(".css")) {
+        if (ref) replacements.set(ref.tag, stylesheetTag(this.toOutputUrl(output.file)));
+        continue;
+      }
+      const tag = scriptTag(this.toOutputUrl(output.file));
+      if (ref) {
+        replacements.set(ref.tag, tag);
+      } else {
+        headTags.add(tag);
+      }
+      scripts.push(output);
+    }
+    const routeOutputs = routes.flatMap((route) => outputs.get(route) ?? []);
+    for (const tag of outputHeadTags(scripts, routeOutputs, (file) => this.toOutputUrl(file))) {
+      headTags.add(tag);
+    }
+
+    // The HMR client only exists on the dev server
+    for (const tag of html.entry.devOnly) replacements.set(tag, "");
+
+    const publicPath = path.join(this.config.root, this.config.publicDir);
+    const relativeToPublic = path.relative(publicPath, html.path);
+    const outPath = relativeToPublic.startsWith("..")
+      ? path.join(this.config.outDir, path.basename(html.path))
+      : path.join(this.config.outDir, relativeToPublic);
+
+    const page = await this.plugins.transformIndexHtml(
+      renderHtmlEntry(html.source, replacements, Array.from(headTags)),
+      { path: `/${path.relative(this.config.outDir, outPath).split(path.sep).join("/")}`, mode: "build" },
+    );
+    await fs.mkdir(path.dirname(outPath), { recursive: true });
+    await fs.writeFile(outPath, page, "utf-8");
+    console.log(chalk.gray(`  ✓ ${path.relative(this.config.outDir, outPath)}`));
+  }
+
+  private async checkBudgets(outputs: Map<string, EntryOutput>): Promise<void> {
+    const { entries, chunks } = this.config.budgets;
+    if (!entries && !chunks) return;
+
+    // Runs before public/ is copied, so only bundler output is measured
+    const violations = await checkBudgets(this.config.budgets, {
+      root: this.config.root,
+      outputs,
+      chunks: await this.findFiles(this.config.outDir, /\.(js|css)$/),
+    });
+    if (violations.length > 0) {
+      throw new BudgetExceededError(violations);
+    }
+    console.log(chalk.green("  ✓ Size budgets met"));
+  }
+
+  /**
+   * Render every file-router page with the built app. Dynamic routes are
+   * rendered once per entry their module's `getStaticParams` export lists.
+   */
+  private async prerenderRoutes(outputs: Map<string, EntryOutput>): Promise<void> {
+    console.log(chalk.blue("\n🖨️  Prerendering routes..."));
+
+    const shellPath = path.join(this.config.outDir, "index.html");
+    if (!(await this.fileExists(shellPath))) {
+      throw new Error(`Prerendering needs an HTML entry, but ${shellPath} was not written`);
+    }
+    const shell = await fs.readFile(shellPath, "utf-8");
+
+    const routes = flattenRoutes(await this.scanRoutes());
+
+    // happy-dom is only loaded when prerendering
+    const { Prerenderer, pageOutputPath } = await import(
+      "./prerender.js"
+    );
+    const prerenderer = new Prerenderer(this.config.outDir);
+    let count = 0;
+    try {
+      for (const route of routes) {
+        if (route.path.includes("*")) continue;
+
+        // meta.httpUrl is the page's dev server URL, i.e. relative to root
+        const httpUrl: string | undefined = route.meta?.httpUrl;
+        const output = httpUrl ? outputs.get(path.join(this.config.root, httpUrl)) : undefined;
+
+        let urlPaths = [route.path];
+        if (isDynamicRoute(route.path)) {
+          const params = output
+            ? await prerenderer.loadStaticParams(this.toOutputUrl(output.file))
+            : null;
+          if (!params) {
+            console.warn(
+              chalk.yellow(`  ⚠ Skipping ${route.path}: export getStaticParams from its page to prerender it`),
+            );
+            continue;
+          }
+          urlPaths = params.map((params) => expandRoutePath(route.path, params));
+        }
+
+        // Start loading the page's own chunk and CSS with the entry
+        const hints = output
+          ? [
+              ...output.css.map((css) => stylesheetTag(this.toOutputUrl(css))),
+              ...[output.file, ...output.imports].map((chunk) => modulePreloadTag(this.toOutputUrl(chunk))),
+            ].filter((tag) => !shell.includes(tag))
+          : [];
+        const html = renderHtmlEntry(shell, new Map(), hints);
+
+        for (const urlPath of urlPaths) {
+          const outPath = pageOutputPath(this.config.outDir, urlPath);
+          await fs.mkdir(path.dirname(outPath), { recursive: true });
+          await fs.writeFile(outPath, await prerenderer.render(urlPath, html), "utf-8");
+          console.log(chalk.gray(`  ✓ ${urlPath} → ${path.relative(this.config.outDir, outPath)}`));
+          count++;
+        }
+      }
+    } finally {
+      await prerenderer.close();
+    }
+    console.log(chalk.green(`  Prerendered ${count} page(s)`));
+  }
+
+  private async scanRoutes(): Promise<RouteDefinition[]> {
+    const scanner = new RouteScanner({
+      routesDir: "./src/pages",
+      extensions: [".ui", ".uix"],
+      layouts: true,
+      lazyLoading: true,
+    });
+    return scanner.scanRoutes(path.join(this.config.root, "src", "pages"));
+  }
+
+  /**
+   * Write the table the client router fetches from /__swite_routes, with
+   * each page's componentUrl pointing at its hashed chunk instead of the
+   * source the dev server compiles.
+   */
+  private async writeRouteTable(outputs: Map<string, EntryOutput>): Promise<void> {
+    const table = createRouteTable(await this.scanRoutes(), (httpUrl) => {
+      const output = outputs.get(path.join(this.config.root, httpUrl));
+      return output ? this.toOutputUrl(output.file) : null;
+    });
+    const fileName = ROUTE_TABLE_PATH.slice(1);
+    await fs.writeFile(path.join(this.config.outDir, fileName), JSON.stringify(table), "utf-8");
+    console.log(chalk.gray(`  ✓ ${fileName}`));
+  }
+
+  private toOutputUrl(file: string): string {
+    return "/" + path.relative(this.config.outDir, file).split(path.sep).join("/");
+  }
+
+  private async writeAnalysis(report: BundleReport): Promise<void> {
+    const reportDir = path.join(this.config.root, ".swite");
+    await fs.mkdir(reportDir, { recursive: true });
+    await fs.writeFile(path.join(reportDir, "analyze.json"), JSON.stringify(report, null, 2), "utf-8");
+    await fs.writeFile(path.join(reportDir, "analyze.html"), renderReportHtml(report), "utf-8");
+    console.log(chalk.cyan(`\n  📊 Bundle analysis: ${path.join(reportDir, "analyze.html")}`));
+  }
+
+  private async writeManifest(
+    outputs: Map<string, EntryOutput>,
+    routes: string[],
+  ): Promise<void> {
+    const manifest = createManifest(this.config.root, this.config.outDir, outputs, routes);
+    await fs.writeFile(
+      path.join(this.config.outDir, "manifest.json"),
+      JSON.stringify(manifest, null, 2),
+      "utf-8",
+    );
+    console.log(chalk.gray("  ✓ manifest.json"));
   }
 
   private async copyPublicAssets(): Promise<void> {
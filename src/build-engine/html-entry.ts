@@ -0,0 +1,130 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Production Builder
+ * Licensed under the MIT License.
+ */
+
+import type { EntryOutput } from "./manifest.js";
+
+export interface HtmlAssetRef {
+  // The tag exactly as written, so it can be replaced in place
+  tag: string;
+  // Referenced URL without query string or fragment
+  url: string;
+}
+
+export interface HtmlEntry {
+  // Local <script type="module" src="..."> tags, in document order
+  scripts: HtmlAssetRef[];
+  // Local <link rel="stylesheet" href="..."> tags, in document order
+  stylesheets: HtmlAssetRef[];
+  // Tags that only make sense against the dev server (HMR client)
+  devOnly: string[];
+}
+
+const SCRIPT_TAG = /<script\b[^>]*>\s*<\/script>/gi;
+const LINK_TAG = /<link\b[^>]*>/gi;
+
+/**
+ * Find the module scripts and stylesheets an HTML page loads from the app.
+ * Remote URLs and classic (non-module) scripts are left to the browser.
+ */
+export function parseHtmlEntry(html: string): HtmlEntry {
+  const entry: HtmlEntry = { scripts: [], stylesheets: [], devOnly: [] };
+
+  for (const [tag] of html.matchAll(SCRIPT_TAG)) {
+    const src = getAttribute(tag, "src");
+    if (!src) continue;
+    if (src.startsWith("/__swite")) {
+      entry.devOnly.push(tag);
+    } else if (getAttribute(tag, "type") === "module" && isLocalUrl(src)) {
+      entry.scripts.push({ tag, url: stripQuery(src) });
+    }
+  }
+
+  for (const [tag] of html.matchAll(LINK_TAG)) {
+    const href = getAttribute(tag, "href");
+    if (href && getAttribute(tag, "rel") === "stylesheet" && isLocalUrl(href)) {
+      entry.stylesheets.push({ tag, url: stripQuery(href) });
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Replace tags found by parseHtmlEntry (an empty replacement removes the tag)
+ * and append `headTags` at the end of <head>.
+ */
+export function renderHtmlEntry(
+  html: string,
+  replacements: Map<string, string>,
+  headTags: string[],
+): string {
+  let result = html;
+  for (const [tag, replacement] of replacements) {
+    result = replacement ? result.split(tag).join(replacement) : removeTag(result, tag);
+  }
+
+  if (headTags.length === 0) return result;
+  const injected = headTags.map((tag) => `    ${tag}`).join("\n");
+  return /<\/head>/i.test(result)
+    ? result.replace(/\s*<\/head>/i, `\n${injected}\n  </head>`)
+    : `${injected}\n${result}`;
+}
+
+/**
+ * Head tags for a page that loads the built `scripts`: their CSS and
+ * modulepreload hints for the chunks they import statically. The router
+ * imports `routes` chunks itself and nothing would load their CSS, so it is
+ * linked up front too.
+ */
+export function outputHeadTags(
+  scripts: EntryOutput[],
+  routes: EntryOutput[],
+  toUrl: (file: string) => string,
+): string[] {
+  const tags = new Set<string>();
+  for (const output of scripts) {
+    for (const css of output.css) tags.add(stylesheetTag(toUrl(css)));
+    for (const chunk of output.imports) tags.add(modulePreloadTag(toUrl(chunk)));
+  }
+  for (const output of routes) {
+    for (const css of output.css) tags.add(stylesheetTag(toUrl(css)));
+  }
+  return Array.from(tags);
+}
+
+export function scriptTag(src: string): string {
+  return `<script type="module" src="${src}"></script>`;
+}
+
+export function stylesheetTag(href: string): string {
+  return `<link rel="stylesheet" href="${href}">`;
+}
+
+export function modulePreloadTag(href: string): string {
+  return `<link rel="modulepreload" href="${href}">`;
+}
+
+// Drop the whole line when the tag was alone on it
+function removeTag(html: string, tag: string): string {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return html
+    .replace(new RegExp(`^[^\\S\\r\\n]*${escaped}[^\\S\\r\\n]*\\r?\\n`, "gm"), "")
+    .split(tag)
+    .join("");
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i").exec(tag);
+  return match ? match[1] ?? match[2] ?? match[3] : null;
+}
+
+function isLocalUrl(url: string): boolean {
+  return !/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(url);
+}
+
+function stripQuery(url: string): string {
+  return url.split(/[?#]/)[0];
+}
@@ -0,0 +1,103 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Production Builder
+ * Licensed under the MIT License.
+ */
+
+import type { Metafile } from "esbuild";
+import path from "node:path";
+
+// What esbuild produced for one entry or route; all paths are absolute
+export interface EntryOutput {
+  // Entry chunk (JS, or CSS for stylesheet entries)
+  file: string;
+  // CSS collected from the modules the entry imports; esbuild includes
+  // modules it imports with import()
+  css: string[];
+  // Chunks the entry imports statically, worth preloading
+  imports: string[];
+}
+
+export interface ManifestChunk {
+  // Paths are relative to the output directory
+  file: string;
+  imports: string[];
+  css: string[];
+  isEntry?: true;
+  isRoute?: true;
+}
+
+// Keyed by source path relative to the app root, e.g. `src/pages/about.ui`
+export type BuildManifest = Record<string, ManifestChunk>;
+
+/**
+ * Find each entry's output in esbuild's metafile. `entryPoints` maps the
+ * files esbuild was given (absolute) to the source they were built from.
+ */
+export function getEntryOutputs(
+  metafile: Metafile,
+  entryPoints: Map<string, string>,
+  absWorkingDir: string,
+): Map<string, EntryOutput> {
+  const resolveOutput = (output: string): string =>
+    path.isAbsolute(output) ? output : path.join(absWorkingDir, output);
+
+  // Chunks reachable through static imports load with the entry anyway
+  const collectPreloads = (outputPath: string, seen: Set<string>): void => {
+    for (const imported of metafile.outputs[outputPath]?.imports ?? []) {
+      if (imported.kind !== "import-statement" || imported.external) continue;
+      if (seen.has(imported.path)) continue;
+      seen.add(imported.path);
+      collectPreloads(imported.path, seen);
+    }
+  };
+
+  const entryOutputs = new Map<string, EntryOutput>();
+  for (const [outputPath, output] of Object.entries(metafile.outputs)) {
+    if (!output.entryPoint) continue;
+    const source = entryPoints.get(path.resolve(absWorkingDir, output.entryPoint));
+    if (!source) continue;
+    const preloads = new Set<string>();
+    collectPreloads(outputPath, preloads);
+    entryOutputs.set(source, {
+      file: resolveOutput(outputPath),
+      css: output.cssBundle ? [resolveOutput(output.cssBundle)] : [],
+      imports: Array.from(preloads, resolveOutput),
+    });
+  }
+  return entryOutputs;
+}
+
+/**
+ * Describe the build for servers that render their own HTML: the output file
+ * for each entry and route component, plus what to preload and link with it.
+ */
+export function createManifest(
+  root: string,
+  outDir: string,
+  outputs: Map<string, EntryOutput>,
+  routes: string[],
+): BuildManifest {
+  const toOutPath = (file: string): string => toPosix(path.relative(outDir, file));
+  const manifest: BuildManifest = {};
+
+  for (const [source, output] of outputs) {
+    const chunk: ManifestChunk = {
+      file: toOutPath(output.file),
+      imports: output.imports.map(toOutPath),
+      css: output.css.map(toOutPath),
+    };
+    if (routes.includes(source)) {
+      chunk.isRoute = true;
+    } else {
+      chunk.isEntry = true;
+    }
+    manifest[toPosix(path.relative(root, source))] = chunk;
+  }
+
+  return manifest;
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join("/");
+}
@@ -0,0 +1,119 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Production Builder
+ * Licensed under the MIT License.
+ */
+
+import { transform, type Loader, type Plugin } from "esbuild";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { PluginContainer } from "../internal/plugins/plugin-container.js";
+import { resolveSource } from "./analyze.js";
+
+// Virtual modules from plugins' resolveId/load
+const VIRTUAL_NAMESPACE = "swite-virtual";
+
+const SCRIPT_LOADERS: Record<string, Loader> = {
+  ".ts": "ts",
+  ".tsx": "tsx",
+  ".jsx": "jsx",
+  ".js": "js",
+  ".mjs": "js",
+};
+
+export interface PluginBridgeOptions {
+  // Directory virtual modules resolve their own imports from
+  root: string;
+  // Map a file in the build's temp directory back to its source
+  toSourcePath: (file: string) => string;
+}
+
+/**
+ * Run swite plugins' resolveId, load and transform hooks inside esbuild.
+ * Hooks see the same ids as in the dev server: source paths (`.ui`/`.uix`,
+ * not the compiled `.tsx`), and JavaScript for transform.
+ */
+export function createPluginBridge(plugins: PluginContainer, options: PluginBridgeOptions): Plugin {
+  const toId = (file: string): Promise<string> => resolveSource(options.toSourcePath(file));
+
+  return {
+    name: "swite-plugins",
+    setup(build) {
+      if (plugins.has("resolveId")) {
+        build.onResolve({ filter: /.*/ }, async (args) => {
+          const importer = args.importer
+            ? args.namespace === VIRTUAL_NAMESPACE
+              ? args.importer
+              : await toId(args.importer)
+            : undefined;
+          const id = await plugins.resolveId(args.path, importer);
+          if (!id) return undefined;
+          if (path.isAbsolute(id) && (await exists(id))) return { path: id };
+          return { path: id, namespace: VIRTUAL_NAMESPACE };
+        });
+      }
+
+      if (plugins.has("load")) {
+        // Only Swiss, TypeScript, CSS and asset files are copied to the temp
+        // directory; read other file types (.mdx, ...) from the source tree
+        build.onResolve({ filter: /^\.\.?\// }, async (args) => {
+          if (args.namespace !== "file") return undefined;
+          const inTemp = path.resolve(args.resolveDir, args.path);
+          if (await exists(inTemp)) return undefined;
+          const inSource = options.toSourcePath(inTemp);
+          if (inSource === inTemp || !(await exists(inSource))) return undefined;
+          return { path: inSource, pluginData: { resolveDir: path.dirname(inTemp) } };
+        });
+        // Plugin output may import components by their source name
+        build.onResolve({ filter: /^\.\.?\/.*\.uix?$/ }, async (args) => {
+          const compiled = path.resolve(args.resolveDir, args.path.replace(/\.uix?$/, ".tsx"));
+          return (await exists(compiled)) ? { path: compiled } : undefined;
+        });
+      }
+
+      build.onLoad({ filter: /.*/, namespace: VIRTUAL_NAMESPACE }, async (args) => {
+        const loaded = await plugins.load(args.path);
+        if (!loaded) {
+          return { errors: [{ text: `No plugin loaded the virtual module ${args.path}` }] };
+        }
+        const transformed = await plugins.transform(loaded.code, args.path);
+        return { contents: transformed.code, loader: "js", resolveDir: options.root };
+      });
+
+      if (!plugins.has("load") && !plugins.has("transform")) return;
+      build.onLoad({ filter: /.*/, namespace: "file" }, async (args) => {
+        if (args.path.split(path.sep).includes("node_modules")) return undefined;
+        const id = await toId(args.path);
+
+        let code: string;
+        const loaded = await plugins.load(id);
+        if (loaded) {
+          code = loaded.code;
+        } else {
+          // Leave stylesheets and assets to esbuild and the other plugins
+          const loader = SCRIPT_LOADERS[path.extname(args.path)];
+          if (!loader || !plugins.has("transform")) return undefined;
+          const source = await fs.readFile(args.path, "utf-8");
+          code = (await transform(source, { loader, format: "esm", target: "esnext", sourcefile: id })).code;
+        }
+
+        const transformed = await plugins.transform(code, id);
+        return {
+          contents: transformed.code,
+          loader: "js",
+          // Files read from the source tree still import their neighbours' compiled copies
+          resolveDir: args.pluginData?.resolveDir ?? path.dirname(args.path),
+        };
+      });
+    },
+  };
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,111 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Production Builder
+ * Licensed under the MIT License.
+ */
+
+import { Browser, type BrowserPage } from "happy-dom";
+import path from "node:path";
+import chalk from "chalk";
+import type { RouteParams } from "../internal/routes/route-matcher.js";
+
+// Pages are loaded from the output directory through this origin
+const ORIGIN = "http://swite.prerender";
+
+// Give up waiting for a page to settle (e.g. a polling timer) after this
+const RENDER_TIMEOUT_MS = 10000;
+
+// `/` → `<outDir>/index.html`, `/docs/intro` → `<outDir>/docs/intro/index.html`
+export function pageOutputPath(outDir: string, urlPath: string): string {
+  const segments = urlPath.split("/").filter(Boolean).map(decodeURIComponent);
+  return path.join(outDir, ...segments, "index.html");
+}
+
+/**
+ * Runs the built app in happy-dom, one page per route, against the files in
+ * the output directory. The page's own scripts render it, so the HTML is
+ * exactly what the browser shows before the same scripts take over again.
+ */
+export class Prerenderer {
+  private browser: Browser;
+
+  constructor(outDir: string) {
+    this.browser = new Browser({
+      console,
+      settings: {
+        // Only our own build output runs here
+        enableJavaScriptEvaluation: true,
+        suppressInsecureJavaScriptEnvironmentWarning: true,
+        fetch: {
+          virtualServers: [{ url: `${ORIGIN}/`, directory: outDir }],
+        },
+      },
+    });
+  }
+
+  /**
+   * Read the params a dynamic route's module lists in its
+   * `getStaticParams` export: an array, or a function returning one.
+   */
+  async loadStaticParams(moduleUrl: string): Promise<RouteParams[] | null> {
+    const page = this.browser.newPage();
+    try {
+      page.url = `${ORIGIN}/`;
+      page.content = `<script type="module">
+        import * as route from ${JSON.stringify(moduleUrl)};
+        const list = route.getStaticParams;
+        Promise.resolve(typeof list === "function" ? list() : list).then((params) => {
+          window.__swite_static_params__ = params ?? null;
+        });
+      </script>`;
+      await this.settle(page, moduleUrl);
+      const params = (page.mainFrame.window as unknown as Record<string, unknown>)
+        .__swite_static_params__;
+      if (params === undefined || params === null) return null;
+      if (!Array.isArray(params)) {
+        throw new Error(`getStaticParams in ${moduleUrl} must return an array of params`);
+      }
+      // Copy out of the page's realm, normalising values to strings
+      return Array.from(params, (entry: Record<string, unknown>) =>
+        Object.fromEntries(Object.entries(entry).map(([name, value]) => [name, String(value)])),
+      );
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Load `html` at `urlPath`, let its scripts run and return the result.
+   */
+  async render(urlPath: string, html: string): Promise<string> {
+    const page = this.browser.newPage();
+    try {
+      page.url = `${ORIGIN}${urlPath}`;
+      page.content = html;
+      await this.settle(page, urlPath);
+      const document = page.mainFrame.document;
+      const doctype = document.doctype ? `<!DOCTYPE ${document.doctype.name}>\n` : "";
+      return doctype + document.documentElement.outerHTML;
+    } finally {
+      await page.close();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.browser.close();
+  }
+
+  private async settle(page: BrowserPage, label: string): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), RENDER_TIMEOUT_MS);
+    });
+    const done = page.waitUntilComplete().then(() => false);
+    if (await Promise.race([done, timedOut])) {
+      console.warn(
+        chalk.yellow(`  ⚠ ${label} still had pending work after ${RENDER_TIMEOUT_MS}ms; using what has rendered`),
+      );
+    }
+    clearTimeout(timer);
+  }
+}
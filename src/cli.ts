@@ -2,12 +2,23 @@
 import { resolve } from "node:path";
 import chalk from "chalk";
 import { SwiteServer } from "./dev-engine/server.js";
+import { SwitePreviewServer } from "./preview-engine/server.js";
 import { loadUserConfig } from "./config/config-loader.js";
+import type { SwiteUserConfig } from "./config/config.js";
+import { parseBuildFlags, resolveBuildConfig } from "./config/build-options.js";
 import {
   startPythonDevService,
   stopPythonDevService,
 } from "./dev-engine/pythonDevManager.js";
 import { setProductionMode } from "./adapters/proxy/proxyToPython.js";
+import { ModuleResolver } from "./resolution/resolver.js";
+import { quietLogger } from "./kernel/logger.js";
+import { loadPathAliases } from "./resolution/path-aliases.js";
+import { formatResolveExplanation } from "./resolution/resolve-trace.js";
+import { loadImportMap } from "./internal/generate-import-map.js";
+import { PluginContainer } from "./internal/plugins/plugin-container.js";
+import { findCdnFallbacks, loadVendoredDeps, vendorDeps } from "./dev-engine/deps/vendor.js";
+import { loadCdnOptions } from "./resolution/cdn/cdn-fallback.js";
 
 const [, , command, ...args] = process.argv;
 const root = resolve(process.cwd());
@@ -20,16 +31,7 @@ async function dev(): Promise<void> {
     await startPythonDevService(python, root);
   }
 
-  // Relay SIGINT: kill Python, then exit cleanly
-  process.on("SIGINT", () => {
-    stopPythonDevService();
-    process.exit(0);
-  });
-
-  // Ensure Python is killed if Node crashes
-  process.on("exit", () => {
-    stopPythonDevService();
-  });
+  registerPythonShutdown();
 
   const server = new SwiteServer({
     root,
@@ -37,6 +39,13 @@ async function dev(): Promise<void> {
     host: config.server?.host ?? "localhost",
     publicDir: "public",
     open: false,
+    hmrPort: config.server?.hmrPort,
+    ssr: config.ssr,
+    optimizeDeps: config.optimizeDeps,
+    conditions: config.resolve?.conditions,
+    alias: config.resolve?.alias,
+    cdn: args.includes("--offline") ? false : config.resolve?.cdn,
+    plugins: config.plugins,
   });
 
   await server.start();
@@ -68,17 +77,145 @@ async function start(): Promise<void> {
   await server.start();
 }
 
+async function preview(): Promise<void> {
+  const config = await loadUserConfig(root);
+  const python = config.services?.python;
+
+  // Preview behaves like production when PYTHON_SERVICE_URL is set. Without it,
+  // an autoStart service is spawned the same way `swite dev` does so the built
+  // app can still reach a local Python backend.
+  if (python && process.env["PYTHON_SERVICE_URL"]) {
+    setProductionMode();
+  } else if (python?.autoStart) {
+    await startPythonDevService(python, root);
+    registerPythonShutdown();
+  } else if (python) {
+    console.warn(
+      chalk.yellow(
+        "[swite] WARNING: services.python is configured but PYTHON_SERVICE_URL is not set and autoStart is off.\n" +
+          "        Proxy calls to Python will fail during preview.",
+      ),
+    );
+  }
+
+  const server = new SwitePreviewServer({
+    root,
+    outDir: config.build?.outDir ?? "dist",
+    port: config.server?.port ?? 3000,
+    host: config.server?.host ?? "localhost",
+  });
+
+  await server.start();
+}
+
 async function build(): Promise<void> {
-  const { SwiteBuilder } = await import("./builder.js");
+  const { SwiteBuilder } = await import("./build-engine/builder.js");
+  const flags = parseBuildFlags(args);
   const config = await loadUserConfig(root);
   const builder = new SwiteBuilder({
-    root,
-    entry: resolve(root, "src/index.ui"),
-    outDir: resolve(root, "dist"),
+    ...resolveBuildConfig(root, config.build, flags),
+    conditions: config.resolve?.conditions,
+    alias: config.resolve?.alias,
+    plugins: config.plugins,
   });
   await builder.build();
 }
 
+/**
+ * `swite resolve <specifier> [--from <file>] [--json] [--offline]`: print
+ * how the dev server resolves an import. Uses the import map, aliases,
+ * plugins and vendored dependencies as `swite dev` does; pre-bundled
+ * dependencies only show up in the running server's /__swite_resolve.
+ */
+async function explainResolution(): Promise<void> {
+  let specifier: string | undefined;
+  let from = "index.html";
+  let json = false;
+  let offline = false;
+  for (let i = 0; i < args.length; i++) {
+    const [name, inline] = args[i].split(/=(.*)/s, 2);
+    if (name === "--from") {
+      const value = inline ?? args[++i];
+      if (!value) throw new Error("--from needs a file");
+      from = value;
+    } else if (name === "--json") {
+      json = true;
+    } else if (name === "--offline") {
+      offline = true;
+    } else if (!specifier && !args[i].startsWith("--")) {
+      specifier = args[i];
+    } else {
+      throw new Error(`Unknown resolve option: ${args[i]}`);
+    }
+  }
+  if (!specifier) {
+    throw new Error("Usage: swite resolve <specifier> [--from <file>] [--json] [--offline]");
+  }
+
+  const config = await loadUserConfig(root);
+  const resolver = await createResolver(config);
+  resolver.setCdnFallback(!offline && config.resolve?.cdn !== false);
+  resolver.setVendoredDeps(await loadVendoredDeps(root));
+  const explanation = await resolver.explain(specifier, resolve(process.cwd(), from));
+
+  console.log(json ? JSON.stringify(explanation, null, 2) : formatResolveExplanation(explanation));
+  if (explanation.error) process.exitCode = 1;
+}
+
+/**
+ * `swite vendor [specifier...]`: bundle the imports `swite dev` would load
+ * from jsDelivr, plus any listed, into .swite/vendor from the versions
+ * installed in node_modules. `swite dev` then serves them locally, with or
+ * without --offline.
+ */
+async function vendor(): Promise<void> {
+  const config = await loadUserConfig(root);
+  const fallbacks = await findCdnFallbacks(root, await createResolver(config));
+  const specifiers = [...new Set([...fallbacks, ...args])];
+  if (specifiers.length === 0) {
+    console.log(chalk.green("[vendor] Every import resolves locally; nothing to vendor"));
+  }
+
+  const { vendored, versions, missing } = await vendorDeps(root, specifiers);
+  if (vendored) {
+    const packages = Object.entries(versions).map(([name, version]) => `${name}@${version}`);
+    console.log(chalk.green(`[vendor] Bundled ${packages.join(", ")} into .swite/vendor`));
+  }
+  if (missing.length > 0) {
+    console.error(
+      chalk.red(`[vendor] Not installed in node_modules, install them first: ${missing.join(", ")}`),
+    );
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * A resolver set up with the import map, aliases, CDN and plugins `swite dev`
+ * uses. It only logs errors, as the commands print reports of their own.
+ */
+async function createResolver(config: SwiteUserConfig): Promise<ModuleResolver> {
+  const resolver = new ModuleResolver(root, config.resolve?.conditions);
+  resolver.setLogger(quietLogger);
+  resolver.setImportMap(await loadImportMap(resolve(root, ".swite", "import-map.json")));
+  resolver.setPathAliases(await loadPathAliases(root, config.resolve?.alias));
+  resolver.setCdnOptions(await loadCdnOptions(root, config.resolve?.cdn));
+  resolver.setPluginContainer(new PluginContainer(config.plugins ?? [], "serve"));
+  return resolver;
+}
+
+function registerPythonShutdown(): void {
+  // Relay SIGINT: kill Python, then exit cleanly
+  process.on("SIGINT", () => {
+    stopPythonDevService();
+    process.exit(0);
+  });
+
+  // Ensure Python is killed if Node crashes
+  process.on("exit", () => {
+    stopPythonDevService();
+  });
+}
+
 switch (command) {
   case "dev":
     dev().catch((err: unknown) => {
@@ -95,6 +232,14 @@ switch (command) {
     });
     break;
 
+  case "preview":
+    preview().catch((err: unknown) => {
+      console.error(chalk.red("[swite] fatal:"), err);
+      stopPythonDevService();
+      process.exit(1);
+    });
+    break;
+
   case "build":
     build().catch((err: unknown) => {
       console.error(chalk.red("[swite] build failed:"), err);
@@ -102,8 +247,22 @@ switch (command) {
     });
     break;
 
+  case "resolve":
+    explainResolution().catch((err: unknown) => {
+      console.error(chalk.red("[swite] resolve failed:"), err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+    break;
+
+  case "vendor":
+    vendor().catch((err: unknown) => {
+      console.error(chalk.red("[swite] vendor failed:"), err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+    break;
+
   default:
     console.error(chalk.red(`[swite] unknown command: ${command ?? "(none)"}`));
-    console.error("Usage: swite <dev|build|start>");
+    console.error("Usage: swite <dev|build|start|preview|resolve|vendor>");
     process.exit(1);
 }
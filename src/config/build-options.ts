@@ -0,0 +1,123 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import { resolve } from "node:path";
+import type { BuildConfig } from "../build-engine/builder.js";
+import type { BuildUserConfig } from "./config.js";
+
+// Options `swite build` accepts on the command line
+export interface BuildFlags {
+  entry?: string;
+  html?: string;
+  outDir?: string;
+  publicDir?: string;
+  minify?: boolean;
+  sourcemap?: boolean;
+  target?: string;
+  format?: "esm" | "cjs" | "iife";
+  external?: string[];
+  define?: Record<string, string>;
+  analyze?: boolean;
+  prerender?: boolean;
+}
+
+const FORMATS = ["esm", "cjs", "iife"] as const;
+
+/**
+ * Parse `swite build` flags. Values can follow the flag or be joined with
+ * `=`; `--external` and `--define KEY=VALUE` can be repeated; boolean flags
+ * take a `--no-` prefix.
+ */
+export function parseBuildFlags(args: string[]): BuildFlags {
+  const flags: BuildFlags = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const [name, inline] = args[i].split(/=(.*)/s, 2);
+    const value = (): string => {
+      const next = inline ?? args[++i];
+      if (next === undefined || (inline === undefined && next.startsWith("--"))) {
+        throw new Error(`${name} needs a value`);
+      }
+      return next;
+    };
+
+    switch (name) {
+      case "--entry":
+      case "--html":
+      case "--outDir":
+      case "--publicDir":
+      case "--target":
+        flags[name.slice(2) as "entry" | "html" | "outDir" | "publicDir" | "target"] = value();
+        break;
+      case "--format": {
+        const format = value();
+        if (!(FORMATS as readonly string[]).includes(format)) {
+          throw new Error(`--format must be one of ${FORMATS.join(", ")}, got "${format}"`);
+        }
+        flags.format = format as BuildFlags["format"];
+        break;
+      }
+      case "--external":
+        flags.external = [...(flags.external ?? []), value()];
+        break;
+      case "--define": {
+        const definition = value();
+        const separator = definition.indexOf("=");
+        if (separator <= 0) {
+          throw new Error(`--define expects KEY=VALUE, got "${definition}"`);
+        }
+        flags.define = {
+          ...flags.define,
+          [definition.slice(0, separator)]: definition.slice(separator + 1),
+        };
+        break;
+      }
+      case "--minify":
+      case "--sourcemap":
+      case "--analyze":
+      case "--prerender":
+        flags[name.slice(2) as "minify" | "sourcemap" | "analyze" | "prerender"] = true;
+        break;
+      case "--no-minify":
+      case "--no-sourcemap":
+        flags[name.slice(5) as "minify" | "sourcemap"] = false;
+        break;
+      default:
+        throw new Error(`Unknown build option: ${args[i]}`);
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Combine the `build` block of swiss.config.ts with command-line flags into
+ * a `BuildConfig`. Flags win; `external` and `define` are merged. Paths are
+ * relative to `root`.
+ */
+export function resolveBuildConfig(
+  root: string,
+  config: BuildUserConfig = {},
+  flags: BuildFlags = {},
+): BuildConfig {
+  const html = flags.html ?? config.html;
+  return {
+    root,
+    entry: resolve(root, flags.entry ?? config.entry ?? "src/index.ui"),
+    html: html ? resolve(root, html) : undefined,
+    outDir: resolve(root, flags.outDir ?? config.outDir ?? "dist"),
+    publicDir: flags.publicDir ?? config.publicDir,
+    minify: flags.minify ?? config.minify,
+    sourcemap: flags.sourcemap ?? config.sourcemap,
+    target: flags.target ?? config.target,
+    format: flags.format ?? config.format,
+    external: [...(config.external ?? []), ...(flags.external ?? [])],
+    define: { ...config.define, ...flags.define },
+    analyze: flags.analyze,
+    budgets: config.budgets,
+    prerender: flags.prerender ?? config.prerender,
+  };
+}
@@ -7,19 +7,26 @@ import { existsSync } from "node:fs";
 import type { SwiteUserConfig } from "./config.js";
 
 /**
- * Load swiss.config.ts from the project root.
- * Transpiles to a temp ESM file via esbuild, imports it, then cleans up.
- * Returns empty config if no config file found.
+ * Find swiss.config.ts (or .js) in the project root.
  */
-export async function loadUserConfig(root: string): Promise<SwiteUserConfig> {
+export function findConfigFile(root: string): string | null {
   const tsConfig = join(root, "swiss.config.ts");
   const jsConfig = join(root, "swiss.config.js");
 
-  const configPath = existsSync(tsConfig)
+  return existsSync(tsConfig)
     ? tsConfig
     : existsSync(jsConfig)
       ? jsConfig
       : null;
+}
+
+/**
+ * Load swiss.config.ts from the project root.
+ * Transpiles to a temp ESM file via esbuild, imports it, then cleans up.
+ * Returns empty config if no config file found.
+ */
+export async function loadUserConfig(root: string): Promise<SwiteUserConfig> {
+  const configPath = findConfigFile(root);
 
   if (!configPath) {
     return {};
@@ -1,3 +1,5 @@
+import type { SwitePlugin } from "../internal/plugins/plugin-container.js";
+
 export interface PythonServiceConfig {
   /** Path to the Python entry file, relative to project root */
   entry: string;
@@ -18,11 +20,149 @@ export interface ServicesConfig {
 export interface ServerConfig {
   port?: number;
   host?: string;
+  /**
+   * Serve the HMR WebSocket on its own port instead of upgrading connections
+   * on the dev server's port. Only needed when something in front of the dev
+   * server cannot forward WebSocket upgrades.
+   */
+  hmrPort?: number;
+}
+
+/** Largest allowed sizes in bytes; either limit can be left out */
+export interface SizeBudget {
+  raw?: number;
+  gzip?: number;
+}
+
+export interface BudgetsConfig {
+  /**
+   * Keyed by entry source path relative to the project root, e.g.
+   * `src/index.ui` or `src/pages/about.ui`. Measures the entry's chunk plus
+   * the chunks and CSS it loads up front. `"*"` applies to every entry.
+   */
+  entries?: Record<string, SizeBudget>;
+  /**
+   * Keyed by output file name without its hash, e.g. `chunk.js` or
+   * `index.css`. `"*"` applies to every JS and CSS file.
+   */
+  chunks?: Record<string, SizeBudget>;
+}
+
+export interface BuildUserConfig {
+  /** Script to bundle when index.html has no module script. Default: src/index.ui */
+  entry?: string;
+  /** Page to build from, e.g. `src/app.html`. Default: <publicDir>/index.html */
+  html?: string;
+  /** Default: dist */
+  outDir?: string;
+  /** Copied into outDir as-is. Default: public */
+  publicDir?: string;
+  /** Default: true */
+  minify?: boolean;
+  /** Default: false */
+  sourcemap?: boolean;
+  /** esbuild target. Default: es2020 */
+  target?: string;
+  /** Default: esm; route chunks need esm */
+  format?: "esm" | "cjs" | "iife";
+  /** Imports left for the browser to resolve, e.g. packages loaded from a CDN */
+  external?: string[];
+  /**
+   * Identifiers replaced at build time. Values are JavaScript expressions:
+   * `{ __APP_VERSION__: JSON.stringify("1.2.0") }`.
+   */
+  define?: Record<string, string>;
+  /** Fail `swite build` when output grows past these sizes */
+  budgets?: BudgetsConfig;
+  /**
+   * Render every file-router page to static HTML (same as `--prerender`).
+   * Dynamic pages list their params with a `getStaticParams` export.
+   */
+  prerender?: boolean;
+}
+
+export interface SSRConfig {
+  /**
+   * Module that renders a page to HTML in `swite dev`, relative to the
+   * project root, e.g. `src/entry-server.ts`. It exports
+   * `render({ url, route, params, page })` returning the markup, or
+   * `{ html, head }`.
+   */
+  entry: string;
+}
+
+export interface OptimizeDepsConfig {
+  /**
+   * Bare imports to pre-bundle even when not detected, e.g. `lodash/debounce`.
+   * CommonJS packages and packages with many internal modules are detected
+   * from the imports in `src/`.
+   */
+  include?: string[];
+  /** Packages or imports to serve from node_modules unbundled */
+  exclude?: string[];
+  /** Rebuild `.swite/deps` on start even when the lockfile hasn't changed */
+  force?: boolean;
+}
+
+export interface ResolveConfig {
+  /**
+   * Conditions matched in package.json `exports` and `imports`, in addition
+   * to `default`. Default: swiss, development, browser, import in
+   * `swite dev`; swiss, production, browser, import in `swite build`.
+   */
+  conditions?: string[];
+  /**
+   * Import prefixes mapped to directories or files relative to the project
+   * root, e.g. `{ "@components": "src/components" }` makes
+   * `@components/Button` import `src/components/Button.ui`. Checked before
+   * `paths` from tsconfig.json, which are picked up as well.
+   */
+  alias?: Record<string, string>;
+  /**
+   * Load packages that aren't found locally from a CDN in `swite dev`.
+   * With `false` (or `swite dev --offline`) such imports fail with an error
+   * instead; `swite vendor` bundles them into `.swite/vendor`. Default: true,
+   * i.e. jsDelivr with versions pinned from the lockfile.
+   */
+  cdn?: boolean | CdnConfig;
+}
+
+export type CdnProvider = "jsdelivr" | "esm.sh" | "unpkg";
+
+export interface CdnConfig {
+  /**
+   * `"jsdelivr"` (default), `"esm.sh"`, `"unpkg"`, or a URL template for a
+   * mirror with `{name}`, `{version}` and `{path}` placeholders, e.g.
+   * `"https://npm.example.com/{name}@{version}{path}/+esm"`. `@{version}`
+   * is dropped for packages the lockfile doesn't pin.
+   */
+  provider?: CdnProvider | string;
+  /**
+   * Scopes whose packages may come from the CDN, e.g. `["@tanstack"]`, in
+   * addition to SWITE_CDN_FALLBACK_SCOPES. Scoped packages may be private,
+   * so they're served from /node_modules/ otherwise.
+   */
+  scopes?: string[];
+  /** Pin CDN URLs to the versions in pnpm-lock.yaml or package-lock.json. Default: true */
+  pin?: boolean;
+  /**
+   * Add SRI hashes of pinned CDN modules to the import map's `integrity`
+   * field, so the browser refuses a module that changed. Hashes are cached
+   * in `.swite/cdn-integrity.json`. Default: true.
+   */
+  integrity?: boolean;
 }
 
 export interface SwiteUserConfig {
   server?: ServerConfig;
   services?: ServicesConfig;
+  build?: BuildUserConfig;
+  ssr?: SSRConfig;
+  resolve?: ResolveConfig;
+  /** Dependency pre-bundling for `swite dev` */
+  optimizeDeps?: OptimizeDepsConfig;
+  /** Run by both `swite dev` and `swite build`, in order */
+  plugins?: SwitePlugin[];
 }
 
 /**
@@ -55,12 +55,14 @@ export function loadEnv(
  *  - import.meta.env.DEV  → true/false literal
  *  - import.meta.env.PROD → true/false literal
  *  - import.meta.env.MODE → "development"/"production" literal
+ *  - import.meta.env.SSR  → true when compiling for the SSR module loader
  *  - bare import.meta.env → serialized object literal (for spread, typeof, etc.)
  */
 export function inlineEnvReferences(
   code: string,
   env: Record<string, string>,
   mode: string = "development",
+  ssr: boolean = false,
 ): string {
   if (!code.includes("import.meta.env")) return code;
 
@@ -71,27 +73,27 @@ export function inlineEnvReferences(
     if (key === "DEV") return String(isDev);
     if (key === "PROD") return String(!isDev);
     if (key === "MODE") return JSON.stringify(mode);
-    if (key === "SSR") return "false";
+    if (key === "SSR") return String(ssr);
     if (key in env) return JSON.stringify(env[key]);
     return "undefined";
   });
 
   // Bare import.meta.env (spread/typeof patterns)
   if (code.includes("import.meta.env")) {
-    const envLiteral = buildEnvLiteral(env, mode);
+    const envLiteral = buildEnvLiteral(env, mode, ssr);
     code = code.replace(/\bimport\.meta\.env\b/g, envLiteral);
   }
 
   return code;
 }
 
-function buildEnvLiteral(env: Record<string, string>, mode: string): string {
+function buildEnvLiteral(env: Record<string, string>, mode: string, ssr: boolean): string {
   const isDev = mode !== "production";
   const entries: string[] = [
     `MODE:${JSON.stringify(mode)}`,
     `DEV:${isDev}`,
     `PROD:${!isDev}`,
-    `SSR:false`,
+    `SSR:${ssr}`,
     ...Object.entries(env).map(([k, v]) => `${JSON.stringify(k)}:${JSON.stringify(v)}`),
   ];
   return `({${entries.join(",")}})`;
@@ -0,0 +1,80 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import { isCdnVersionPinned, type CdnOptions } from "../../resolution/cdn/cdn-fallback.js";
+import type { ModuleResolver } from "../../resolution/resolver.js";
+import { findCdnFallbacks } from "./vendor.js";
+
+const CACHE_FILE = "cdn-integrity.json";
+const FETCH_TIMEOUT_MS = 3_000;
+// URLs that couldn't be fetched aren't tried again for this long
+const RETRY_FAILED_MS = 60 * 60 * 1000;
+
+// A URL's hash, or when it last couldn't be fetched
+type CacheEntry = string | { failedAt: number };
+
+/**
+ * SRI hashes (sha384) of the CDN modules the app's bare imports fall back
+ * to, keyed by URL for the import map's `integrity` field. Only URLs pinned
+ * by the lockfile are hashed; an unpinned URL may change. A pinned URL's
+ * content doesn't, so hashes are kept in .swite/cdn-integrity.json. URLs
+ * are fetched in parallel; those that can't be are left out with a warning,
+ * and recorded so that starts without network access don't wait on them.
+ */
+export async function getCdnIntegrity(
+  root: string,
+  resolver: ModuleResolver,
+  options: CdnOptions,
+): Promise<Record<string, string>> {
+  const cacheFile = path.join(root, ".swite", CACHE_FILE);
+  let cached: Record<string, CacheEntry> = {};
+  try {
+    cached = JSON.parse(await fs.readFile(cacheFile, "utf-8"));
+  } catch {
+    // nothing hashed yet
+  }
+
+  const urls = new Set<string>();
+  for (const specifier of await findCdnFallbacks(root, resolver)) {
+    if (isCdnVersionPinned(specifier, options)) urls.add(resolver.getCdnUrl(specifier));
+  }
+
+  const now = Date.now();
+  const entries = await Promise.all(
+    Array.from(urls, async (url): Promise<[string, CacheEntry]> => {
+      const entry = cached[url];
+      if (typeof entry === "string") return [url, entry];
+      if (entry && now - entry.failedAt < RETRY_FAILED_MS) return [url, entry];
+      try {
+        return [url, await hashUrl(url)];
+      } catch (error) {
+        console.warn(
+          chalk.yellow(`[cdn] No integrity hash for ${url}: ${error instanceof Error ? error.message : String(error)}`),
+        );
+        return [url, { failedAt: now }];
+      }
+    }),
+  );
+
+  await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+  await fs.writeFile(cacheFile, JSON.stringify(Object.fromEntries(entries), null, 2));
+  const integrity: Record<string, string> = {};
+  for (const [url, entry] of entries) {
+    if (typeof entry === "string") integrity[url] = entry;
+  }
+  return integrity;
+}
+
+async function hashUrl(url: string): Promise<string> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  const body = Buffer.from(await response.arrayBuffer());
+  return `sha384-${createHash("sha384").update(body).digest("base64")}`;
+}
@@ -0,0 +1,297 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import chalk from "chalk";
+import type { Plugin } from "esbuild";
+import type { OptimizeDepsConfig } from "../../config/config.js";
+
+export interface OptimizedDeps {
+  // Hash of the lockfile and optimizeDeps config the bundles were built for
+  hash: string;
+  dir: string;
+  // Bare import specifier -> bundle file name in dir
+  files: Record<string, string>;
+}
+
+// The package.json fields read to decide how a package is bundled
+export interface PackageJson {
+  name?: string;
+  version?: string;
+  type?: string;
+  main?: string;
+  module?: string;
+  exports?: unknown;
+}
+
+interface DepsMetadata {
+  hash: string;
+  // Every third-party import considered, bundled or not; a new one means a rebuild
+  scanned: string[];
+  files: Record<string, string>;
+}
+
+export const DEPS_URL_PREFIX = "/.swite/deps/";
+
+const METADATA_FILE = "_metadata.json";
+const LOCKFILES = ["pnpm-lock.yaml", "package-lock.json", "yarn.lock", "bun.lockb"];
+// ES module packages whose entry pulls in more modules than this are bundled
+const DEEP_IMPORT_THRESHOLD = 10;
+const SCANNED_EXTS = new Set([".ui", ".uix", ".ts", ".tsx", ".js", ".jsx", ".mjs"]);
+// `from "x"`, `import "x"` and `import("x")` with a bare specifier
+const BARE_IMPORT = /(?:\bfrom\s*|\bimport\s*\(?\s*)["']([@a-zA-Z][^"'\s]*)["']/g;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const RESERVED = new Set(
+  ("break case catch class const continue debugger default delete do else enum export extends " +
+    "false finally for function if import in instanceof new null return super switch this throw " +
+    "true try typeof var void while with await let static yield implements interface package " +
+    "private protected public arguments eval").split(" "),
+);
+
+/**
+ * Pre-bundle third-party dependencies into single ES modules in
+ * `.swite/deps`. Bundles the imports in `include`, and the bare imports
+ * found in `src/` whose package is CommonJS or whose entry pulls in more
+ * than DEEP_IMPORT_THRESHOLD modules. Bundles are reused until the
+ * lockfile or config changes, or a new import shows up. Workspace packages
+ * are never bundled.
+ *
+ * Returns null when the bundle step fails; those imports are then served
+ * from node_modules as before.
+ */
+export async function optimizeDeps(
+  root: string,
+  config: OptimizeDepsConfig = {},
+): Promise<OptimizedDeps | null> {
+  const dir = path.join(root, ".swite", "deps");
+  const include = new Set(config.include ?? []);
+  const exclude = new Set(config.exclude ?? []);
+  const scanned = [...new Set([...include, ...(await scanBareImports(root))])]
+    .filter((specifier) => !exclude.has(specifier) && !exclude.has(getPackageName(specifier)))
+    .sort();
+  const hash = await getDepsHash(root, config);
+
+  const metadata = config.force ? null : await readMetadata(dir);
+  if (metadata && metadata.hash === hash && scanned.every((specifier) => metadata.scanned.includes(specifier))) {
+    return { hash, dir, files: metadata.files };
+  }
+
+  const startTime = Date.now();
+  const deps: string[] = [];
+  const commonJs = new Set<string>();
+  for (const specifier of scanned) {
+    const pkg = await readThirdPartyPackage(getPackageName(specifier), root);
+    if (!pkg && !include.has(specifier)) continue;
+    if (pkg && isCommonJs(pkg)) commonJs.add(specifier);
+
+    const modules = include.has(specifier) ? 0 : await countModules(specifier, root);
+    if (include.has(specifier) || (modules > 0 && (commonJs.has(specifier) || modules > DEEP_IMPORT_THRESHOLD))) {
+      deps.push(specifier);
+    }
+  }
+
+  const files: Record<string, string> = {};
+  for (const specifier of deps) {
+    files[specifier] = `${specifier.replace(/\//g, "_")}.js`;
+  }
+
+  await fs.rm(dir, { recursive: true, force: true });
+  if (deps.length > 0) {
+    try {
+      await bundleDeps(root, dir, files, commonJs);
+    } catch (error) {
+      console.warn(
+        chalk.yellow(`[deps] Pre-bundling failed, serving dependencies from node_modules: ${error instanceof Error ? error.message : String(error)}`),
+      );
+      return null;
+    }
+  }
+
+  const written: DepsMetadata = { hash, scanned, files };
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, METADATA_FILE), JSON.stringify(written, null, 2));
+  if (deps.length > 0) {
+    console.log(chalk.green(`[deps] Pre-bundled ${deps.join(", ")} in ${Date.now() - startTime}ms`));
+  }
+  return { hash, dir, files };
+}
+
+/**
+ * Bundle each import into `dir` under its file name in `files`, as ES
+ * modules for the browser. Throws when esbuild fails.
+ */
+export async function bundleDeps(
+  root: string,
+  dir: string,
+  files: Record<string, string>,
+  commonJs: Set<string>,
+): Promise<void> {
+  const esbuild = await import("esbuild");
+  await esbuild.build({
+    entryPoints: Object.fromEntries(Object.entries(files).map(([specifier, file]) => [file.slice(0, -3), specifier])),
+    bundle: true,
+    // Deps sharing a package (react, react-dom) share one copy of it
+    splitting: true,
+    format: "esm",
+    platform: "browser",
+    target: "es2020",
+    outdir: dir,
+    absWorkingDir: root,
+    define: { "process.env.NODE_ENV": JSON.stringify("development") },
+    logLevel: "silent",
+    plugins: [commonJsEntries(commonJs, root)],
+  });
+}
+
+/**
+ * Find bare imports in the app's sources. A plain scan rather than a parse:
+ * .ui/.uix files aren't JavaScript until compiled.
+ */
+export async function scanBareImports(root: string): Promise<string[]> {
+  const found = new Set<string>();
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== "node_modules" && !entry.name.startsWith(".")) await walk(file);
+      } else if (SCANNED_EXTS.has(path.extname(entry.name)) && !entry.name.endsWith(".d.ts")) {
+        const source = await fs.readFile(file, "utf-8");
+        for (const match of source.matchAll(BARE_IMPORT)) found.add(match[1]);
+      }
+    }
+  };
+  await walk(path.join(root, "src"));
+  return [...found];
+}
+
+async function getDepsHash(root: string, config: OptimizeDepsConfig): Promise<string> {
+  const hash = createHash("sha256");
+  let lockfile: string | null = null;
+  for (let current = root; !lockfile; current = path.dirname(current)) {
+    for (const name of LOCKFILES) {
+      try {
+        hash.update(await fs.readFile(path.join(current, name)));
+        lockfile = name;
+        break;
+      } catch {
+        // try the next lockfile
+      }
+    }
+    if (path.dirname(current) === current) break;
+  }
+  // Without a lockfile, dependency versions are only known from package.json
+  if (!lockfile) {
+    hash.update(await fs.readFile(path.join(root, "package.json")).catch(() => ""));
+  }
+  hash.update(JSON.stringify({ include: config.include ?? [], exclude: config.exclude ?? [] }));
+  return hash.digest("hex").slice(0, 8);
+}
+
+async function readMetadata(dir: string): Promise<DepsMetadata | null> {
+  try {
+    const metadata: DepsMetadata = JSON.parse(await fs.readFile(path.join(dir, METADATA_FILE), "utf-8"));
+    for (const file of Object.values(metadata.files)) {
+      await fs.access(path.join(dir, file));
+    }
+    return metadata;
+  } catch {
+    return null;
+  }
+}
+
+export function getPackageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+/**
+ * package.json of an installed package, or null for workspace packages
+ * (symlinked outside node_modules) and packages that aren't installed
+ */
+export async function readThirdPartyPackage(name: string, root: string): Promise<PackageJson | null> {
+  for (let current = root; ; current = path.dirname(current)) {
+    const pkgDir = path.join(current, "node_modules", name);
+    try {
+      const realDir = await fs.realpath(pkgDir);
+      if (!realDir.split(path.sep).includes("node_modules")) return null;
+      return JSON.parse(await fs.readFile(path.join(realDir, "package.json"), "utf-8"));
+    } catch {
+      // not installed at this level
+    }
+    if (path.dirname(current) === current) return null;
+  }
+}
+
+export function isCommonJs(pkg: PackageJson): boolean {
+  if (pkg.type === "module" || pkg.module || /\.mjs$/.test(pkg.main ?? "")) return false;
+  return !hasImportCondition(pkg.exports);
+}
+
+function hasImportCondition(exports: unknown): boolean {
+  if (!exports || typeof exports !== "object") return false;
+  return Object.entries(exports).some(([key, value]) => key === "import" || hasImportCondition(value));
+}
+
+// Modules in the import's bundle, or 0 when esbuild can't bundle it
+async function countModules(specifier: string, root: string): Promise<number> {
+  const esbuild = await import("esbuild");
+  try {
+    const result = await esbuild.build({
+      entryPoints: [specifier],
+      bundle: true,
+      write: false,
+      metafile: true,
+      format: "esm",
+      platform: "browser",
+      absWorkingDir: root,
+      logLevel: "silent",
+    });
+    return Object.keys(result.metafile.inputs).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * esbuild only gives a CommonJS entry a default export. Re-export its
+ * properties by name too, read by loading the package in Node.
+ */
+function commonJsEntries(specifiers: Set<string>, root: string): Plugin {
+  return {
+    name: "swite-commonjs-entries",
+    setup(build) {
+      build.onResolve({ filter: /.*/ }, (args) =>
+        args.kind === "entry-point" && specifiers.has(args.path)
+          ? { path: args.path, namespace: "swite-commonjs-entry" }
+          : undefined,
+      );
+      build.onLoad({ filter: /.*/, namespace: "swite-commonjs-entry" }, (args) => {
+        const names = getCommonJsExports(args.path, root);
+        const source = JSON.stringify(args.path);
+        const lines = [`import * as m from ${source};`, "export default m.default;"];
+        if (names.length > 0) lines.push(`export const { ${names.join(", ")} } = m;`);
+        return { contents: lines.join("\n"), resolveDir: root, loader: "js" };
+      });
+    },
+  };
+}
+
+function getCommonJsExports(specifier: string, root: string): string[] {
+  try {
+    const exports = createRequire(path.join(root, "package.json"))(specifier);
+    if (!exports || (typeof exports !== "object" && typeof exports !== "function")) return [];
+    return Object.keys(exports).filter(
+      (name) => IDENTIFIER.test(name) && !RESERVED.has(name) && name !== "__esModule",
+    );
+  } catch {
+    console.warn(chalk.yellow(`[deps] Could not load ${specifier} in Node; only its default export is available`));
+    return [];
+  }
+}
@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import type { ModuleResolver } from "../../resolution/resolver.js";
+import {
+  bundleDeps,
+  getPackageName,
+  isCommonJs,
+  readThirdPartyPackage,
+  scanBareImports,
+} from "./dep-optimizer.js";
+
+export interface VendoredDeps {
+  // Hash of the vendored files and package versions
+  hash: string;
+  dir: string;
+  // Bare import specifier -> bundle file name in dir
+  files: Record<string, string>;
+}
+
+interface VendorMetadata {
+  hash: string;
+  files: Record<string, string>;
+  // Package name -> version bundled, from node_modules
+  versions: Record<string, string>;
+}
+
+export interface VendorResult {
+  // null when nothing was vendored
+  vendored: VendoredDeps | null;
+  versions: Record<string, string>;
+  // Imports whose package isn't installed in node_modules
+  missing: string[];
+}
+
+export const VENDOR_URL_PREFIX = "/.swite/vendor/";
+
+const METADATA_FILE = "_metadata.json";
+
+/**
+ * Bare imports in `src/` that the resolver can only serve from the CDN.
+ * Imports that fail to resolve for other reasons aren't included.
+ */
+export async function findCdnFallbacks(root: string, resolver: ModuleResolver): Promise<string[]> {
+  const fallbacks: string[] = [];
+  for (const specifier of await scanBareImports(root)) {
+    try {
+      if ((await resolver.resolve(specifier, "/index.html")) === resolver.getCdnUrl(specifier)) {
+        fallbacks.push(specifier);
+      }
+    } catch {
+      // not a CDN fallback
+    }
+  }
+  return fallbacks.sort();
+}
+
+/**
+ * Bundle imports into `.swite/vendor` from the packages installed in
+ * node_modules, i.e. the versions in the lockfile, so the dev server serves
+ * them instead of falling back to the CDN. Replaces anything vendored
+ * before. Throws when esbuild fails.
+ */
+export async function vendorDeps(root: string, specifiers: string[]): Promise<VendorResult> {
+  const dir = path.join(root, ".swite", "vendor");
+  const files: Record<string, string> = {};
+  const versions: Record<string, string> = {};
+  const commonJs = new Set<string>();
+  const missing: string[] = [];
+  for (const specifier of [...new Set(specifiers)].sort()) {
+    const name = getPackageName(specifier);
+    const pkg = await readThirdPartyPackage(name, root);
+    if (!pkg) {
+      missing.push(specifier);
+      continue;
+    }
+    files[specifier] = `${specifier.replace(/\//g, "_")}.js`;
+    versions[name] = pkg.version ?? "0.0.0";
+    if (isCommonJs(pkg)) commonJs.add(specifier);
+  }
+
+  await fs.rm(dir, { recursive: true, force: true });
+  if (Object.keys(files).length === 0) return { vendored: null, versions, missing };
+
+  await bundleDeps(root, dir, files, commonJs);
+  const hash = createHash("sha256").update(JSON.stringify({ files, versions })).digest("hex").slice(0, 8);
+  const metadata: VendorMetadata = { hash, files, versions };
+  await fs.writeFile(path.join(dir, METADATA_FILE), JSON.stringify(metadata, null, 2));
+  return { vendored: { hash, dir, files }, versions, missing };
+}
+
+/**
+ * Read what `swite vendor` bundled, or null when nothing was. Warns when
+ * node_modules has since moved to other versions; the vendored copies are
+ * still served until `swite vendor` is run again.
+ */
+export async function loadVendoredDeps(root: string): Promise<VendoredDeps | null> {
+  const dir = path.join(root, ".swite", "vendor");
+  let metadata: VendorMetadata;
+  try {
+    metadata = JSON.parse(await fs.readFile(path.join(dir, METADATA_FILE), "utf-8"));
+    for (const file of Object.values(metadata.files)) {
+      await fs.access(path.join(dir, file));
+    }
+  } catch {
+    return null;
+  }
+
+  const changed: string[] = [];
+  for (const [name, version] of Object.entries(metadata.versions)) {
+    const pkg = await readThirdPartyPackage(name, root);
+    if (pkg && pkg.version !== version) changed.push(`${name} (${version} vendored, ${pkg.version} installed)`);
+  }
+  if (changed.length > 0) {
+    console.warn(
+      chalk.yellow(`[vendor] ${changed.join(", ")} changed since vendoring; run "swite vendor" to update .swite/vendor`),
+    );
+  }
+  return { hash: metadata.hash, dir, files: metadata.files };
+}
@@ -0,0 +1,31 @@
+export interface SourceLocation {
+  // 1-based, as shown by editors
+  line: number;
+  column: number;
+}
+
+export class SwiteTransformError extends Error {
+  readonly file: string;
+  // Stage that failed: "compiler", "esbuild" or "resolve"
+  readonly plugin: string;
+  readonly loc: SourceLocation | null;
+  readonly frame: string | null;
+
+  constructor(
+    message: string,
+    options: {
+      file: string;
+      plugin: string;
+      loc?: SourceLocation | null;
+      frame?: string | null;
+    },
+  ) {
+    super(message);
+    this.name = "SwiteTransformError";
+    this.file = options.file;
+    this.plugin = options.plugin;
+    this.loc = options.loc ?? null;
+    this.frame = options.frame ?? null;
+    Object.setPrototypeOf(this, SwiteTransformError.prototype);
+  }
+}
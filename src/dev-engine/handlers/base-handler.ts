@@ -8,12 +8,20 @@ import type { Response } from "express";
 import { promises as fs } from "node:fs";
 import { ModuleResolver } from "../../resolution/resolver.js";
 import { resolveFilePath } from "../../resolution/path/file-path-resolver.js";
+import type { PluginContainer } from "../../internal/plugins/plugin-container.js";
+import { composeSourceMaps } from "../../internal/sourcemap/source-map.js";
+import type { ModuleGraph } from "../hmr/module-graph.js";
+import { analyzeImportsForHmr } from "../hmr/import-analysis.js";
 
 export interface HandlerContext {
   resolver: ModuleResolver;
   root: string;
   workspaceRoot: string | null;
   env: Record<string, string>;
+  // Present in the dev server; records imports for HMR propagation
+  moduleGraph?: ModuleGraph;
+  // Plugins from swiss.config.ts
+  plugins?: PluginContainer;
 }
 
 /**
@@ -46,23 +54,31 @@ export class BaseHandler {
     }
   }
 
-  protected async getDependencies(compiled: string): Promise<string[]> {
-    const deps: string[] = [];
-    const importPattern = /(?:import|from|export).*['"]([^'"]+)['"]/g;
-    let match;
-    while ((match = importPattern.exec(compiled)) !== null) {
-      const specifier = match[1];
-      if (specifier.startsWith("/") || specifier.startsWith("@")) {
-        try {
-          const resolved = await this.context.resolver.resolve(specifier, "");
-          if (resolved && !resolved.startsWith("http")) {
-            deps.push(resolved);
-          }
-        } catch {
-          // ignore resolution errors during dependency tracking
-        }
-      }
-    }
-    return deps;
+  /**
+   * Last step before sending a module: record its imports in the module
+   * graph and wire up import.meta.hot. Runs on cache hits too, since the
+   * output depends on which modules have been hot-updated.
+   */
+  protected async analyzeForHmr(code: string, url: string, filePath: string): Promise<string> {
+    if (!this.context.moduleGraph) return code;
+    return analyzeImportsForHmr(code, url, filePath, this.context.moduleGraph);
+  }
+
+  /**
+   * Run plugins' transform hooks over a module's JavaScript, before import
+   * rewriting. `map` (esbuild's, as a string) maps `code` to the source; the
+   * returned map still does, keeping `map` when a plugin gave none.
+   */
+  protected async transformWithPlugins(
+    code: string,
+    filePath: string,
+    map?: string,
+  ): Promise<{ code: string; map?: string }> {
+    if (!this.context.plugins?.has("transform")) return { code, map };
+    const result = await this.context.plugins.transform(code, filePath);
+    return {
+      code: result.code,
+      map: result.map && map ? JSON.stringify(composeSourceMaps(result.map, JSON.parse(map))) : map,
+    };
   }
 }
@@ -0,0 +1,71 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import type { UiCompiler } from "@swissjs/compiler";
+import { inlineEnvReferences } from "../../config/env.js";
+import { fixSwissLibPaths } from "../../resolution/path/path-fixup.js";
+import { extractInlineSourceMap } from "../../internal/sourcemap/source-map.js";
+import type { CompiledModule } from "../../internal/cache/compilation-cache.js";
+import { toTransformError } from "../hmr/error-payload.js";
+
+export interface CompileComponentOptions {
+  compiler: UiCompiler;
+  env: Record<string, string>;
+  // Sets import.meta.env.SSR
+  ssr: boolean;
+  // Plugins' transform hooks; `map` maps `code` to the compiler output, and
+  // the returned map must too
+  transform: (code: string, map: string) => Promise<{ code: string; map?: string }>;
+}
+
+/**
+ * Compile a .ui/.uix component up to (not including) import rewriting, the
+ * same way for the browser handlers and the SSR loader: the Swiss compiler,
+ * esbuild's TypeScript transform, plugins' transform hooks, then the Swiss
+ * lib path fixes and env inlining.
+ */
+export async function compileComponent(
+  source: string,
+  filePath: string,
+  options: CompileComponentOptions,
+): Promise<CompiledModule> {
+  // The compiler may append an inline map from the source to its output
+  const compilerOutput = extractInlineSourceMap(
+    await options.compiler.compileAsync(source, filePath).catch((error: unknown) => {
+      throw toTransformError(error, filePath, source, "compiler");
+    }),
+  );
+
+  const esbuild = await import("esbuild");
+  const tsResult = await esbuild
+    .transform(compilerOutput.code, {
+      loader: "ts",
+      format: "esm",
+      target: "esnext",
+      sourcefile: filePath,
+      sourcemap: "external",
+    })
+    .catch((error: unknown) => {
+      // esbuild locations point into the compiler output, so frame that
+      throw toTransformError(error, filePath, compilerOutput.code, "esbuild");
+    });
+
+  // Plugins see the same JavaScript for every kind of module
+  const transformed = await options.transform(tsResult.code, tsResult.map);
+  // Fix compiler-emitted wrong paths before import rewriting
+  const code = inlineEnvReferences(
+    fixSwissLibPaths(transformed.code),
+    options.env,
+    "development",
+    options.ssr,
+  );
+  return {
+    code,
+    transformed: transformed.code,
+    map: transformed.map ?? tsResult.map,
+    compilerMap: compilerOutput.map,
+  };
+}
@@ -0,0 +1,114 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import type { Response } from "express";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import {
+  getCssModuleId,
+  isCssModule,
+  scopeCssModule,
+} from "../../internal/css/css-modules.js";
+import {
+  BaseHandler,
+  setDevHeaders,
+  type HandlerContext,
+} from "./base-handler.js";
+
+/**
+ * True for `*.css?import` — a stylesheet imported from JavaScript. The import
+ * rewriter adds the `import` query so these can be told apart from
+ * `<link rel="stylesheet">` requests, which still get plain CSS.
+ */
+export function isCssImportRequest(requestUrl: string): boolean {
+  const [pathname, query = ""] = requestUrl.split("?");
+  return pathname.endsWith(".css") && new URLSearchParams(query).has("import");
+}
+
+/**
+ * Serves an imported stylesheet as a JS module that injects it into the page
+ * as a `<style>` tag. The module accepts its own HMR updates, so editing the
+ * file swaps the tag's contents without reloading or re-running importers.
+ *
+ * `*.module.css` files are scoped first and export their class-name map as
+ * the default export.
+ */
+export class CSSHandler extends BaseHandler {
+  constructor(context: HandlerContext) {
+    super(context);
+  }
+
+  async handle(url: string, res: Response): Promise<void> {
+    const filePath = await this.resolveFilePath(url);
+    console.log(chalk.blue(`[.css] ${url}`));
+
+    const source = await fs.readFile(filePath, "utf-8");
+    const css = rewriteCssUrls(source, url);
+
+    const lines = [
+      `import { updateStyle } from "/__swite_hmr_client";`,
+      `const id = ${JSON.stringify(url)};`,
+    ];
+    if (isCssModule(url)) {
+      const scoped = scopeCssModule(css, await getCssModuleId(filePath));
+      lines.push(
+        `const css = ${JSON.stringify(scoped.css)};`,
+        `const classes = ${JSON.stringify(scoped.exports)};`,
+        `updateStyle(id, css);`,
+        // Scoped names don't change between edits, so importers only need to
+        // re-run when a class is added or removed
+        `import.meta.hot.accept((mod) => {`,
+        `  if (mod && JSON.stringify(mod.default) !== JSON.stringify(classes)) import.meta.hot.invalidate();`,
+        `});`,
+        `export default classes;`,
+      );
+    } else {
+      lines.push(
+        `const css = ${JSON.stringify(css)};`,
+        `updateStyle(id, css);`,
+        `import.meta.hot.accept();`,
+        `export default css;`,
+      );
+    }
+    const code = lines.join("\n") + "\n";
+
+    const served = await this.analyzeForHmr(code, url, filePath);
+
+    setDevHeaders(res);
+    res.setHeader("Content-Type", "application/javascript; charset=utf-8");
+    res.send(served);
+  }
+}
+
+/**
+ * A `<style>` tag resolves relative `url()` and `@import` references against
+ * the page rather than the stylesheet, so make them absolute from `url`.
+ */
+export function rewriteCssUrls(css: string, url: string): string {
+  const dir = path.posix.dirname(url);
+  const toAbsolute = (ref: string): string =>
+    isRelativeCssRef(ref) ? path.posix.join(dir, ref) : ref;
+
+  return css
+    .replace(
+      /\burl\(\s*(["']?)([^"')]+)\1\s*\)/g,
+      (_match, quote: string, ref: string) => `url(${quote}${toAbsolute(ref.trim())}${quote})`,
+    )
+    .replace(
+      /@import\s+(["'])([^"']+)\1/g,
+      (_match, quote: string, ref: string) => `@import ${quote}${toAbsolute(ref)}${quote}`,
+    );
+}
+
+function isRelativeCssRef(ref: string): boolean {
+  return !(
+    ref.startsWith("/") ||
+    ref.startsWith("#") ||
+    // data:, http:, https:, blob: ...
+    /^[a-z][a-z0-9+.-]*:/i.test(ref)
+  );
+}
@@ -104,8 +104,9 @@ export class JSHandler extends BaseHandler {
       }
     }
 
+    const { code } = await this.transformWithPlugins(source, filePath);
     const rewritten = await rewriteImports(
-      source,
+      code,
       filePath,
       this.context.resolver,
     );
@@ -50,8 +50,9 @@ export class MJSHandler extends BaseHandler {
 
     // .mjs file exists, process it normally
     const source = await fs.readFile(filePath, "utf-8");
+    const { code } = await this.transformWithPlugins(source, filePath);
     const rewritten = await rewriteImports(
-      source,
+      code,
       filePath,
       this.context.resolver,
     );
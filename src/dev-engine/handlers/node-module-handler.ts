@@ -14,7 +14,6 @@ import { UIHandler } from "./ui-handler.js";
 import { UIXHandler } from "./uix-handler.js";
 import { TSHandler } from "./ts-handler.js";
 import { findWorkspaceRoot } from "../../kernel/workspace.js";
-import { shouldUseCdnFallback } from "../../resolution/cdn/cdn-fallback.js";
 
 export class NodeModuleHandler extends BaseHandler {
   private uiHandler: UIHandler;
@@ -307,8 +306,8 @@ export class NodeModuleHandler extends BaseHandler {
 
   /**
    * Get CDN URL for a /node_modules/... request when the file is not found locally.
-   * Uses jsDelivr (+esm) for reliable ESM delivery; esm.sh can return 500 for some packages.
-   * e.g. /node_modules/reflect-metadata/Reflect.js -> https://cdn.jsdelivr.net/npm/reflect-metadata/+esm
+   * Uses the resolve.cdn provider, jsDelivr (+esm) by default, pinned to the lockfile version.
+   * e.g. /node_modules/reflect-metadata/Reflect.js -> https://cdn.jsdelivr.net/npm/reflect-metadata@0.2.2/+esm
    */
   private getNodeModuleCdnRedirect(url: string): string | null {
     const prefix = "/node_modules/";
@@ -332,8 +331,8 @@ export class NodeModuleHandler extends BaseHandler {
     }
 
     if (!pkgName || pkgName === "." || pkgName === "..") return null;
-    if (!shouldUseCdnFallback(pkgName)) return null;
+    if (!this.context.resolver.allowsCdnFallback(pkgName)) return null;
     // jsDelivr +esm serves ESM build; works for reflect-metadata and most npm packages
-    return `https://cdn.jsdelivr.net/npm/${pkgName}/+esm`;
+    return this.context.resolver.getCdnUrl(pkgName);
   }
 }
@@ -0,0 +1,63 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import type { Response } from "express";
+import chalk from "chalk";
+import { rewriteImports } from "../../resolution/rewriting/import-rewriter.js";
+import { inlineEnvReferences } from "../../config/env.js";
+import { VIRTUAL_MODULE_PREFIX } from "../../internal/plugins/plugin-container.js";
+import {
+  adjustForLineRewrites,
+  appendInlineSourceMap,
+  composeSourceMaps,
+} from "../../internal/sourcemap/source-map.js";
+import { BaseHandler, setDevHeaders } from "./base-handler.js";
+
+/**
+ * Serves modules that a plugin's load hook provides: custom file types
+ * (.mdx, .svg, ...) and virtual modules under /@id/.
+ */
+export class PluginHandler extends BaseHandler {
+  /**
+   * Returns false when no plugin loads `url`, leaving it to the other handlers.
+   */
+  async handle(url: string, res: Response): Promise<boolean> {
+    const plugins = this.context.plugins;
+    if (!plugins?.has("load")) return false;
+
+    const isVirtual = url.startsWith(VIRTUAL_MODULE_PREFIX);
+    const id = isVirtual
+      ? decodeURIComponent(url.slice(VIRTUAL_MODULE_PREFIX.length))
+      : await this.resolveFilePath(url);
+
+    const loaded = await plugins.load(id);
+    if (!loaded) {
+      if (isVirtual) throw new Error(`No plugin loaded the virtual module ${id}`);
+      return false;
+    }
+    console.log(chalk.blue(`[plugin] ${url} → ${id}`));
+
+    const transformed = await plugins.transform(loaded.code, id);
+    const map =
+      transformed.code === loaded.code
+        ? loaded.map
+        : transformed.map && loaded.map
+          ? composeSourceMaps(transformed.map, loaded.map)
+          : transformed.map;
+
+    const inlined = inlineEnvReferences(transformed.code, this.context.env);
+    const rewritten = await rewriteImports(inlined, id, this.context.resolver);
+    const code = map
+      ? appendInlineSourceMap(rewritten, adjustForLineRewrites(map, transformed.code, rewritten))
+      : rewritten;
+
+    const served = await this.analyzeForHmr(code, url, id);
+    setDevHeaders(res);
+    res.setHeader("Content-Type", "application/javascript; charset=utf-8");
+    res.send(served);
+    return true;
+  }
+}
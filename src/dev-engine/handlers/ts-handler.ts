@@ -9,7 +9,15 @@ import { promises as fs } from "node:fs";
 import chalk from "chalk";
 import { rewriteImports } from "../../resolution/rewriting/import-rewriter.js";
 import { inlineEnvReferences } from "../../config/env.js";
-import { compilationCache } from "../../internal/cache/compilation-cache.js";
+import {
+  compilationCache,
+  type CompiledModule,
+} from "../../internal/cache/compilation-cache.js";
+import { toTransformError } from "../hmr/error-payload.js";
+import {
+  appendInlineSourceMap,
+  buildServedSourceMap,
+} from "../../internal/sourcemap/source-map.js";
 import {
   BaseHandler,
   setDevHeaders,
@@ -80,43 +88,40 @@ export class TSHandler extends BaseHandler {
     }
 
     // Check cache first
-    const cached = await compilationCache.get(
-      filePath,
-      (compiled) => this.getDependencies(compiled),
-    );
+    const cached = await compilationCache.get(filePath);
     if (cached) {
+      const served = await this.analyzeForHmr(cached, url, filePath);
       setDevHeaders(res);
       res.setHeader("Content-Type", "application/javascript; charset=utf-8");
-      res.send(cached);
+      res.send(served);
       return;
     }
 
-    // Cache miss - compile
+    // Cache miss - compile, unless an earlier run did
     const source = await fs.readFile(filePath, "utf-8");
+    const compiled =
+      (await compilationCache.getCompiled(filePath, source)) ??
+      (await this.compile(source, filePath));
 
-    // Use esbuild for fast TS transformation
-    const esbuild = await import("esbuild");
-    const result = await esbuild.transform(source, {
-      loader: "ts",
-      format: "esm",
-      target: "esnext",
-      sourcefile: filePath,
-    });
-
-    const inlined = inlineEnvReferences(result.code, this.context.env);
     const rewritten = await rewriteImports(
-      inlined,
+      compiled.code,
       filePath,
       this.context.resolver,
     );
 
-    await compilationCache.set(
-      filePath,
-      result.code,
+    const mappedCode = appendInlineSourceMap(
       rewritten,
-      (compiled) => this.getDependencies(compiled),
+      buildServedSourceMap({
+        transformMap: compiled.map,
+        transformed: compiled.transformed,
+        served: rewritten,
+        file: filePath,
+        content: source,
+      }),
     );
 
+    await compilationCache.set(filePath, compiled, mappedCode, source);
+
     // Debug: Check for bare imports after rewriting
     const bareImportPattern =
       /(?:import|from|export).*['"](@[^'"]+\/[^'"]+)(?!\/)[^'"]*['"]/;
@@ -136,8 +141,34 @@ export class TSHandler extends BaseHandler {
       }
     }
 
+    const served = await this.analyzeForHmr(mappedCode, url, filePath);
+
     setDevHeaders(res);
     res.setHeader("Content-Type", "application/javascript; charset=utf-8");
-    res.send(rewritten);
+    res.send(served);
+  }
+
+  private async compile(source: string, filePath: string): Promise<CompiledModule> {
+    // Use esbuild for fast TS transformation
+    const esbuild = await import("esbuild");
+    const result = await esbuild
+      .transform(source, {
+        loader: "ts",
+        format: "esm",
+        target: "esnext",
+        sourcefile: filePath,
+        sourcemap: "external",
+      })
+      .catch((error: unknown) => {
+        throw toTransformError(error, filePath, source, "esbuild");
+      });
+
+    const transformed = await this.transformWithPlugins(result.code, filePath, result.map);
+    return {
+      code: inlineEnvReferences(transformed.code, this.context.env),
+      transformed: transformed.code,
+      map: transformed.map ?? result.map,
+      compilerMap: null,
+    };
   }
 }
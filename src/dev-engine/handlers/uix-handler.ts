@@ -9,14 +9,19 @@ import { promises as fs } from "node:fs";
 import { UiCompiler } from "@swissjs/compiler";
 import chalk from "chalk";
 import { rewriteImports } from "../../resolution/rewriting/import-rewriter.js";
-import { inlineEnvReferences } from "../../config/env.js";
 import { compilationCache } from "../../internal/cache/compilation-cache.js";
 import { fixSwissLibPaths } from "../../resolution/path/path-fixup.js";
+import { unresolvedImportError } from "../hmr/error-payload.js";
+import {
+  appendInlineSourceMap,
+  buildServedSourceMap,
+} from "../../internal/sourcemap/source-map.js";
 import {
   BaseHandler,
   setDevHeaders,
   type HandlerContext,
 } from "./base-handler.js";
+import { compileComponent } from "./compile-component.js";
 
 export class UIXHandler extends BaseHandler {
   private compiler = new UiCompiler();
@@ -30,41 +35,26 @@ export class UIXHandler extends BaseHandler {
     console.log(chalk.blue(`[.uix] ${url}`));
 
     // Cache hit
-    const cached = await compilationCache.get(filePath, (compiled) => this.getDependencies(compiled));
+    const cached = await compilationCache.get(filePath);
     if (cached) {
-      const fixed = fixSwissLibPaths(cached);
+      const fixed = await this.analyzeForHmr(fixSwissLibPaths(cached), url, filePath);
       setDevHeaders(res);
       res.setHeader("Content-Type", "application/javascript; charset=utf-8");
       res.send(fixed);
       return;
     }
 
-    // Cache miss — compile
+    // Cache miss — compile, unless an earlier run did
     const source = await fs.readFile(filePath, "utf-8");
-    let compiled = await this.compiler.compileAsync(source, filePath);
-
-    const esbuild = await import("esbuild");
-    const tsResult = await esbuild.transform(compiled, {
-      loader: "ts",
-      format: "esm",
-      target: "esnext",
-      sourcefile: filePath,
-    });
-    compiled = tsResult.code;
-
-    // Fix compiler-emitted wrong paths before import rewriting
-    compiled = fixSwissLibPaths(compiled);
-
-    // Inline import.meta.env references before import rewriting
-    compiled = inlineEnvReferences(compiled, this.context.env);
-
-    // Strip CSS static-asset imports — they are not ES modules
-    const beforeCss = compiled;
-    compiled = compiled.replace(/^[^\S\r\n]*import\s[^'"]*['"][^'"]*\.css['"]\s*;?[^\S\r\n]*$/gm, "");
-    compiled = compiled.replace(/\bimport\s*\(\s*['"][^'"]*\.css['"]\s*\)/g, "undefined");
-    if (beforeCss !== compiled) {
-      console.log(chalk.blue(`[.uix] Stripped CSS imports from ${url}`));
-    }
+    const component =
+      (await compilationCache.getCompiled(filePath, source)) ??
+      (await compileComponent(source, filePath, {
+        compiler: this.compiler,
+        env: this.context.env,
+        ssr: false,
+        transform: (code, map) => this.transformWithPlugins(code, filePath, map),
+      }));
+    const compiled = component.code;
 
     const bareImportPattern = /(?:import|from|export).*['"](@[^'"]+\/[^'"]+)(?!\/)[^'"]*['"]/;
     if (bareImportPattern.test(compiled)) {
@@ -74,17 +64,34 @@ export class UIXHandler extends BaseHandler {
     const rewritten = await rewriteImports(compiled, filePath, this.context.resolver);
     const finalCode = fixSwissLibPaths(rewritten);
 
-    await compilationCache.set(filePath, compiled, finalCode, (c) => this.getDependencies(c));
-
-    if (bareImportPattern.test(finalCode)) {
+    const unresolved = bareImportPattern.exec(finalCode);
+    if (unresolved) {
       console.error(`[.uix] Bare imports still present after rewriting: ${url}`);
       for (const m of Array.from(rewritten.matchAll(/(?:import|from|export).*['"](@[^'"]+\/[^'"]+)(?!\/)[^'"]*['"]/g)).slice(0, 3)) {
         console.error(`[.uix] Unresolved import: ${m[1]}`);
       }
+      // Not cached: the next request retries resolution
+      throw unresolvedImportError(unresolved[1], url, filePath, source);
     }
 
+    // Without a compiler map, DevTools shows the compiler's TSX output under
+    // the source file's name — still readable, with correct line numbers.
+    const mappedCode = appendInlineSourceMap(
+      finalCode,
+      buildServedSourceMap({
+        transformMap: component.map,
+        inputMap: component.compilerMap,
+        transformed: component.transformed,
+        served: finalCode,
+        file: filePath,
+        content: source,
+      }),
+    );
+
+    await compilationCache.set(filePath, component, mappedCode, source);
+
     setDevHeaders(res);
     res.setHeader("Content-Type", "application/javascript; charset=utf-8");
-    res.send(finalCode);
+    res.send(await this.analyzeForHmr(mappedCode, url, filePath));
   }
 }
@@ -0,0 +1,182 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import {
+  SwiteTransformError,
+  type SourceLocation,
+} from "../handlers/SwiteTransformError.js";
+import type { ModuleGraph } from "./module-graph.js";
+
+/**
+ * Error pushed to the browser over the HMR socket and rendered by the
+ * client's error overlay.
+ */
+export interface HmrErrorPayload {
+  message: string;
+  plugin: string;
+  // URL the browser requested
+  url: string;
+  file: string | null;
+  loc: SourceLocation | null;
+  frame: string | null;
+  // Module URLs from the entry down to the failing module
+  importChain: string[];
+  stack: string | null;
+}
+
+/**
+ * Wrap an error thrown while transforming `code` so it carries the file,
+ * location and a code frame. Understands esbuild failures and the
+ * `loc`/`line`/`column` shapes compilers commonly attach.
+ */
+export function toTransformError(
+  error: unknown,
+  file: string,
+  code: string,
+  plugin: string,
+): SwiteTransformError {
+  if (error instanceof SwiteTransformError) return error;
+
+  const esbuildMessage = (error as { errors?: Array<{ text?: string }> })?.errors?.[0]?.text;
+  const message =
+    esbuildMessage ?? (error instanceof Error ? error.message : String(error));
+  const loc = extractLocation(error);
+
+  const wrapped = new SwiteTransformError(message, {
+    file,
+    plugin,
+    loc,
+    frame: loc ? generateCodeFrame(code, loc.line, loc.column) : null,
+  });
+  if (error instanceof Error && error.stack) wrapped.stack = error.stack;
+  return wrapped;
+}
+
+/**
+ * Error for an import the resolver could not map to a URL. The location is
+ * looked up in the original source so it points at what the user wrote.
+ */
+export function unresolvedImportError(
+  specifier: string,
+  url: string,
+  file: string,
+  source: string,
+): SwiteTransformError {
+  let loc: SourceLocation | null = null;
+  const match = new RegExp(`["']${escapeRegExp(specifier)}["']`).exec(source);
+  if (match) {
+    const before = source.slice(0, match.index + 1);
+    const lines = before.split("\n");
+    loc = { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+
+  return new SwiteTransformError(
+    `Failed to resolve import "${specifier}" from "${url}". Is the package installed?`,
+    {
+      file,
+      plugin: "resolve",
+      loc,
+      frame: loc ? generateCodeFrame(source, loc.line, loc.column) : null,
+    },
+  );
+}
+
+export function buildErrorPayload(
+  error: unknown,
+  url: string,
+  graph: ModuleGraph,
+): HmrErrorPayload {
+  const transformError = error instanceof SwiteTransformError ? error : null;
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    plugin: transformError?.plugin ?? "server",
+    url,
+    file: transformError?.file ?? graph.getModuleByUrl(url)?.file ?? null,
+    loc: transformError?.loc ?? null,
+    frame: transformError?.frame ?? null,
+    importChain: getImportChain(url, graph),
+    stack: error instanceof Error ? error.stack ?? null : null,
+  };
+}
+
+/**
+ * Show two lines of context either side of `line`, with a caret under
+ * `column` (both 1-based).
+ */
+export function generateCodeFrame(
+  source: string,
+  line: number,
+  column: number,
+  range = 2,
+): string {
+  const lines = source.split(/\r?\n/);
+  const start = Math.max(1, line - range);
+  const end = Math.min(lines.length, line + range);
+  const width = String(end).length;
+
+  const frame: string[] = [];
+  for (let n = start; n <= end; n++) {
+    const marker = n === line ? ">" : " ";
+    frame.push(`${marker} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+    if (n === line) {
+      frame.push(`  ${" ".repeat(width)} | ${" ".repeat(Math.max(0, column - 1))}^`);
+    }
+  }
+  return frame.join("\n");
+}
+
+// Follow the first importer at each step; good enough to show how the
+// failing module was reached without listing every path.
+function getImportChain(url: string, graph: ModuleGraph): string[] {
+  const chain: string[] = [];
+  let mod = graph.getModuleByUrl(url);
+  const seen = new Set<string>();
+  while (mod && !seen.has(mod.url)) {
+    seen.add(mod.url);
+    chain.unshift(mod.url);
+    mod = mod.importers.values().next().value;
+  }
+  return chain.length > 0 ? chain : [url];
+}
+
+/**
+ * Find the 1-based line and column a compiler error points at, from
+ * esbuild's `errors[0].location`, a Babel-style `loc`/`location` object or
+ * `line`/`column` on the error itself, or a `(line:column)` in the message.
+ */
+export function extractLocation(error: unknown): SourceLocation | null {
+  if (!isRecord(error)) return null;
+
+  const esbuildError = Array.isArray(error.errors) ? error.errors[0] : undefined;
+  const esbuildLoc = isRecord(esbuildError) ? esbuildError.location : undefined;
+  if (isRecord(esbuildLoc) && typeof esbuildLoc.line === "number") {
+    return { line: esbuildLoc.line, column: toNumber(esbuildLoc.column) + 1 };
+  }
+
+  // Babel-style `loc` / `location` objects use 0-based columns
+  const loc = isRecord(error.loc) ? error.loc : isRecord(error.location) ? error.location : error;
+  if (typeof loc.line === "number") {
+    return { line: loc.line, column: toNumber(loc.column ?? loc.col) + 1 };
+  }
+
+  const match = /\((\d+):(\d+)\)/.exec(typeof error.message === "string" ? error.message : "");
+  if (match) {
+    return { line: Number(match[1]), column: Number(match[2]) + 1 };
+  }
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === "number" ? value : 0;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
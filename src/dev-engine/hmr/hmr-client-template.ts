@@ -5,99 +5,311 @@
  * browser pages as-is. Keeping it in a separate module rather than embedded
  * inside hmr.ts makes it editable with syntax highlighting and avoids
  * template-literal escaping issues.
+ *
+ * The client is an ES module: served modules that use `import.meta.hot`
+ * import `createHotContext` from it (see import-analysis.ts), and the page
+ * loads it with `<script type="module">`. Which module handles an update is
+ * decided on the server from the module graph; the client only runs the
+ * matching accept/dispose callbacks.
+ *
+ * Imported stylesheets are served as modules that call `updateStyle`, so a
+ * CSS edit is an ordinary self-accepted update that replaces the module's
+ * <style> tag.
+ *
+ * Compile and resolution errors arrive as `error` messages and are shown in
+ * an overlay that is dismissable and clears on the next successful update.
+ *
+ * By default the socket connects back to the page's own origin on
+ * HMR_SOCKET_PATH, so it works behind reverse proxies and on HTTPS. Passing a
+ * port targets a dedicated HMR WebSocket server on that port instead.
  */
-export function buildHmrClientScript(port: number): string {
+export const HMR_SOCKET_PATH = "/__swite_hmr";
+
+export function buildHmrClientScript(port?: number): string {
+  const socketHost =
+    port === undefined
+      ? "window.location.host"
+      : `window.location.hostname + ':${port}'`;
+
   return `// SWITE HMR Client
 console.log('[SWITE] HMR enabled');
 
-const socket = new WebSocket('ws://' + window.location.hostname + ':${port}');
-const moduleGraph = new Map();
-const hotModules = new Map();
+const socketProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+const socket = new WebSocket(socketProtocol + '//' + ${socketHost} + '${HMR_SOCKET_PATH}');
+
+// Per-module HMR state, keyed by module URL without query string
+const hotModulesMap = new Map();
+const disposeMap = new Map();
+const dataMap = new Map();
+
+const messageBuffer = [];
+let updateQueue = Promise.resolve();
+
+const OVERLAY_ID = '__swite_error_overlay';
+// True while the last thing the server reported was an error
+let hasError = false;
 
 socket.addEventListener('open', () => {
   console.log('[SWITE] HMR connected');
+  for (const message of messageBuffer.splice(0)) {
+    socket.send(message);
+  }
 });
 
-socket.addEventListener('message', async (event) => {
+socket.addEventListener('message', (event) => {
   const data = JSON.parse(event.data);
 
   if (data.type === 'update') {
-    console.log('[SWITE] Processing update:', data.path, 'Type:', data.updateType);
-
-    if (data.updateType === 'style') {
-      updateStyles();
-      console.log('[SWITE] Styles hot updated');
-    } else if (data.updateType === 'hot') {
-      const moduleName = extractModuleName(data.path);
-
-      if (moduleName && hotModules.has(moduleName)) {
-        try {
-          invalidateModule(moduleName);
-          invalidateDependents(moduleName);
-
-          const updatedModule = await import(data.path + '?t=' + Date.now());
-          hotModules.set(moduleName, updatedModule);
-
-          updateComponent(moduleName, updatedModule);
-          console.log('[SWITE] Component hot updated:', moduleName);
-        } catch (error) {
-          console.error('[SWITE] Hot update failed:', error);
-          window.location.reload();
-        }
+    const recovering = hasError;
+    clearErrorOverlay();
+    for (const update of data.updates) {
+      if (update.type === 'css-update') {
+        updateStyles();
+        console.log('[SWITE] Styles hot updated');
       } else {
-        console.log('[SWITE] New component detected, reloading page');
-        window.location.reload();
+        // Apply in order so a later update never races an earlier one
+        updateQueue = updateQueue.then(() => fetchUpdate(update, recovering));
       }
-    } else {
-      console.log('[SWITE] Full page reload required');
-      window.location.reload();
     }
+  } else if (data.type === 'full-reload') {
+    console.log('[SWITE] Full page reload required' + (data.path ? ': ' + data.path : ''));
+    window.location.reload();
+  } else if (data.type === 'error') {
+    showErrorOverlay(data.err);
   }
 });
 
-function updateStyles() {
-  const links = document.querySelectorAll('link[rel="stylesheet"]');
-  links.forEach(link => {
-    const href = link.getAttribute('href');
-    if (href) {
-      const base = href.replace(/[?&]t=\\d+/, '');
-      link.setAttribute('href', base + (base.includes('?') ? '&' : '?') + 't=' + Date.now());
+async function fetchUpdate(update, recovering) {
+  const { path, acceptedPath, timestamp } = update;
+  const mod = hotModulesMap.get(path);
+  if (!mod) {
+    // A module that failed on page load never registered its accept
+    // callbacks; reload now that the error is fixed.
+    if (recovering) {
+      window.location.reload();
     }
-  });
+    // Otherwise the boundary has not run in this page yet (e.g. a lazy
+    // route that was never visited), so there is nothing to update.
+    return;
+  }
+
+  // Snapshot before re-importing: the new module instance registers its own
+  // callbacks, while the old instance's callbacks handle this update.
+  const callbacks = mod.callbacks.filter(({ deps }) =>
+    deps.some((dep) => sameModule(dep, acceptedPath)),
+  );
+
+  const disposer = disposeMap.get(acceptedPath);
+  if (disposer) {
+    await disposer(dataMap.get(acceptedPath));
+  }
+
+  // Stylesheets are only served as modules when asked for with ?import
+  const query = /\.css$/.test(acceptedPath) ? '?import&t=' : '?t=';
+  let fetchedModule;
+  try {
+    fetchedModule = await import(acceptedPath + query + timestamp);
+  } catch (error) {
+    // The server reports the cause through the error overlay; keep the page
+    // as it is so the next fix can be hot-applied.
+    console.error('[SWITE] Hot update failed for ' + acceptedPath, error);
+    return;
+  }
+
+  for (const { deps, fn } of callbacks) {
+    fn(deps.map((dep) => (sameModule(dep, acceptedPath) ? fetchedModule : undefined)));
+  }
+  console.log('[SWITE] Hot updated: ' + acceptedPath);
 }
 
-function extractModuleName(filePath) {
-  const parts = filePath.split('/');
-  const fileName = parts[parts.length - 1];
-  return fileName ? fileName.replace(/\\.[^.]+$/, '') : null;
+export function createHotContext(ownerPath) {
+  if (!dataMap.has(ownerPath)) {
+    dataMap.set(ownerPath, {});
+  }
+
+  // The module is (re-)executing: drop callbacks left by its previous instance
+  const existing = hotModulesMap.get(ownerPath);
+  if (existing) {
+    existing.callbacks = [];
+  }
+
+  function acceptDeps(deps, callback) {
+    const mod = hotModulesMap.get(ownerPath) || { id: ownerPath, callbacks: [] };
+    mod.callbacks.push({ deps, fn: callback || (() => {}) });
+    hotModulesMap.set(ownerPath, mod);
+  }
+
+  return {
+    get data() {
+      return dataMap.get(ownerPath);
+    },
+
+    accept(deps, callback) {
+      if (typeof deps === 'function' || deps === undefined) {
+        acceptDeps([ownerPath], ([mod]) => deps && deps(mod));
+      } else if (typeof deps === 'string') {
+        acceptDeps([resolveUrl(deps, ownerPath)], ([mod]) => callback && callback(mod));
+      } else if (Array.isArray(deps)) {
+        acceptDeps(deps.map((dep) => resolveUrl(dep, ownerPath)), callback);
+      } else {
+        throw new Error('[SWITE] import.meta.hot.accept: invalid arguments');
+      }
+    },
+
+    dispose(callback) {
+      disposeMap.set(ownerPath, callback);
+    },
+
+    invalidate(message) {
+      console.log('[SWITE] ' + ownerPath + ' invalidated' + (message ? ': ' + message : ''));
+      send({ type: 'invalidate', path: ownerPath, message });
+    },
+  };
 }
 
-function invalidateModule(moduleName) {
-  if (window.__swiss_modules__) {
-    delete window.__swiss_modules__[moduleName];
+const styleElements = new Map();
+
+export function updateStyle(id, css) {
+  let style = styleElements.get(id);
+  if (!style) {
+    style = document.createElement('style');
+    style.setAttribute('type', 'text/css');
+    style.setAttribute('data-swite-dev-id', id);
+    document.head.appendChild(style);
+    styleElements.set(id, style);
   }
+  style.textContent = css;
 }
 
-function invalidateDependents(moduleName) {
-  const dependents = moduleGraph.get(moduleName);
-  if (dependents) {
-    for (const dependent of dependents) {
-      invalidateModule(dependent);
-    }
+function send(message) {
+  const payload = JSON.stringify(message);
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(payload);
+  } else {
+    messageBuffer.push(payload);
   }
 }
 
-function updateComponent(moduleName, newModule) {
-  if (window.__swiss_instances__) {
-    const instances = window.__swiss_instances__[moduleName];
-    if (instances && Array.isArray(instances)) {
-      instances.forEach(instance => {
-        if (instance && typeof instance.update === 'function') {
-          instance.update(newModule.default || newModule);
-        }
-      });
+function resolveUrl(specifier, ownerPath) {
+  if (specifier.startsWith('.')) {
+    return new URL(specifier, window.location.origin + ownerPath).pathname;
+  }
+  return specifier.split('?')[0];
+}
+
+// The server may have rewritten \`./store.js\` to \`/src/store.ts\`
+function sameModule(a, b) {
+  const strip = (url) => url.replace(/\\.(ui|uix|ts|tsx|js|mjs|jsx)$/, '');
+  return strip(a) === strip(b);
+}
+
+function showErrorOverlay(err) {
+  clearErrorOverlay();
+  hasError = true;
+  console.error('[SWITE] ' + err.message);
+
+  const host = document.createElement('div');
+  host.id = OVERLAY_ID;
+  const root = host.attachShadow({ mode: 'open' });
+  root.innerHTML = overlayTemplate;
+
+  // textContent only — error text may contain markup from the source
+  const fill = (selector, text) => {
+    const el = root.querySelector(selector);
+    if (text) {
+      el.textContent = text;
+    } else {
+      el.remove();
     }
+  };
+  const position = err.loc ? ':' + err.loc.line + ':' + err.loc.column : '';
+  fill('.plugin', err.plugin ? '[' + err.plugin + '] ' : '');
+  fill('.message-body', err.message);
+  fill('.file', err.file ? err.file + position : err.url);
+  fill('.frame', err.frame);
+  fill('.chain', err.importChain && err.importChain.length > 1
+    ? 'Import chain:\\n  ' + err.importChain.join('\\n  → ')
+    : '');
+  fill('.stack', err.plugin === 'server' ? err.stack : '');
+
+  const close = () => {
+    host.remove();
+    document.removeEventListener('keydown', onKeydown);
+  };
+  const onKeydown = (event) => {
+    if (event.key === 'Escape') close();
+  };
+  root.querySelector('.backdrop').addEventListener('click', (event) => {
+    if (event.target === event.currentTarget) close();
+  });
+  root.querySelector('.close').addEventListener('click', close);
+  document.addEventListener('keydown', onKeydown);
+
+  (document.body || document.documentElement).appendChild(host);
+}
+
+function clearErrorOverlay() {
+  hasError = false;
+  const existing = document.getElementById(OVERLAY_ID);
+  if (existing) existing.remove();
+}
+
+const overlayTemplate = \`
+<style>
+  .backdrop {
+    position: fixed;
+    inset: 0;
+    z-index: 99999;
+    background: rgba(0, 0, 0, 0.66);
+    overflow-y: auto;
+    font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+    font-size: 13px;
+    line-height: 1.5;
+  }
+  .window {
+    position: relative;
+    max-width: 960px;
+    margin: 48px auto;
+    padding: 24px 28px;
+    background: #181818;
+    color: #d8d8d8;
+    border-top: 6px solid #ff5555;
+    border-radius: 6px;
+    box-shadow: 0 16px 48px rgba(0, 0, 0, 0.4);
   }
+  .message { color: #ff5555; font-weight: 600; white-space: pre-wrap; margin: 0 0 12px; }
+  .plugin { color: #e2aa53; }
+  .file { color: #2dd9da; margin-bottom: 12px; white-space: pre-wrap; }
+  pre { margin: 0 0 12px; padding: 12px; background: #222; border-radius: 4px; overflow-x: auto; }
+  .chain, .stack { color: #999; }
+  .tip { color: #999; font-size: 12px; margin-top: 12px; }
+  .close {
+    position: absolute; top: 12px; right: 16px;
+    background: none; border: 0; color: #999; font-size: 20px; cursor: pointer;
+  }
+</style>
+<div class="backdrop">
+  <div class="window">
+    <button class="close" aria-label="Dismiss">×</button>
+    <p class="message"><span class="plugin"></span><span class="message-body"></span></p>
+    <div class="file"></div>
+    <pre class="frame"></pre>
+    <pre class="chain"></pre>
+    <pre class="stack"></pre>
+    <div class="tip">Click outside or press Esc to dismiss. Fix the error and save to reload.</div>
+  </div>
+</div>
+\`;
+
+function updateStyles() {
+  const links = document.querySelectorAll('link[rel="stylesheet"]');
+  links.forEach(link => {
+    const href = link.getAttribute('href');
+    if (href) {
+      const base = href.replace(/[?&]t=\\d+/, '');
+      link.setAttribute('href', base + (base.includes('?') ? '&' : '?') + 't=' + Date.now());
+    }
+  });
 }
 
 socket.addEventListener('close', () => {
@@ -107,16 +319,5 @@ socket.addEventListener('close', () => {
 socket.addEventListener('error', (error) => {
   console.error('[SWITE] HMR error:', error);
 });
-
-window.__swiss_modules__ = window.__swiss_modules__ || {};
-window.__swiss_instances__ = window.__swiss_instances__ || {};
-
-const currentScript = document.currentScript;
-if (currentScript && currentScript.src) {
-  const moduleName = extractModuleName(currentScript.src);
-  if (moduleName) {
-    window.__swiss_modules__[moduleName] = true;
-  }
-}
 `;
 }
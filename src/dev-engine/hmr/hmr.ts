@@ -4,26 +4,79 @@
 
 import * as chokidar from "chokidar";
 import { WebSocketServer, WebSocket } from "ws";
+import type { Server } from "node:http";
 import * as net from "net";
 import chalk from "chalk";
-import { buildHmrClientScript } from "./hmr-client-template.js";
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { buildHmrClientScript, HMR_SOCKET_PATH } from "./hmr-client-template.js";
+import { ModuleGraph, type ModuleNode } from "./module-graph.js";
+import { buildErrorPayload, type HmrErrorPayload } from "./error-payload.js";
+import type { PluginContainer } from "../../internal/plugins/plugin-container.js";
+
+export interface HmrUpdate {
+  type: "js-update" | "css-update";
+  // Module whose accept callback handles the update
+  path: string;
+  // Module the client re-imports
+  acceptedPath: string;
+  timestamp: number;
+}
+
+export type HmrPayload =
+  | { type: "update"; updates: HmrUpdate[] }
+  | { type: "full-reload"; path?: string }
+  | { type: "error"; err: HmrErrorPayload };
+
+// What the watcher saw happen to a file
+export type FileChangeEvent = "add" | "change" | "unlink";
+
+const STYLE_EXTS = new Set([".css", ".scss", ".sass"]);
 
 export class HMREngine {
+  readonly moduleGraph = new ModuleGraph();
   private wss!: WebSocketServer;
   private watcher?: chokidar.FSWatcher;
   private clients = new Set<WebSocket>();
-  private port: number;
+  // Notified of every changed file before clients are (server-side caches)
+  private changeListeners = new Set<(filePath: string, event: FileChangeEvent) => void>();
+  // Replayed to clients that connect after the failing request (the module
+  // load that failed usually races the socket on page load)
+  private lastError: HmrErrorPayload | null = null;
+  // Only set when a dedicated HMR port was requested; otherwise the socket
+  // shares the dev server's port via HTTP upgrade.
+  private port?: number;
 
   constructor(
     private root: string,
     hmrPort?: number,
+    // Plugins' handleHotUpdate hooks choose what a change updates
+    private plugins?: PluginContainer,
   ) {
-    this.port = hmrPort || 24678;
+    this.port = hmrPort;
     // WebSocketServer will be created in initialize() method
     // This allows async port checking before server creation
   }
 
-  async initialize(): Promise<void> {
+  async initialize(server: Server): Promise<void> {
+    if (this.port === undefined) {
+      this.wss = new WebSocketServer({ noServer: true });
+      server.on("upgrade", (req, socket, head) => {
+        const pathname = (req.url || "").split("?")[0];
+        // Leave other upgrade requests alone so proxies mounted on the same
+        // server can still handle their own WebSockets.
+        if (pathname !== HMR_SOCKET_PATH) return;
+        this.wss.handleUpgrade(req, socket, head, (ws) => {
+          this.wss.emit("connection", ws, req);
+        });
+      });
+      this.setupWebSocket();
+      console.log(
+        chalk.green(`[HMR] WebSocket attached to dev server at ${HMR_SOCKET_PATH}`),
+      );
+      return;
+    }
+
     // Check if port is available, if not find a free one
     const isAvailable = await this.checkPortAvailable(this.port);
     if (!isAvailable) {
@@ -55,6 +108,12 @@ export class HMREngine {
       this.clients.add(ws);
       console.log(chalk.green("[HMR] Client connected"));
 
+      if (this.lastError) {
+        ws.send(JSON.stringify({ type: "error", err: this.lastError }));
+      }
+
+      ws.on("message", (raw) => this.handleClientMessage(String(raw)));
+
       ws.on("close", () => {
         this.clients.delete(ws);
         console.log(chalk.gray("[HMR] Client disconnected"));
@@ -81,13 +140,13 @@ export class HMREngine {
     });
   }
 
-  getPort(): number {
+  getPort(): number | undefined {
     return this.port;
   }
 
   async start() {
     this.watcher = chokidar.watch(this.root, {
-      ignored: ["**/node_modules/**", "**/.git/**", "**/dist/**"],
+      ignored: ["**/node_modules/**", "**/.git/**", "**/dist/**", "**/.swite/**"],
       ignoreInitial: true,
       awaitWriteFinish: {
         stabilityThreshold: 100,
@@ -95,69 +154,171 @@ export class HMREngine {
       },
     });
 
-    this.watcher.on("change", (filePath) => {
+    this.watcher.on("change", async (filePath) => {
       console.log(chalk.yellow(`[HMR] ${filePath} changed`));
+      this.emitFileChange(filePath, "change");
+      if (this.plugins?.has("handleHotUpdate")) {
+        try {
+          if (await this.handleHotUpdateWithPlugins(filePath)) return;
+        } catch (error) {
+          console.error(chalk.red(`[HMR] Error handling ${filePath}:`), error);
+          this.sendError(buildErrorPayload(error, filePath, this.moduleGraph));
+          return;
+        }
+      }
+      this.notifyChange(filePath);
+    });
 
-      // Determine file type and update type
-      const fileExt = filePath.split(".").pop()?.toLowerCase();
-      const updateType = this.getUpdateType(fileExt, filePath);
+    // Nothing to update in place, but imports may resolve differently now
+    this.watcher.on("add", (filePath) => {
+      console.log(chalk.yellow(`[HMR] ${filePath} added`));
+      this.emitFileChange(filePath, "add");
+    });
 
-      this.broadcast({
-        type: "update",
-        path: filePath,
-        updateType,
-        timestamp: Date.now(),
-      });
+    this.watcher.on("unlink", (filePath) => {
+      console.log(chalk.yellow(`[HMR] ${filePath} deleted`));
+      this.emitFileChange(filePath, "unlink");
+      // Its importers fail to load now, so they can't be updated in place
+      if (this.moduleGraph.getModulesByFile(filePath)?.size) {
+        this.broadcast({ type: "full-reload", path: filePath });
+      }
     });
 
     console.log(chalk.green("[HMR] Watching for file changes..."));
   }
 
+  /**
+   * Run `listener` with the absolute path of each file the watcher sees
+   * added, changed or deleted. Returns a function that removes it.
+   */
+  onFileChange(listener: (filePath: string, event: FileChangeEvent) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  private emitFileChange(filePath: string, event: FileChangeEvent): void {
+    for (const listener of this.changeListeners) listener(path.resolve(filePath), event);
+  }
+
+  /**
+   * Push the update for a changed file. Which modules re-execute is decided
+   * by walking the module graph up to the nearest import.meta.hot.accept()
+   * boundaries; files the browser never loaded as modules reload the page.
+   */
   notifyChange(filePath: string): void {
-    const fileExt = filePath.split(".").pop()?.toLowerCase();
-    const updateType = this.getUpdateType(fileExt, filePath);
-
-    this.broadcast({
-      type: "update",
-      path: filePath,
-      updateType,
-      timestamp: Date.now(),
+    const timestamp = Date.now();
+    const mods = this.moduleGraph.getModulesByFile(filePath);
+
+    // Stylesheets loaded with <link> (not imported from JS, so not in the
+    // graph) are swapped in place by re-requesting the link
+    if ((!mods || mods.size === 0) && STYLE_EXTS.has(path.extname(filePath).toLowerCase())) {
+      this.broadcast({
+        type: "update",
+        updates: [{ type: "css-update", path: filePath, acceptedPath: filePath, timestamp }],
+      });
+      return;
+    }
+
+    if (!mods || mods.size === 0) {
+      this.broadcast({ type: "full-reload", path: filePath });
+      return;
+    }
+
+    this.updateModules(mods, timestamp);
+  }
+
+  /**
+   * Let plugins pick the modules to update. Returns false when none of them
+   * changed the default, so notifyChange() should run as usual.
+   */
+  private async handleHotUpdateWithPlugins(filePath: string): Promise<boolean> {
+    const timestamp = Date.now();
+    const modules = await this.plugins!.handleHotUpdate({
+      file: path.resolve(filePath),
+      timestamp,
+      modules: Array.from(this.moduleGraph.getModulesByFile(filePath) ?? []),
+      read: () => fs.readFile(filePath, "utf-8"),
     });
+    if (!modules) return false;
+    if (modules.length > 0) this.updateModules(modules, timestamp);
+    return true;
+  }
+
+  /**
+   * Show a compile/resolution failure in the browser's error overlay. The
+   * overlay clears on the next update or reload.
+   */
+  sendError(err: HmrErrorPayload): void {
+    this.lastError = err;
+    this.broadcast({ type: "error", err });
   }
 
   getClientScript(): string {
     return buildHmrClientScript(this.port);
   }
 
-  private getUpdateType(
-    fileExt?: string,
-    filePath?: string,
-  ): "hot" | "reload" | "style" {
-    if (!fileExt || !filePath) return "reload";
+  private updateModules(
+    mods: Iterable<ModuleNode>,
+    timestamp: number,
+    skipSelfAccept = false,
+  ): void {
+    const updates: HmrUpdate[] = [];
+    // A file served under several URLs can reach the same boundary twice
+    const seen = new Set<string>();
+    for (const mod of mods) {
+      const boundaries = this.moduleGraph.propagateUpdate(mod, timestamp, skipSelfAccept);
+      if (!boundaries) {
+        console.log(chalk.gray(`[HMR] No accepting boundary for ${mod.url}, reloading page`));
+        this.broadcast({ type: "full-reload", path: mod.url });
+        return;
+      }
+      for (const { boundary, acceptedVia } of boundaries) {
+        const key = `${boundary.url}\0${acceptedVia.url}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        updates.push({
+          type: "js-update",
+          path: boundary.url,
+          acceptedPath: acceptedVia.url,
+          timestamp,
+        });
+      }
+    }
 
-    // CSS files can be hot-swapped
-    if (fileExt === "css" || fileExt === "scss" || fileExt === "sass") {
-      return "style";
+    for (const update of updates) {
+      console.log(chalk.green(`[HMR] hot update ${update.acceptedPath} (accepted by ${update.path})`));
     }
+    this.broadcast({ type: "update", updates });
+  }
 
-    // Component files can be hot-reloaded
-    if (["js", "ts", "jsx", "tsx"].includes(fileExt)) {
-      // Check if it's in components directory
-      if (filePath.includes("/components/") || filePath.includes("/pages/")) {
-        return "hot";
-      }
+  private handleClientMessage(raw: string): void {
+    let message: { type?: string; path?: unknown; message?: unknown };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
     }
 
-    // Everything else requires full reload
-    return "reload";
+    // import.meta.hot.invalidate(): the module could not apply its own update,
+    // so propagate to its importers as if it had not accepted it.
+    if (message.type === "invalidate" && typeof message.path === "string") {
+      const reason = typeof message.message === "string" ? `: ${message.message}` : "";
+      console.log(chalk.yellow(`[HMR] ${message.path} invalidated${reason}`));
+      const mod = this.moduleGraph.getModuleByUrl(message.path);
+      if (!mod) {
+        this.broadcast({ type: "full-reload", path: message.path });
+        return;
+      }
+      this.updateModules([mod], Date.now(), true);
+    }
   }
 
-  private broadcast(message: {
-    type: string;
-    path: string;
-    updateType?: string;
-    timestamp: number;
-  }) {
+  private broadcast(message: HmrPayload) {
+    // Any update supersedes the last error; if the module is still broken,
+    // re-requesting it reports the error again.
+    if (message.type !== "error") {
+      this.lastError = null;
+    }
     const payload = JSON.stringify(message);
     this.clients.forEach((client) => {
       if (client.readyState === WebSocket.OPEN) {
@@ -0,0 +1,138 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import { init, parse } from "es-module-lexer";
+import path from "node:path";
+import chalk from "chalk";
+import type { ModuleGraph } from "./module-graph.js";
+import {
+  adjustForLineRewrites,
+  appendInlineSourceMap,
+  extractInlineSourceMap,
+} from "../../internal/sourcemap/source-map.js";
+
+const HOT_ACCEPT_PATTERN =
+  /\bimport\.meta\.hot\.accept\(\s*(?:(["'])([^"'\n]*)\1|\[([^\]]*)\])?/g;
+
+/**
+ * Final pass over a transformed module before it is sent to the browser.
+ *
+ * Runs on every request (after the compilation cache) because its output
+ * depends on HMR state rather than on the source file:
+ *  - records the module's imports in the module graph
+ *  - appends `?t=<timestamp>` to imports of modules that changed since the
+ *    page loaded, so a re-imported HMR boundary gets fresh dependencies
+ *  - defines `import.meta.hot` for modules that use it
+ * and keeps the module's inline source map in step with those edits.
+ */
+export async function analyzeImportsForHmr(
+  input: string,
+  url: string,
+  filePath: string,
+  graph: ModuleGraph,
+): Promise<string> {
+  await init;
+
+  const { code, map } = extractInlineSourceMap(input);
+
+  const mod = graph.ensureEntry(url, filePath);
+  const importerUrl = mod.url;
+
+  let imports: ReturnType<typeof parse>[0];
+  try {
+    [imports] = parse(code);
+  } catch (error) {
+    console.warn(chalk.yellow(`[HMR] Could not analyze imports of ${importerUrl}:`), error);
+    return input;
+  }
+
+  const importedUrls = new Set<string>();
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+
+  for (const imp of imports) {
+    // import.meta (d === -2) and non-literal dynamic imports have no name
+    if (imp.n === undefined) continue;
+    const depUrl = toModuleUrl(imp.n, importerUrl);
+    if (!depUrl) continue;
+    importedUrls.add(depUrl);
+
+    const dep = graph.getModuleByUrl(depUrl);
+    if (!dep || dep.lastHMRTimestamp === 0) continue;
+
+    // Dynamic import spans include the quotes; static import spans do not
+    let { s: start, e: end } = imp;
+    if (code[start] === '"' || code[start] === "'" || code[start] === "`") {
+      start += 1;
+      end -= 1;
+    }
+    const specifier = code.slice(start, end).replace(/[?&]t=\d+$/, "");
+    const joiner = specifier.includes("?") ? "&" : "?";
+    replacements.push({
+      start,
+      end,
+      text: `${specifier}${joiner}t=${dep.lastHMRTimestamp}`,
+    });
+  }
+
+  const usesHot = code.includes("import.meta.hot");
+  let isSelfAccepting = false;
+  const acceptedUrls = new Set<string>();
+  if (usesHot) {
+    for (const match of code.matchAll(HOT_ACCEPT_PATTERN)) {
+      const [, , single, list] = match;
+      if (single !== undefined) {
+        addAcceptedUrl(acceptedUrls, single, importerUrl);
+      } else if (list !== undefined) {
+        for (const item of list.matchAll(/(["'])([^"']*)\1/g)) {
+          addAcceptedUrl(acceptedUrls, item[2], importerUrl);
+        }
+      } else {
+        isSelfAccepting = true;
+      }
+    }
+  }
+
+  graph.updateModuleInfo(mod, importedUrls, acceptedUrls, isSelfAccepting);
+
+  replacements.sort((a, b) => b.start - a.start);
+  let result = code;
+  for (const { start, end, text } of replacements) {
+    result = result.slice(0, start) + text + result.slice(end);
+  }
+
+  if (usesHot) {
+    // Kept on the first line so line numbers of the module stay unchanged
+    result =
+      `import { createHotContext as __swite__createHotContext } from "/__swite_hmr_client"; ` +
+      `import.meta.hot = __swite__createHotContext(${JSON.stringify(importerUrl)});` +
+      result;
+  }
+
+  return map ? appendInlineSourceMap(result, adjustForLineRewrites(map, code, result)) : result;
+}
+
+/**
+ * Map an import specifier to the URL the browser will request, or null for
+ * imports the graph does not track (remote URLs, node_modules, internals).
+ */
+function toModuleUrl(specifier: string, importerUrl: string): string | null {
+  let url: string;
+  if (specifier.startsWith("/")) {
+    url = specifier;
+  } else if (specifier.startsWith("./") || specifier.startsWith("../")) {
+    url = path.posix.join(path.posix.dirname(importerUrl), specifier);
+  } else {
+    return null;
+  }
+  url = url.split("?")[0];
+  if (url.startsWith("/node_modules/") || url.startsWith("/__swite")) return null;
+  return url;
+}
+
+function addAcceptedUrl(acceptedUrls: Set<string>, specifier: string, importerUrl: string): void {
+  const url = toModuleUrl(specifier, importerUrl);
+  if (url) acceptedUrls.add(url);
+}
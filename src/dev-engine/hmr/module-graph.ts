@@ -0,0 +1,190 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import path from "node:path";
+
+export interface ModuleNode {
+  // Browser URL without query string, e.g. /src/components/Button.ui
+  url: string;
+  // Absolute file path once the module has been served
+  file: string | null;
+  importers: Set<ModuleNode>;
+  importedModules: Set<ModuleNode>;
+  // import.meta.hot.accept() / accept(cb)
+  isSelfAccepting: boolean;
+  // import.meta.hot.accept("./dep", cb)
+  acceptedHmrDeps: Set<ModuleNode>;
+  // Set when the module (or something it imports) changes; importers then
+  // reference it as `url?t=<timestamp>` so the browser fetches a fresh copy.
+  lastHMRTimestamp: number;
+}
+
+export interface HmrBoundary {
+  // Module whose accept handler runs
+  boundary: ModuleNode;
+  // Module that is re-imported (the boundary itself when self-accepting)
+  acceptedVia: ModuleNode;
+}
+
+/**
+ * Importer → importee graph of every module served to the browser.
+ *
+ * Nodes are keyed by URL because that is what the browser's module map keys
+ * on; the file index lets the watcher map a changed path back to its URLs.
+ */
+export class ModuleGraph {
+  private urlToModule = new Map<string, ModuleNode>();
+  private fileToModules = new Map<string, Set<ModuleNode>>();
+
+  getModuleByUrl(url: string): ModuleNode | undefined {
+    return this.urlToModule.get(stripQuery(url));
+  }
+
+  getModulesByFile(file: string): Set<ModuleNode> | undefined {
+    return this.fileToModules.get(path.normalize(file));
+  }
+
+  /**
+   * Files of every module that imports `file`, directly or through other
+   * modules. Their served code depends on how `file` resolves.
+   */
+  getImporterFiles(file: string): Set<string> {
+    const files = new Set<string>();
+    const seen = new Set<ModuleNode>();
+    const visit = (mod: ModuleNode): void => {
+      for (const importer of mod.importers) {
+        if (seen.has(importer)) continue;
+        seen.add(importer);
+        if (importer.file) files.add(importer.file);
+        visit(importer);
+      }
+    };
+    for (const mod of this.getModulesByFile(file) ?? []) visit(mod);
+    files.delete(path.normalize(file));
+    return files;
+  }
+
+  ensureEntry(url: string, file?: string): ModuleNode {
+    const key = stripQuery(url);
+    let mod = this.urlToModule.get(key);
+    if (!mod) {
+      mod = {
+        url: key,
+        file: null,
+        importers: new Set(),
+        importedModules: new Set(),
+        isSelfAccepting: false,
+        acceptedHmrDeps: new Set(),
+        lastHMRTimestamp: 0,
+      };
+      this.urlToModule.set(key, mod);
+    }
+    if (file && mod.file !== path.normalize(file)) {
+      if (mod.file) this.fileToModules.get(mod.file)?.delete(mod);
+      mod.file = path.normalize(file);
+      let mods = this.fileToModules.get(mod.file);
+      if (!mods) {
+        mods = new Set();
+        this.fileToModules.set(mod.file, mods);
+      }
+      mods.add(mod);
+    }
+    return mod;
+  }
+
+  /**
+   * Replace a module's outgoing edges with what its latest transform imports.
+   * Accepted deps are matched against the imported URLs without extension,
+   * since source code says `./store` or `./store.js` while the import rewriter
+   * may have turned the specifier into `/src/store.ts`.
+   */
+  updateModuleInfo(
+    mod: ModuleNode,
+    importedUrls: Set<string>,
+    acceptedUrls: Set<string>,
+    isSelfAccepting: boolean,
+  ): void {
+    const previous = mod.importedModules;
+    const next = new Set<ModuleNode>();
+    for (const url of importedUrls) {
+      const dep = this.ensureEntry(url);
+      dep.importers.add(mod);
+      next.add(dep);
+    }
+    for (const dep of previous) {
+      if (!next.has(dep)) dep.importers.delete(mod);
+    }
+    mod.importedModules = next;
+
+    const accepted = new Set(Array.from(acceptedUrls, stripExtension));
+    mod.acceptedHmrDeps = new Set(
+      Array.from(next).filter((dep) => accepted.has(stripExtension(dep.url))),
+    );
+    mod.isSelfAccepting = isSelfAccepting;
+  }
+
+  /**
+   * Walk importers from `mod` until every path reaches a module that accepts
+   * the update. Returns null when some path reaches a root without an accept
+   * handler (or loops back on itself) — the page must then fully reload.
+   *
+   * Every module on the way to a boundary is stamped with `timestamp` so the
+   * re-imported boundary pulls fresh copies of the whole chain. Each module is
+   * walked once, so shared importers (diamonds) yield each boundary once.
+   */
+  propagateUpdate(
+    mod: ModuleNode,
+    timestamp: number,
+    skipSelfAccept = false,
+  ): HmrBoundary[] | null {
+    const boundaries: HmrBoundary[] = [];
+    const deadEnd = this.propagate(mod, timestamp, boundaries, new Set(), [mod], skipSelfAccept);
+    return deadEnd ? null : boundaries;
+  }
+
+  private propagate(
+    mod: ModuleNode,
+    timestamp: number,
+    boundaries: HmrBoundary[],
+    visited: Set<ModuleNode>,
+    chain: ModuleNode[],
+    skipSelfAccept: boolean,
+  ): boolean {
+    // Already walked through another importer; its result is in boundaries
+    if (visited.has(mod)) return false;
+    visited.add(mod);
+    mod.lastHMRTimestamp = timestamp;
+
+    if (mod.isSelfAccepting && !skipSelfAccept) {
+      boundaries.push({ boundary: mod, acceptedVia: mod });
+      return false;
+    }
+
+    if (mod.importers.size === 0) return true;
+
+    for (const importer of mod.importers) {
+      if (importer.acceptedHmrDeps.has(mod)) {
+        boundaries.push({ boundary: importer, acceptedVia: mod });
+        continue;
+      }
+      // Circular import without an accepting module in the cycle
+      if (chain.includes(importer)) return true;
+      if (this.propagate(importer, timestamp, boundaries, visited, [...chain, importer], false)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+function stripQuery(url: string): string {
+  const index = url.indexOf("?");
+  return index === -1 ? url : url.slice(0, index);
+}
+
+function stripExtension(url: string): string {
+  return url.replace(/\.(ui|uix|ts|tsx|js|mjs|jsx)$/, "");
+}
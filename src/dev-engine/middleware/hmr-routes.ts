@@ -7,10 +7,13 @@
 import type { Express } from "express";
 import type { RouteDefinition } from "@swissjs/core";
 import { HMREngine } from "../hmr/hmr.js";
+import type { ModuleResolver } from "../../resolution/resolver.js";
+import { createRouteTable, ROUTE_TABLE_PATH } from "../../internal/routes/route-table.js";
 
 export interface HMRRoutesConfig {
   hmr: HMREngine;
   routes: RouteDefinition[];
+  resolver: ModuleResolver;
 }
 
 /**
@@ -24,17 +27,10 @@ export function setupHMRRoutes(app: Express, config: HMRRoutesConfig): void {
   });
 
   // Routes endpoint - expose route definitions to client
-  app.get("/__swite_routes", (req, res) => {
+  // The client imports each page from its componentUrl (meta.httpUrl here)
+  app.get(ROUTE_TABLE_PATH, (req, res) => {
     res.setHeader("Content-Type", "application/json");
-    // Serialize routes for client - functions can't be serialized, so we include httpUrl in meta
-    // The client will use httpUrl to dynamically import the component
-    const serializedRoutes = config.routes.map((route) => ({
-      path: route.path,
-      meta: route.meta,
-      // Include httpUrl from meta so client can import it
-      componentUrl: route.meta?.httpUrl || null,
-    }));
-    res.json({ routes: serializedRoutes });
+    res.json(createRouteTable(config.routes));
   });
 
   // Diagnostic endpoint - check what the server is actually serving
@@ -72,6 +68,18 @@ export function setupHMRRoutes(app: Express, config: HMRRoutesConfig): void {
     }
   });
 
+  // Resolution trace - how an import resolves, as `swite resolve` prints it
+  // e.g. /__swite_resolve?specifier=@swissjs/core&from=/src/index.ui
+  app.get("/__swite_resolve", async (req, res) => {
+    const specifier = req.query.specifier;
+    const from = req.query.from ?? "/index.html";
+    if (typeof specifier !== "string" || !specifier || typeof from !== "string") {
+      res.status(400).json({ error: "Missing specifier query parameter" });
+      return;
+    }
+    res.json(await config.resolver.explain(specifier, from));
+  });
+
   // Force cache clear endpoint - returns HTML with aggressive cache busting
   app.get("/__swite_clear_cache", async (req, res) => {
     res.setHeader("Content-Type", "text/html");
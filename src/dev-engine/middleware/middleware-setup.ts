@@ -4,6 +4,7 @@
  * Licensed under the MIT License.
  */
 
+import express from "express";
 import type { Express, Request, Response, NextFunction } from "express";
 import type { RouteDefinition } from "@swissjs/core";
 import { RouteScanner } from "@swissjs/plugin-file-router/core";
@@ -18,6 +19,8 @@ import { TSHandler } from "../handlers/ts-handler.js";
 import { JSHandler } from "../handlers/js-handler.js";
 import { MJSHandler } from "../handlers/mjs-handler.js";
 import { NodeModuleHandler } from "../handlers/node-module-handler.js";
+import { CSSHandler, isCssImportRequest } from "../handlers/css-handler.js";
+import { PluginHandler } from "../handlers/plugin-handler.js";
 import { setupStaticFiles, setupSPAFallback } from "./static-files.js";
 import { setupHMRRoutes } from "./hmr-routes.js";
 import {
@@ -25,9 +28,21 @@ import {
   type FileRouterResult,
 } from "../router/file-router.js";
 import { HMREngine } from "../hmr/hmr.js";
+import { buildErrorPayload } from "../hmr/error-payload.js";
 import { findWorkspaceRoot } from "../../kernel/workspace.js";
 import { loadImportMap } from "../../internal/generate-import-map.js";
 import { loadEnv } from "../../config/env.js";
+import { findConfigFile } from "../../config/config-loader.js";
+import { compilationCache, getCompilerVersions } from "../../internal/cache/compilation-cache.js";
+import type { CdnConfig, OptimizeDepsConfig, SSRConfig } from "../../config/config.js";
+import { DEPS_URL_PREFIX, optimizeDeps } from "../deps/dep-optimizer.js";
+import { VENDOR_URL_PREFIX, loadVendoredDeps } from "../deps/vendor.js";
+import { getCdnIntegrity } from "../deps/cdn-integrity.js";
+import { loadCdnOptions } from "../../resolution/cdn/cdn-fallback.js";
+import { loadPathAliases } from "../../resolution/path-aliases.js";
+import { VIRTUAL_MODULE_PREFIX, type PluginContainer } from "../../internal/plugins/plugin-container.js";
+import { SSRModuleLoader } from "../ssr/ssr-module-loader.js";
+import { createSSRRenderer } from "../ssr/ssr-render.js";
 
 export interface MiddlewareConfig {
   root: string;
@@ -35,12 +50,18 @@ export interface MiddlewareConfig {
   publicDir: string;
   resolver: ModuleResolver;
   hmr: HMREngine;
+  ssr?: SSRConfig;
+  optimizeDeps?: OptimizeDepsConfig;
+  alias?: Record<string, string>;
+  cdn?: boolean | CdnConfig;
+  plugins: PluginContainer;
 }
 
 export interface MiddlewareResult {
   routes: RouteDefinition[];
   routeScanner: RouteScanner | null;
   routeWatcher: Awaited<ReturnType<typeof createFileWatcher>> | null;
+  ssrLoader: SSRModuleLoader;
 }
 
 const SOURCE_EXTS = new Set([".ui", ".uix", ".ts", ".mjs"]);
@@ -68,15 +89,19 @@ function sendSourceError(res: Response, error: unknown, fullPath: string): void
  * Setup all middleware for the SWITE server.
  *
  * Middleware registration order (matters for Express):
- *  1. File router + HMR routes
- *  2. /packages source files
- *  3. /src source files (highest priority for that prefix)
- *  4. /lib source files (pre-static guard)
- *  5. .ui/.uix MIME-type guard (belt-and-suspenders for slipped-through requests)
- *  6. /.skltn/modules.css → 204
- *  7. Static file serving (public/, node_modules/, lib/)
- *  8. General source-file transformation (all other paths)
- *  9. SPA fallback
+ *  1. File router + HMR and diagnostic routes, pre-bundled dependencies (/.swite/deps),
+ *     then plugins' configureServer middleware
+ *     and plugin-loaded modules (custom file types, virtual modules)
+ *  2. CSS imported from JS (*.css?import), under any prefix
+ *  3. /packages source files
+ *  4. /src source files (highest priority for that prefix)
+ *  5. /lib source files (pre-static guard)
+ *  6. .ui/.uix MIME-type guard (belt-and-suspenders for slipped-through requests)
+ *  7. /.skltn/modules.css → 204
+ *  8. Static file serving (public/, node_modules/, lib/)
+ *  9. General source-file transformation (all other paths)
+ * 10. Middleware from configureServer's returned functions
+ * 11. SPA fallback (transformIndexHtml, then SSR when ssr.entry is configured)
  */
 export async function setupMiddleware(
   app: Express,
@@ -91,6 +116,7 @@ export async function setupMiddleware(
   setupHMRRoutes(app, {
     hmr: config.hmr,
     routes: fileRouterResult.routes,
+    resolver: config.resolver,
   });
 
   // ── Workspace + import-map setup ───────────────────────────────────────────
@@ -107,16 +133,87 @@ export async function setupMiddleware(
     console.log(chalk.yellow(`[SWITE] No import map at ${importMapPath}, using runtime resolution`));
   }
 
+  // tsconfig `paths`/`baseUrl` and resolve.alias; tsconfig changes need a restart
+  config.resolver.setPathAliases(await loadPathAliases(config.root, config.alias));
+
+  // CDN provider and versions pinned from the lockfile; a lockfile change
+  // needs a restart
+  const cdnOptions = await loadCdnOptions(config.root, config.cdn);
+  config.resolver.setCdnOptions(cdnOptions);
+
+  // ── Dependency pre-bundling ────────────────────────────────────────────────
+  // Bundles are named by import and chunks by content hash, so the browser
+  // can keep them until the ?v= lockfile hash changes
+  const optimizedDeps = await optimizeDeps(config.root, config.optimizeDeps);
+  config.resolver.setOptimizedDeps(optimizedDeps);
+  if (optimizedDeps) {
+    app.use(
+      DEPS_URL_PREFIX.slice(0, -1),
+      express.static(optimizedDeps.dir, {
+        index: false,
+        setHeaders: (res) => res.setHeader("Cache-Control", "max-age=31536000, immutable"),
+      }),
+    );
+  }
+
+  // ── Vendored dependencies ──────────────────────────────────────────────────
+  // `swite vendor` bundles imports that would otherwise come from the CDN
+  const vendoredDeps = await loadVendoredDeps(config.root);
+  config.resolver.setVendoredDeps(vendoredDeps);
+  if (vendoredDeps) {
+    app.use(
+      VENDOR_URL_PREFIX.slice(0, -1),
+      express.static(vendoredDeps.dir, {
+        index: false,
+        setHeaders: (res) => res.setHeader("Cache-Control", "max-age=31536000, immutable"),
+      }),
+    );
+  }
+
+  // ── CDN integrity ──────────────────────────────────────────────────────────
+  // Hashed in the background for the import map; the first page waits for
+  // it. Imports added while the server runs are covered after a restart.
+  const cdnIntegrity =
+    config.cdn !== false && (typeof config.cdn !== "object" || config.cdn.integrity !== false)
+      ? getCdnIntegrity(config.root, config.resolver, cdnOptions).catch((error: unknown) => {
+          console.warn(chalk.yellow(`[cdn] Integrity hashing failed: ${error instanceof Error ? error.message : String(error)}`));
+          return {};
+        })
+      : Promise.resolve({});
+
   // ── Load .env files for import.meta.env inlining ──────────────────────────
   const mode = process.env.NODE_ENV === "production" ? "production" : "development";
   const env = loadEnv(config.root, mode);
 
+  // ── Persistent compilation cache ───────────────────────────────────────────
+  // Entries are keyed by file content; anything else that changes compiled
+  // output goes into the inputs, which start a fresh cache when they change.
+  // Plugin options live in swiss.config.ts, so its source stands in for them.
+  const configFile = findConfigFile(config.root);
+  await compilationCache.persistTo(path.join(config.root, ".swite", "cache"), {
+    ...(await getCompilerVersions()),
+    mode,
+    env,
+    workspaceRoot,
+    plugins: config.plugins.plugins.map((plugin) => plugin.name),
+    config: configFile && (await fs.readFile(configFile, "utf-8")),
+  });
+
   // ── Create handlers ────────────────────────────────────────────────────────
   const handlerContext = {
     resolver: config.resolver,
     root: config.root,
     workspaceRoot,
     env,
+    moduleGraph: config.hmr.moduleGraph,
+    plugins: config.plugins,
+  };
+
+  // Push transform failures to the browser's error overlay as well as
+  // answering the failed request
+  const reportError = (error: unknown, url: string): void => {
+    if (isFileNotFoundError(error)) return;
+    config.hmr.sendError(buildErrorPayload(error, url, config.hmr.moduleGraph));
   };
 
   const uiHandler = new UIHandler(handlerContext);
@@ -125,8 +222,60 @@ export async function setupMiddleware(
   const jsHandler = new JSHandler(handlerContext);
   const mjsHandler = new MJSHandler(handlerContext);
   const nodeModuleHandler = new NodeModuleHandler(handlerContext);
+  const cssHandler = new CSSHandler(handlerContext);
+  const pluginHandler = new PluginHandler(handlerContext);
+
+  // Compiled modules stay cached until the watcher sees them or a module
+  // they import change or go, or sees a file added
+  config.hmr.onFileChange((filePath, event) => {
+    compilationCache.handleFileChange(filePath, event, config.hmr.moduleGraph.getImporterFiles(filePath));
+  });
+
+  // Same resolver and env as the browser handlers, compiled for Node
+  const ssrLoader = new SSRModuleLoader(handlerContext);
+  config.hmr.onFileChange((filePath) => ssrLoader.invalidate(filePath));
+
+  // ── Plugins ────────────────────────────────────────────────────────────────
+  const pluginPostHooks = await config.plugins.configureServer({
+    app,
+    hmr: config.hmr,
+    root: config.root,
+    ssrLoadModule: (url) => ssrLoader.ssrLoadModule(url),
+  });
+
+  if (config.plugins.has("load")) {
+    app.use(async (req: Request, res: Response, next: NextFunction) => {
+      const url = req.url.split("?")[0];
+      // Page navigations have no extension; only module requests can be loaded
+      if (!url.startsWith(VIRTUAL_MODULE_PREFIX) && !path.extname(url)) return next();
+
+      try {
+        if (!(await pluginHandler.handle(url, res))) next();
+      } catch (error) {
+        console.error(chalk.red(`[plugin] Error ${url}:`), error);
+        reportError(error, url);
+        sendSourceError(res, error, url);
+      }
+    });
+  }
 
-  // ── 2. /packages workspace source files ────────────────────────────────────
+  // ── 2. CSS imported from JS ────────────────────────────────────────────────
+  // Must run before static serving, which would answer with plain text/css.
+  // <link rel="stylesheet"> requests have no ?import and fall through.
+  app.use(async (req: Request, res: Response, next: NextFunction) => {
+    if (!isCssImportRequest(req.url)) return next();
+    const url = req.url.split("?")[0];
+
+    try {
+      await cssHandler.handle(url, res);
+    } catch (error) {
+      console.error(chalk.red(`[.css] Error ${url}:`), error);
+      reportError(error, url);
+      sendSourceError(res, error, url);
+    }
+  });
+
+  // ── 3. /packages workspace source files ────────────────────────────────────
   app.use("/packages", async (req: Request, res: Response, next: NextFunction) => {
     const rawUrl = req.url?.split("?")[0] || "";
     const fullUrl = "/packages" + (rawUrl.startsWith("/") ? rawUrl : "/" + rawUrl);
@@ -141,13 +290,14 @@ export async function setupMiddleware(
       }
     } catch (error) {
       console.error(chalk.red(`[/packages] Error ${fullUrl}:`), error);
+      reportError(error, fullUrl);
       if (!res.headersSent) res.status(500).setHeader("Content-Type", "text/plain").send(String(error));
       return;
     }
     next();
   });
 
-  // ── 3. /src source files ───────────────────────────────────────────────────
+  // ── 4. /src source files ───────────────────────────────────────────────────
   // When Express mounts at "/src", req.url is relative (e.g. "/index.ui")
   app.use("/src", async (req: Request, res: Response, next: NextFunction) => {
     const relativeUrl = req.url.split("?")[0];
@@ -167,6 +317,7 @@ export async function setupMiddleware(
         if (!res.headersSent) res.status(500).send("Internal server error: handler did not send response");
       } catch (error) {
         console.error(chalk.red(`[/src] .ui error ${fullPath}:`), error);
+        reportError(error, fullPath);
         sendSourceError(res, error, fullPath);
       }
       return;
@@ -178,6 +329,7 @@ export async function setupMiddleware(
         if (!res.headersSent) res.status(500).setHeader("Content-Type", "text/plain").send("Error loading module");
       } catch (error) {
         console.error(chalk.red(`[/src] .uix error ${fullPath}:`), error);
+        reportError(error, fullPath);
         sendSourceError(res, error, fullPath);
       }
       return;
@@ -189,6 +341,7 @@ export async function setupMiddleware(
         if (!res.headersSent) res.status(500).setHeader("Content-Type", "text/plain").send("Error loading module");
       } catch (error) {
         console.error(chalk.red(`[/src] .ts error ${fullPath}:`), error);
+        reportError(error, fullPath);
         sendSourceError(res, error, fullPath);
       }
       return;
@@ -241,7 +394,7 @@ export async function setupMiddleware(
     }
   });
 
-  // ── 4. /lib source files (pre-static guard) ────────────────────────────────
+  // ── 5. /lib source files (pre-static guard) ────────────────────────────────
   app.use(async (req: Request, res: Response, next: NextFunction) => {
     const url = req.url.split("?")[0];
     if (!url.startsWith("/lib/")) return next();
@@ -263,11 +416,12 @@ export async function setupMiddleware(
       return next();
     } catch (error) {
       console.error(chalk.red(`[/lib] Error ${url}:`), error);
+      reportError(error, url);
       if (!res.headersSent) res.status(500).send("Internal server error");
     }
   });
 
-  // ── 5. .ui/.uix MIME guard (belt-and-suspenders) ──────────────────────────
+  // ── 6. .ui/.uix MIME guard (belt-and-suspenders) ──────────────────────────
   app.use((req: Request, res: Response, next: NextFunction) => {
     const url = req.url.split("?")[0];
     if (url.endsWith(".ui") || url.endsWith(".uix")) {
@@ -276,19 +430,19 @@ export async function setupMiddleware(
     next();
   });
 
-  // ── 6. /.skltn/modules.css → 204 (dev mode — CSS not bundled) ─────────────
+  // ── 7. /.skltn/modules.css → 204 (dev mode — CSS not bundled) ─────────────
   app.use("/.skltn/modules.css", (_req: Request, res: Response) => {
     res.status(204).end();
   });
 
-  // ── 7. Static file serving ─────────────────────────────────────────────────
+  // ── 8. Static file serving ─────────────────────────────────────────────────
   await setupStaticFiles(app, {
     root: config.root,
     publicDir: config.publicDir,
     workspaceRoot: config.workspaceRoot ?? null,
   });
 
-  // ── 8. General source-file transformation ──────────────────────────────────
+  // ── 9. General source-file transformation ──────────────────────────────────
   app.use(async (req: Request, res: Response, next: NextFunction) => {
     const url = req.url.split("?")[0];
 
@@ -331,21 +485,53 @@ export async function setupMiddleware(
       next();
     } catch (error) {
       console.error(chalk.red(`[middleware] Error ${url}:`), error);
+      reportError(error, url);
       if (!res.headersSent) {
         res.status(500).send(`Error: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
   });
 
-  // ── 9. SPA fallback ────────────────────────────────────────────────────────
-  await setupSPAFallback(app, {
-    root: config.root,
-    publicDir: config.publicDir,
-  });
+  // ── 10. Plugin middleware that runs after swite's ──────────────────────────
+  for (const postHook of pluginPostHooks) {
+    await postHook();
+  }
+
+  // ── 11. SPA fallback ───────────────────────────────────────────────────────
+  const renderSSR = config.ssr
+    ? createSSRRenderer({
+        root: config.root,
+        entry: config.ssr.entry,
+        loader: ssrLoader,
+        getRoutes: () => fileRouterResult.routes,
+      })
+    : null;
+
+  await setupSPAFallback(
+    app,
+    {
+      root: config.root,
+      publicDir: config.publicDir,
+      cdnIntegrity,
+    },
+    async (url, html) => {
+      const page = await config.plugins.transformIndexHtml(html, { path: url, mode: "serve" });
+      if (!renderSSR) return page;
+      try {
+        return await renderSSR(url, page);
+      } catch (error) {
+        // Still serve the page; the client renders it as without SSR
+        console.error(chalk.red(`[SSR] Failed to render ${url}:`), error);
+        reportError(error, url);
+        return page;
+      }
+    },
+  );
 
   return {
     routes: fileRouterResult.routes,
     routeScanner: fileRouterResult.routeScanner,
     routeWatcher: fileRouterResult.routeWatcher,
+    ssrLoader,
   };
 }
@@ -15,6 +15,8 @@ export interface StaticFilesConfig {
   root: string;
   publicDir: string;
   workspaceRoot?: string | null;
+  // SRI hashes of CDN modules by URL, for the import map's `integrity` field
+  cdnIntegrity?: Promise<Record<string, string>>;
 }
 
 /**
@@ -422,8 +424,9 @@ export async function setupStaticFiles(
 export async function setupSPAFallback(
   app: Express,
   config: StaticFilesConfig,
+  // Last step before sending the page, e.g. server-side rendering the route
+  renderHtml?: (url: string, html: string) => Promise<string>,
 ): Promise<void> {
-  console.log(chalk.magenta(`[SWITE] setupSPAFallback loaded - VERSION 3.0.0 (NO HARDCODED CSS)`));
   // Use app.all() to catch ALL HTTP methods, but only for non-source files
   app.all("*", async (req, res, next) => {
     const url = req.url.split("?")[0];
@@ -432,8 +435,6 @@ export async function setupSPAFallback(
     
     // DEBUG: Verify handler is being called
     process.stderr.write(`[SPA FALLBACK] Handler called for: ${req.method} ${fullUrl}\n`);
-    console.error(`[SWITE CSS DEBUG] ========== SPA FALLBACK HANDLER START ==========`);
-    console.error(`[SWITE CSS DEBUG] URL: ${url}, Full URL: ${fullUrl}`);
     
     // --- CRITICAL SAFETY CHECK ---
     // NEVER serve HTML for /src/* requests - these are source files that must be handled by middleware
@@ -542,141 +543,6 @@ export async function setupSPAFallback(
       );
     }
 
-    // Extract CSS imports from entry point and inject as <link> tags
-    // This dynamically discovers CSS files from the app's entry point
-    // CRITICAL: This MUST run before import map injection
-    // IMPORTANT: Only inject CSS files that actually exist in the app's directory
-    console.log(chalk.magenta(`[SWITE CSS] ========== CSS EXTRACTION START (VERSION 3.0.0) ==========`));
-    console.log(chalk.magenta(`[SWITE CSS] App root: ${config.root}`));
-    try {
-      const entryPointPath = path.join(config.root, "src", "index.ui");
-      console.log(chalk.blue(`[SWITE CSS] Checking entry point: ${entryPointPath}`));
-      const entryPointContent = await fs.readFile(entryPointPath, "utf-8");
-      
-      // Extract CSS imports using regex
-      const cssImportPattern = /import\s+['"](.*?\.css)['"];?/g;
-      const cssImports = new Set<string>();
-      let match;
-      
-      // Check entry point
-      while ((match = cssImportPattern.exec(entryPointContent)) !== null) {
-        cssImports.add(match[1]);
-      }
-      
-      // Also check imported files (like App.uix) for CSS imports
-      const importPattern = /import\s+.*?from\s+['"](.*?)['"];?/g;
-      const importedFiles: string[] = [];
-      let importMatch;
-      cssImportPattern.lastIndex = 0; // Reset regex
-      while ((importMatch = importPattern.exec(entryPointContent)) !== null) {
-        const importPath = importMatch[1];
-        // Skip node_modules and absolute imports
-        if (!importPath.startsWith("@") && !importPath.startsWith("/") && !importPath.startsWith(".")) {
-          continue;
-        }
-        // Resolve relative imports
-        if (importPath.startsWith(".")) {
-          importedFiles.push(importPath);
-        }
-      }
-      
-      // Check imported files for CSS
-      for (const importedFile of importedFiles) {
-        try {
-          const importedFilePath = path.resolve(path.dirname(entryPointPath), importedFile);
-          // Try different extensions
-          const extensions = [".uix", ".ui", ".ts", ".js"];
-          let found = false;
-          for (const ext of extensions) {
-            const testPath = importedFilePath.endsWith(ext) ? importedFilePath : importedFilePath + ext;
-            try {
-              const importedContent = await fs.readFile(testPath, "utf-8");
-              found = true;
-              // Extract CSS imports from this file
-              cssImportPattern.lastIndex = 0; // Reset regex
-              let cssMatch2;
-              while ((cssMatch2 = cssImportPattern.exec(importedContent)) !== null) {
-                // Resolve relative CSS path
-                const cssPath = cssMatch2[1];
-                if (cssPath.startsWith(".")) {
-                  const resolvedCssPath = path.resolve(path.dirname(testPath), cssPath);
-                  const relativeCssPath = path.relative(path.join(config.root, "src"), resolvedCssPath);
-                  const normalizedPath = relativeCssPath.replace(/\\/g, "/");
-                  cssImports.add(normalizedPath);
-                } else {
-                  cssImports.add(cssPath);
-                }
-              }
-              break;
-            } catch (err) {
-              // File doesn't exist with this extension, try next
-            }
-          }
-        } catch (error) {
-          // Could not read imported file, skip
-        }
-      }
-      
-      console.log(chalk.blue(`[SWITE CSS] Found ${cssImports.size} CSS import(s) in code`));
-      if (cssImports.size > 0) {
-        const cssArray = Array.from(cssImports);
-        console.log(chalk.blue(`[SWITE CSS] CSS imports found: ${cssArray.join(", ")}`));
-        
-        // Verify CSS files exist before injecting them
-        const existingCssFiles: string[] = [];
-        for (const cssPath of cssArray) {
-          // Convert to file system path
-          const url = cssPath.startsWith("/") ? cssPath : `/src/${cssPath}`;
-          const filePath = url.startsWith("/src/") 
-            ? path.join(config.root, url.substring(1)) // Remove leading /
-            : path.join(config.root, "src", cssPath);
-          
-          console.log(chalk.blue(`[SWITE CSS] Checking if CSS file exists: ${filePath} (url: ${url})`));
-          try {
-            await fs.access(filePath);
-            console.log(chalk.green(`[SWITE CSS] ✅ CSS file exists: ${filePath}`));
-            existingCssFiles.push(url);
-          } catch {
-            // CSS file doesn't exist, skip it
-            // This allows different apps/websites to have different CSS files
-            console.log(chalk.yellow(`[SWITE CSS] ⚠️  CSS file NOT found: ${filePath}, skipping`));
-          }
-        }
-        
-        // Only inject CSS files that actually exist
-        console.log(chalk.blue(`[SWITE CSS] ${existingCssFiles.length} CSS file(s) exist out of ${cssArray.length} found`));
-        if (existingCssFiles.length === 0) {
-          console.log(chalk.yellow(`[SWITE CSS] ⚠️  No CSS files exist, skipping injection`));
-        } else if (existingCssFiles.length > 0) {
-          const cssLinks = existingCssFiles
-            .map(url => `    <link rel="stylesheet" href="${url}">`)
-            .join("\n");
-          
-          // Check if CSS links are already in HTML (to avoid duplicates)
-          const alreadyInjected = existingCssFiles.some(url => 
-            html.includes(`href="${url}"`) || html.includes(`href='${url}'`)
-          );
-          
-          if (!alreadyInjected) {
-            // Inject CSS links before </head> - MUST happen before import map injection
-            const beforeReplace = html;
-            html = html.replace(/\s*<\/head>/i, `${cssLinks}\n  </head>`);
-            if (html === beforeReplace) {
-              console.warn(chalk.yellow("[SWITE] Failed to inject CSS links - </head> not found"));
-            } else {
-              console.log(chalk.green(`[SWITE] ✅ Injected ${existingCssFiles.length} CSS link(s): ${existingCssFiles.join(", ")}`));
-            }
-          } else {
-            console.log(chalk.blue(`[SWITE CSS] CSS links already in HTML, skipping injection`));
-          }
-        }
-      }
-    } catch (error) {
-      // If entry point doesn't exist or can't be read, continue without CSS injection
-      // Silently continue - CSS injection is optional
-      console.log(chalk.yellow(`[SWITE CSS] Could not extract CSS imports: ${error instanceof Error ? error.message : String(error)}`));
-    }
-
     // Add/merge import map to help browser resolve bare module specifiers.
     // If an importmap already exists in HTML, merge .swite/import-map.json entries
     // into it — existing HTML entries take priority (never overwrite manual entries).
@@ -691,10 +557,13 @@ export async function setupSPAFallback(
     } catch {
       // no cached map — nothing to merge
     }
+    const integrity = (await config.cdnIntegrity) ?? {};
+    const hasIntegrity = Object.keys(integrity).length > 0;
 
     if (!html.includes('type="importmap"')) {
       // No importmap at all — inject one from .swite/import-map.json
-      const importMap = `\n    <script type="importmap">\n    ${JSON.stringify({ imports: switeImports }, null, 2).replace(/\n/g, "\n    ")}\n    </script>`;
+      const map = hasIntegrity ? { imports: switeImports, integrity } : { imports: switeImports };
+      const importMap = `\n    <script type="importmap">\n    ${JSON.stringify(map, null, 2).replace(/\n/g, "\n    ")}\n    </script>`;
       const beforeReplace = html;
       html = html.replace(/\s*<\/head>/i, `${importMap}\n  </head>`);
       if (html === beforeReplace) {
@@ -705,7 +574,7 @@ export async function setupSPAFallback(
     } else {
       // Importmap already in HTML — merge swite entries without overwriting existing ones
       console.log("[SWITE] Import map already exists in HTML — merging swite entries");
-      if (Object.keys(switeImports).length > 0) {
+      if (Object.keys(switeImports).length > 0 || hasIntegrity) {
         html = html.replace(
           /(<script\s+type=["']importmap["'][^>]*>)\s*([\s\S]*?)(\s*<\/script>)/i,
           (_match, open, body, close) => {
@@ -714,7 +583,10 @@ export async function setupSPAFallback(
               const existingImports: Record<string, string> = existing?.imports ?? {};
               // Swite entries fill gaps; existing HTML entries win
               const merged = { ...switeImports, ...existingImports };
-              return `${open}\n    ${JSON.stringify({ imports: merged }, null, 2).replace(/\n/g, "\n    ")}${close}`;
+              const map = hasIntegrity
+                ? { imports: merged, integrity: { ...integrity, ...existing?.integrity } }
+                : { imports: merged };
+              return `${open}\n    ${JSON.stringify(map, null, 2).replace(/\n/g, "\n    ")}${close}`;
             } catch {
               return _match; // parse failed — leave importmap untouched
             }
@@ -723,6 +595,25 @@ export async function setupSPAFallback(
       }
     }
 
+    // The HMR client is an ES module (hot modules import createHotContext from
+    // it). Upgrade a hand-written classic <script> tag, or inject one — after
+    // the import map, which must precede every module script.
+    if (html.includes("/__swite_hmr_client")) {
+      html = html.replace(
+        /<script(?![^>]*type=["']module["'])([^>]*src=["']\/__swite_hmr_client["'][^>]*)>/g,
+        '<script type="module"$1>',
+      );
+    } else {
+      html = html.replace(
+        /\s*<\/head>/i,
+        `\n    <script type="module" src="/__swite_hmr_client"></script>\n  </head>`,
+      );
+    }
+
+    if (renderHtml) {
+      html = await renderHtml(fullUrl, html);
+    }
+
     res.send(html);
   });
 }
@@ -8,12 +8,16 @@ import type { RouteDefinition } from "@swissjs/core";
 import { RouteScanner } from "@swissjs/plugin-file-router/core";
 import { createFileWatcher } from "@swissjs/plugin-file-router/dev";
 import express from "express";
+import http from "node:http";
 import path from "node:path";
 import { promises as fs } from "node:fs";
 import { ModuleResolver } from "../resolution/resolver.js";
 import { HMREngine } from "./hmr/hmr.js";
 import chalk from "chalk";
 import { setupMiddleware } from "./middleware/middleware-setup.js";
+import type { SSRModuleExports, SSRModuleLoader } from "./ssr/ssr-module-loader.js";
+import type { CdnConfig, OptimizeDepsConfig, SSRConfig } from "../config/config.js";
+import { PluginContainer, type SwitePlugin } from "../internal/plugins/plugin-container.js";
 import { buildSymlinkRegistry } from "../resolution/symlink-registry.js";
 import { findSwissLibMonorepo } from "../kernel/package-finder.js";
 
@@ -28,18 +32,33 @@ export interface SwiteConfig {
   port: number;
   host: string;
   open: boolean;
-  hmrPort?: number; // Optional HMR WebSocket port
+  // Optional dedicated HMR WebSocket port. When unset, HMR shares the dev
+  // server's port via HTTP upgrade on /__swite_hmr.
+  hmrPort?: number;
+  // Render pages on the server before sending them (see SSRConfig)
+  ssr?: SSRConfig;
+  // Pre-bundle third-party dependencies into .swite/deps (see OptimizeDepsConfig)
+  optimizeDeps?: OptimizeDepsConfig;
+  // package.json exports/imports conditions (see ResolveConfig)
+  conditions?: string[];
+  // Import aliases besides tsconfig paths (see ResolveConfig)
+  alias?: Record<string, string>;
+  // CDN fallback for packages not found locally (see ResolveConfig)
+  cdn?: boolean | CdnConfig;
+  plugins?: SwitePlugin[];
 }
 
 export class SwiteServer {
   private app = express();
   private resolver: ModuleResolver;
   private hmr: HMREngine;
+  private plugins: PluginContainer;
   private config: SwiteConfig;
   private routeScanner: RouteScanner | null = null;
   private routeWatcher: Awaited<ReturnType<typeof createFileWatcher>> | null =
     null;
   private routes: RouteDefinition[] = [];
+  private ssrLoader: SSRModuleLoader | null = null;
 
   constructor(config: Partial<SwiteConfig> = {}) {
     this.config = {
@@ -51,8 +70,24 @@ export class SwiteServer {
       ...config,
     };
 
-    this.resolver = new ModuleResolver(this.config.root);
-    this.hmr = new HMREngine(this.config.root, this.config.hmrPort);
+    this.plugins = new PluginContainer(this.config.plugins ?? [], "serve");
+    this.resolver = new ModuleResolver(this.config.root, this.config.conditions);
+    this.resolver.setPluginContainer(this.plugins);
+    this.resolver.setCdnFallback(this.config.cdn !== false);
+    this.hmr = new HMREngine(this.config.root, this.config.hmrPort, this.plugins);
+  }
+
+  /**
+   * Load a module into Node through the dev server's compile pipeline and
+   * resolver, with `import.meta.env.SSR` true. `url` is a dev server URL
+   * (`/src/entry-server.ts`) or a file path. Modules are cached until they
+   * or their imports change.
+   */
+  async ssrLoadModule(url: string): Promise<SSRModuleExports> {
+    if (!this.ssrLoader) {
+      throw new Error("ssrLoadModule() is available once the server has started");
+    }
+    return this.ssrLoader.ssrLoadModule(url);
   }
 
   // CG-03: find workspace root by walking up from startDir
@@ -119,15 +154,24 @@ export class SwiteServer {
       publicDir: this.config.publicDir,
       resolver: this.resolver,
       hmr: this.hmr,
+      ssr: this.config.ssr,
+      optimizeDeps: this.config.optimizeDeps,
+      alias: this.config.alias,
+      cdn: this.config.cdn,
+      plugins: this.plugins,
     });
     this.routes = middlewareResult.routes;
+    this.ssrLoader = middlewareResult.ssrLoader;
     this.routeScanner = middlewareResult.routeScanner;
     this.routeWatcher = middlewareResult.routeWatcher;
     console.timeEnd("Middleware Setup");
 
+    // The HTTP server is created up front so HMR can hook its upgrade event
+    const httpServer = http.createServer(this.app);
+
     // Start HMR
     console.time("HMR Start");
-    await this.hmr.initialize();
+    await this.hmr.initialize(httpServer);
     await this.hmr.start();
     console.timeEnd("HMR Start");
 
@@ -136,7 +180,7 @@ export class SwiteServer {
     const bindHost = this.config.host === "localhost" ? "0.0.0.0" : this.config.host;
     console.time("HTTP Listen");
     await new Promise<void>((resolve) => {
-      this.app.listen(this.config.port, bindHost, () => {
+      httpServer.listen(this.config.port, bindHost, () => {
         console.timeEnd("HTTP Listen");
         console.timeEnd("Startup");
         console.log(
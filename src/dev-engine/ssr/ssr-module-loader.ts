@@ -0,0 +1,324 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import type { UiCompiler } from "@swissjs/compiler";
+import { init, parse } from "es-module-lexer";
+import { promises as fs } from "node:fs";
+import { builtinModules, createRequire } from "node:module";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import vm from "node:vm";
+import { inlineEnvReferences } from "../../config/env.js";
+import { getCssModuleId, isCssModule, scopeCssModule } from "../../internal/css/css-modules.js";
+import { resolveFilePath } from "../../resolution/path/file-path-resolver.js";
+import { toUrl } from "../../resolution/url-resolver.js";
+import { toTransformError, unresolvedImportError } from "../hmr/error-payload.js";
+import type { HandlerContext } from "../handlers/base-handler.js";
+import { compileComponent } from "../handlers/compile-component.js";
+
+export type SSRModuleExports = Record<string, unknown>;
+
+interface SSRModule {
+  file: string;
+  // CommonJS-style exports object, filled in while the module evaluates
+  module: { exports: SSRModuleExports };
+  evaluated: Promise<SSRModuleExports>;
+  importers: Set<string>;
+}
+
+// Dynamic import() calls are routed through the loader under this name
+const DYNAMIC_IMPORT = "__swite_ssr_import__";
+
+const SSR_HOOK_OPTIONS = { ssr: true };
+
+const SOURCE_LOADERS: Record<string, "ts" | "tsx" | "jsx" | "js"> = {
+  ".ts": "ts",
+  ".tsx": "tsx",
+  ".jsx": "jsx",
+  ".js": "js",
+  ".mjs": "js",
+};
+
+/**
+ * Loads app modules into Node for server-side rendering. Files go through
+ * the same compile steps as the browser handlers (.ui/.uix compiler,
+ * esbuild, env inlining with `import.meta.env.SSR` set to true) and the same
+ * resolver, then run as CommonJS in this process. Packages in node_modules
+ * are imported natively so they get their Node builds.
+ */
+export class SSRModuleLoader {
+  private modules = new Map<string, SSRModule>();
+  private compiler: Promise<UiCompiler> | null = null;
+
+  constructor(private context: HandlerContext) {}
+
+  /**
+   * Load a module by dev server URL (`/src/entry-server.ts`) or absolute
+   * file path and return its exports.
+   */
+  async ssrLoadModule(url: string): Promise<SSRModuleExports> {
+    const file = path.isAbsolute(url) && (await exists(url))
+      ? path.resolve(url)
+      : await this.toFilePath(url);
+    return this.load(file, []);
+  }
+
+  /**
+   * Drop a changed file and everything that imports it, so the next render
+   * evaluates fresh copies.
+   */
+  invalidate(file: string): void {
+    const mod = this.modules.get(path.resolve(file));
+    if (!mod) return;
+    this.modules.delete(mod.file);
+    for (const importer of mod.importers) this.invalidate(importer);
+  }
+
+  private async load(file: string, stack: string[]): Promise<SSRModuleExports> {
+    const cached = this.modules.get(file);
+    if (cached) {
+      return stack.includes(file) ? liveExports(cached) : cached.evaluated;
+    }
+
+    const mod: SSRModule = {
+      file,
+      module: { exports: {} },
+      evaluated: Promise.resolve({}),
+      importers: new Set(),
+    };
+    mod.evaluated = this.evaluate(mod, [...stack, file]);
+    this.modules.set(file, mod);
+    try {
+      return await mod.evaluated;
+    } catch (error) {
+      this.modules.delete(file);
+      throw error;
+    }
+  }
+
+  private async evaluate(mod: SSRModule, stack: string[]): Promise<SSRModuleExports> {
+    const { file } = mod;
+    const loaded = this.context.plugins?.has("load")
+      ? await this.context.plugins.load(file, SSR_HOOK_OPTIONS)
+      : null;
+
+    if (!loaded && file.endsWith(".css")) {
+      // Styles are the browser's business; CSS Modules still need their names
+      if (!isCssModule(file)) return {};
+      const scoped = scopeCssModule(await fs.readFile(file, "utf-8"), await getCssModuleId(file));
+      mod.module.exports = { __esModule: true, default: scoped.exports };
+      return mod.module.exports;
+    }
+    if (!loaded && file.endsWith(".json")) {
+      mod.module.exports = { __esModule: true, default: JSON.parse(await fs.readFile(file, "utf-8")) };
+      return mod.module.exports;
+    }
+
+    const esm = loaded ? await this.transformWithPlugins(loaded.code, file) : await this.transform(file);
+
+    // Load static imports up front: require() inside the module is synchronous
+    await init;
+    const [imports] = parse(esm);
+    const dependencies = new Map<string, SSRModuleExports>();
+    let code = "";
+    let last = 0;
+    for (const entry of imports) {
+      if (entry.d > -1) {
+        // Dynamic import(): replace the keyword, resolve at call time
+        code += esm.slice(last, entry.ss) + DYNAMIC_IMPORT;
+        last = entry.ss + "import".length;
+        continue;
+      }
+      if (entry.n === undefined || entry.d === -2 || dependencies.has(entry.n)) continue;
+      dependencies.set(entry.n, await this.import(entry.n, file, stack));
+    }
+    code += esm.slice(last);
+
+    const esbuild = await import("esbuild");
+    const cjs = await esbuild
+      .transform(code, {
+        loader: "js",
+        format: "cjs",
+        target: `node${process.versions.node.split(".")[0]}`,
+        sourcefile: file,
+        define: {
+          "import.meta.url": JSON.stringify(pathToFileURL(file).href),
+          "import.meta.hot": "undefined",
+        },
+        logOverride: { "empty-import-meta": "silent" },
+      })
+      .catch((error: unknown) => {
+        throw toTransformError(error, file, code, "esbuild");
+      });
+
+    const run = vm.runInThisContext(
+      `(function (exports, require, module, __filename, __dirname, ${DYNAMIC_IMPORT}) {${cjs.code}\n})`,
+      { filename: file },
+    );
+    const require = (specifier: string): SSRModuleExports => {
+      const loaded = dependencies.get(specifier);
+      if (!loaded) throw new Error(`${specifier} was not loaded before ${file} ran`);
+      return loaded;
+    };
+    const dynamicImport = (specifier: string): Promise<SSRModuleExports> =>
+      this.import(specifier, file, []);
+
+    run.call(
+      mod.module.exports,
+      mod.module.exports,
+      require,
+      mod.module,
+      file,
+      path.dirname(file),
+      dynamicImport,
+    );
+    return mod.module.exports;
+  }
+
+  /**
+   * Compile a file to an ES module for Node, mirroring the browser handlers
+   * up to (but not including) import rewriting. Node runs the result without
+   * source maps, so the maps are dropped.
+   */
+  private async transform(file: string): Promise<string> {
+    const source = await fs.readFile(file, "utf-8");
+    const ext = path.extname(file);
+    if (ext === ".ui" || ext === ".uix") {
+      const component = await compileComponent(source, file, {
+        compiler: await this.getCompiler(),
+        env: this.context.env,
+        ssr: true,
+        transform: async (code) => ({ code: await this.runTransformHooks(code, file) }),
+      });
+      return component.code;
+    }
+
+    const esbuild = await import("esbuild");
+    const result = await esbuild
+      .transform(source, {
+        loader: SOURCE_LOADERS[ext] ?? "js",
+        format: "esm",
+        target: "esnext",
+        sourcefile: file,
+      })
+      .catch((error: unknown) => {
+        throw toTransformError(error, file, source, "esbuild");
+      });
+    return this.transformWithPlugins(result.code, file);
+  }
+
+  // Plugins' transform hooks, then env inlining, as for the browser
+  private async transformWithPlugins(code: string, id: string): Promise<string> {
+    return inlineEnvReferences(await this.runTransformHooks(code, id), this.context.env, "development", true);
+  }
+
+  private async runTransformHooks(code: string, id: string): Promise<string> {
+    if (!this.context.plugins?.has("transform")) return code;
+    return (await this.context.plugins.transform(code, id, SSR_HOOK_OPTIONS)).code;
+  }
+
+  private async import(
+    specifier: string,
+    importer: string,
+    stack: string[],
+  ): Promise<SSRModuleExports> {
+    if (specifier.startsWith("node:") || builtinModules.includes(specifier)) {
+      return toInterop(await import(specifier));
+    }
+
+    const file = await this.resolve(specifier, importer);
+    if (isExternal(file)) {
+      return toInterop(await import(pathToFileURL(file).href));
+    }
+
+    const exports = await this.load(file, stack);
+    this.modules.get(file)?.importers.add(importer);
+    return exports;
+  }
+
+  private async resolve(specifier: string, importer: string): Promise<string> {
+    const pluginId = this.context.plugins?.has("resolveId")
+      ? await this.context.plugins.resolveId(specifier, importer, SSR_HOOK_OPTIONS)
+      : null;
+    // Files, or virtual module ids that a load hook provides
+    if (pluginId) return path.isAbsolute(pluginId) ? path.resolve(pluginId) : pluginId;
+
+    // Let Node pick packages' Node builds (require/node conditions)
+    if (!specifier.startsWith(".") && !specifier.startsWith("/")) {
+      try {
+        return createRequire(importer).resolve(specifier);
+      } catch {
+        // not resolvable by Node (workspace source, browser-only exports);
+        // fall back to the dev server's resolver
+      }
+    }
+
+    // The resolver takes the importer's URL, as the browser handlers pass it
+    const importerUrl = await toUrl(importer, {
+      root: this.context.root,
+      getWorkspaceRoot: async () => this.context.workspaceRoot,
+      fileExists: exists,
+      logger: console,
+    });
+    const url = await this.context.resolver.resolve(specifier, importerUrl);
+    if (/^https?:\/\//.test(url)) {
+      throw new Error(`Cannot load ${specifier} (resolved to ${url}) during SSR: remote modules are browser-only`);
+    }
+    const file = await this.toFilePath(url.split("?")[0]);
+    if (!(await exists(file))) {
+      // Same error as the browser gets, pointing at the import in the source
+      const source = await fs.readFile(importer, "utf-8").catch(() => "");
+      throw unresolvedImportError(specifier, importerUrl, importer, source);
+    }
+    return file;
+  }
+
+  private async toFilePath(url: string): Promise<string> {
+    return path.resolve(await resolveFilePath(url, this.context.root, this.context.workspaceRoot));
+  }
+
+  private getCompiler(): Promise<UiCompiler> {
+    if (!this.compiler) {
+      this.compiler = import("@swissjs/compiler").then(({ UiCompiler }) => new UiCompiler());
+    }
+    return this.compiler;
+  }
+}
+
+// Installed packages run as Node would run them; Swiss and TypeScript sources
+// (including workspace packages) are compiled by the loader
+function isExternal(file: string): boolean {
+  return (
+    file.split(path.sep).includes("node_modules") &&
+    /\.(c?js|mjs|json)$/.test(file)
+  );
+}
+
+// A circular import sees the exports as they are filled in, as in Node.
+// esbuild's CommonJS output replaces module.exports, so read it on access.
+function liveExports(mod: SSRModule): SSRModuleExports {
+  return new Proxy(
+    {},
+    {
+      get: (_target, key) => mod.module.exports[key as string],
+      has: (_target, key) => key in mod.module.exports,
+    },
+  );
+}
+
+// What esbuild's CommonJS output expects from require() for an ES module
+function toInterop(namespace: SSRModuleExports): SSRModuleExports {
+  return { ...namespace, __esModule: true };
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
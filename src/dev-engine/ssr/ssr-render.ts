@@ -0,0 +1,88 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+import type { RouteDefinition } from "@swissjs/core";
+import path from "node:path";
+import { matchRoute, type RouteParams } from "../../internal/routes/route-matcher.js";
+import type { SSRModuleExports, SSRModuleLoader } from "./ssr-module-loader.js";
+
+/** Passed to the SSR entry's `render` export */
+export interface SSRContext {
+  // Requested URL, including the query string
+  url: string;
+  // File-router route matching the URL, if any
+  route: RouteDefinition | null;
+  params: RouteParams;
+  // Exports of the matched route's page module
+  page: SSRModuleExports | null;
+}
+
+export type SSRRenderResult = string | { html: string; head?: string };
+
+// The SSR entry's `render` export
+type SSRRender = (context: SSRContext) => SSRRenderResult | Promise<SSRRenderResult>;
+
+export interface SSRRendererConfig {
+  root: string;
+  // Module exporting `render(context)`, relative to root
+  entry: string;
+  loader: SSRModuleLoader;
+  // Routes change as pages are added, so read them per request
+  getRoutes: () => RouteDefinition[];
+}
+
+const OUTLET = "<!--ssr-outlet-->";
+const EMPTY_APP_ROOT = /(<div\s+id=["']app["'][^>]*>)\s*(<\/div>)/i;
+
+/**
+ * Create the SPA fallback's render step: match the URL to a route, load its
+ * page and the SSR entry through the SSR module loader, and put the entry's
+ * output into the page template.
+ */
+export function createSSRRenderer(
+  config: SSRRendererConfig,
+): (url: string, template: string) => Promise<string> {
+  const entryPath = path.resolve(config.root, config.entry);
+
+  return async (url, template) => {
+    const match = matchRoute(config.getRoutes(), url.split("?")[0]);
+    // meta.httpUrl is the page's dev server URL
+    const pageUrl: string | undefined = match?.route.meta?.httpUrl;
+    const page = pageUrl ? await config.loader.ssrLoadModule(pageUrl) : null;
+
+    const { render } = await config.loader.ssrLoadModule(entryPath);
+    if (typeof render !== "function") {
+      throw new Error(`${config.entry} must export a render(context) function`);
+    }
+
+    const context: SSRContext = {
+      url,
+      route: match?.route ?? null,
+      params: match?.params ?? {},
+      page,
+    };
+    return injectSSR(template, await (render as SSRRender)(context));
+  };
+}
+
+/**
+ * Put rendered markup at `<!--ssr-outlet-->`, or inside an empty
+ * `<div id="app">`, and extra head tags at the end of <head>.
+ */
+export function injectSSR(template: string, result: SSRRenderResult): string {
+  const { html, head } = typeof result === "string" ? { html: result, head: undefined } : result;
+
+  let output: string;
+  if (template.includes(OUTLET)) {
+    output = template.replace(OUTLET, () => html);
+  } else if (EMPTY_APP_ROOT.test(template)) {
+    output = template.replace(EMPTY_APP_ROOT, (_match, open: string, close: string) => open + html + close);
+  } else {
+    throw new Error(`index.html needs ${OUTLET} or an empty <div id="app"></div> to render into`);
+  }
+
+  return head ? output.replace(/\s*<\/head>/i, () => `\n    ${head}\n  </head>`) : output;
+}
@@ -5,21 +5,49 @@
 
 export { SwiteServer } from "./dev-engine/server.js";
 export type { SwiteConfig } from "./dev-engine/server.js";
+export { SwitePreviewServer } from "./preview-engine/server.js";
+export type { PreviewConfig } from "./preview-engine/server.js";
 export { SwiteBuilder, build } from "./build-engine/builder.js";
 export type { BuildConfig } from "./build-engine/builder.js";
+export { BudgetExceededError } from "./build-engine/budgets.js";
+export type { BudgetViolation } from "./build-engine/budgets.js";
 export { ModuleResolver } from "./resolution/resolver.js";
+export { DEV_CONDITIONS, BUILD_CONDITIONS } from "./resolution/package-exports.js";
+export type { ResolveExplanation, ResolveStep, ResolveStrategy } from "./resolution/resolve-trace.js";
+export { CdnFallbackDisabledError } from "./resolution/cdn/cdn-fallback.js";
 export { HMREngine } from "./dev-engine/hmr/hmr.js";
+export type { SSRModuleExports } from "./dev-engine/ssr/ssr-module-loader.js";
+export type { SSRContext, SSRRenderResult } from "./dev-engine/ssr/ssr-render.js";
+export type {
+  SwitePlugin,
+  PluginMode,
+  PluginHookOptions,
+  PluginCodeResult,
+  IndexHtmlContext,
+  PluginServerContext,
+  HotUpdateContext,
+} from "./internal/plugins/plugin-container.js";
 export { defineConfig } from "./config/config.js";
 export type {
   SwiteUserConfig,
   ServerConfig,
   ServicesConfig,
   PythonServiceConfig,
+  BuildUserConfig,
+  BudgetsConfig,
+  SizeBudget,
+  SSRConfig,
+  OptimizeDepsConfig,
+  ResolveConfig,
+  CdnConfig,
+  CdnProvider,
 } from "./config/config.js";
 export { proxyToPython, initPythonProxy, setProductionMode } from "./adapters/proxy/proxyToPython.js";
 export type { ProxyOptions } from "./adapters/proxy/proxyToPython.js";
 export { SwiteProxyError } from "./adapters/proxy/SwiteProxyError.js";
 export { loadUserConfig } from "./config/config-loader.js";
+export { parseBuildFlags, resolveBuildConfig } from "./config/build-options.js";
+export type { BuildFlags } from "./config/build-options.js";
 export {
   startPythonDevService,
   stopPythonDevService,
@@ -5,123 +5,158 @@
  * Licensed under the MIT License.
  */
 
+import { createHash } from "node:crypto";
 import { promises as fs } from "node:fs";
+import { createRequire } from "node:module";
 import path from "node:path";
+import { fileURLToPath } from "node:url";
 import chalk from "chalk";
+import type { RawSourceMap } from "../sourcemap/source-map.js";
+import type { FileChangeEvent } from "../../dev-engine/hmr/hmr.js";
+
+/**
+ * A module's output up to (not including) import rewriting, with the maps
+ * its served source map is built from
+ */
+export interface CompiledModule {
+  // ES module ready for import rewriting
+  code: string;
+  // Output of the transform hooks, which `map` maps
+  transformed: string;
+  // Maps `transformed` to the compiler output (or the source)
+  map: string;
+  // Maps the compiler output to the source, when the compiler appends one
+  compilerMap: RawSourceMap | null;
+}
 
 interface CacheEntry {
-  compiled: string;
   rewritten: string;
-  mtime: number;
-  dependencies: string[];
-  timestamp: number;
 }
 
 /**
- * Compilation cache with dependency tracking
- * Invalidates when source file or dependencies change
+ * Compilation cache. Served code stays valid until invalidate() is called
+ * for the file; the dev server calls it from the file watcher, for the
+ * changed file and every module that imports it, so lookups never touch
+ * the disk.
  */
 export class CompilationCache {
   private cache = new Map<string, CacheEntry>();
   private readonly maxSize = 1000; // Prevent memory leaks
+  private persistDir: string | null = null;
+  // Disk entry for each file's latest content (see persistTo)
+  private persisted = new Map<string, string>();
 
   /**
-   * Get cached compilation result if valid
+   * Also keep compiled output on disk under `dir`, keyed by the source
+   * file's path and content, so a restart only rewrites the imports of
+   * modules the last run compiled. Imports are rewritten again because
+   * other files may have changed how they resolve. `inputs` lists
+   * everything else the compiled output depends on (compiler and esbuild
+   * versions, env, plugins); entries made with other inputs are deleted.
    */
-  async get(
-    filePath: string,
-    getDependencies: (compiled: string) => Promise<string[]>,
-  ): Promise<string | null> {
-    const entry = this.cache.get(filePath);
-    if (!entry) {
-      return null;
-    }
-
-    // Check if source file changed
-    try {
-      const stats = await fs.stat(filePath);
-      if (stats.mtimeMs !== entry.mtime) {
-        console.log(
-          chalk.yellow(`[Cache] Invalidating ${filePath}: file modified`),
-        );
-        this.cache.delete(filePath);
-        return null;
-      }
-    } catch (error) {
-      // File deleted or inaccessible
-      this.cache.delete(filePath);
-      return null;
+  async persistTo(dir: string, inputs: Record<string, unknown>): Promise<void> {
+    const inputsHash = hash(JSON.stringify(inputs));
+    for (const entry of await fs.readdir(dir).catch(() => [])) {
+      if (entry !== inputsHash) await fs.rm(path.join(dir, entry), { recursive: true, force: true });
     }
+    this.persistDir = path.join(dir, inputsHash);
+    await fs.mkdir(this.persistDir, { recursive: true });
+  }
 
-    // Check if dependencies changed (order-independent comparison)
-    const currentDeps = await getDependencies(entry.compiled);
-    const prevSet = new Set(entry.dependencies);
-    const depsChanged =
-      currentDeps.length !== entry.dependencies.length ||
-      currentDeps.some((dep) => !prevSet.has(dep));
-
-    if (depsChanged) {
-      console.log(
-        chalk.yellow(
-          `[Cache] Invalidating ${filePath}: dependencies changed`,
-        ),
-      );
-      this.cache.delete(filePath);
+  /**
+   * Get the served code, with imports rewritten, from this run
+   */
+  async get(filePath: string): Promise<string | null> {
+    const entry = this.cache.get(path.resolve(filePath));
+    if (!entry) {
       return null;
     }
 
-    // Check if dependencies still exist and haven't changed
-    for (const dep of entry.dependencies) {
-      try {
-        const depStats = await fs.stat(dep);
-        // If dependency was modified after cache entry, invalidate
-        if (depStats.mtimeMs > entry.timestamp) {
-          console.log(
-            chalk.yellow(
-              `[Cache] Invalidating ${filePath}: dependency ${dep} modified`,
-            ),
-          );
-          this.cache.delete(filePath);
-          return null;
-        }
-      } catch {
-        // Dependency deleted or inaccessible
-        console.log(
-          chalk.yellow(
-            `[Cache] Invalidating ${filePath}: dependency ${dep} not found`,
-          ),
-        );
-        this.cache.delete(filePath);
-        return null;
-      }
-    }
+    console.log(chalk.green(`[Cache] ✅ Cache hit for ${filePath}`));
+    return entry.rewritten;
+  }
 
-    // Check if cached content has stale CDN URLs (from before import rewriter fix)
-    if (entry.rewritten.includes("cdn.jsdelivr.net") || entry.rewritten.includes("esm.sh")) {
-      console.log(
-        chalk.yellow(
-          `[Cache] Invalidating ${filePath}: contains stale CDN URLs`,
-        ),
-      );
-      this.cache.delete(filePath);
+  /**
+   * Get the compiled output persisted for this `source` of the file, by
+   * this or an earlier run. Its imports still need rewriting.
+   */
+  async getCompiled(filePath: string, source: string): Promise<CompiledModule | null> {
+    if (!this.persistDir) return null;
+    const key = path.resolve(filePath);
+    const file = this.getPersistedPath(key, source);
+    try {
+      const compiled: CompiledModule = JSON.parse(await fs.readFile(file, "utf-8"));
+      this.persisted.set(key, file);
+      console.log(chalk.green(`[Cache] ✅ Compiled output cached for ${filePath}`));
+      return compiled;
+    } catch {
+      // Not compiled with this content and these inputs yet
       return null;
     }
-
-    console.log(chalk.green(`[Cache] ✅ Cache hit for ${filePath}`));
-    return entry.rewritten;
   }
 
   /**
-   * Store compilation result in cache
+   * Store compilation result in cache. Pass the `source` that was compiled
+   * to store the compiled output on disk too (see persistTo).
    */
   async set(
     filePath: string,
-    compiled: string,
+    compiled: CompiledModule,
     rewritten: string,
-    getDependencies: (compiled: string) => Promise<string[]>,
+    source?: string,
   ): Promise<void> {
+    const key = path.resolve(filePath);
+    this.remember(key, { rewritten });
+
+    if (!this.persistDir || source === undefined) return;
+    const file = this.getPersistedPath(key, source);
+    const previous = this.persisted.get(key);
+    if (previous === file) return;
+    try {
+      // Write then rename, so a concurrent read never sees half an entry
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(compiled));
+      await fs.rename(temp, file);
+      this.persisted.set(key, file);
+      console.log(chalk.green(`[Cache] ✅ Cached ${filePath}`));
+    } catch (error) {
+      console.warn(chalk.yellow(`[Cache] Failed to cache ${filePath}:`, error));
+      return;
+    }
+    // Nothing looks up the file's previous content again
+    if (previous) await fs.rm(previous, { force: true }).catch(() => {});
+  }
+
+  /**
+   * Drop a file's served code. Called for files that changed and for their
+   * importers, whose imports may now resolve differently. Compiled output
+   * on disk is keyed by content, so an unchanged importer is only
+   * rewritten, not compiled again.
+   */
+  invalidate(filePath: string): void {
+    this.cache.delete(path.resolve(filePath));
+  }
+
+  /**
+   * Keep served code in step with the file watcher. A changed or deleted
+   * file is invalidated along with its `importers`. An added file has no
+   * importers the module graph knows of, yet it may be what an import
+   * failed to resolve to, or now win over what one resolved to (utils.ts
+   * moved to utils/index.ts), so every entry goes; that only costs the
+   * rewrites, as compiled output stays on disk.
+   */
+  handleFileChange(filePath: string, event: FileChangeEvent, importers: Iterable<string>): void {
+    if (event === "add") {
+      this.clearAll();
+      return;
+    }
+    this.invalidate(filePath);
+    for (const importer of importers) this.invalidate(importer);
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
     // Enforce max size (LRU eviction)
-    if (this.cache.size >= this.maxSize) {
+    if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
       // Remove oldest entry (simple FIFO)
       const firstKey = this.cache.keys().next().value;
       if (firstKey) {
@@ -129,34 +164,19 @@ export class CompilationCache {
         console.log(chalk.gray(`[Cache] Evicted ${firstKey} (cache full)`));
       }
     }
+    this.cache.set(key, entry);
+  }
 
-    try {
-      const stats = await fs.stat(filePath);
-      const dependencies = await getDependencies(compiled);
-
-      this.cache.set(filePath, {
-        compiled,
-        rewritten,
-        mtime: stats.mtimeMs,
-        dependencies,
-        timestamp: Date.now(),
-      });
-
-      console.log(
-        chalk.green(
-          `[Cache] ✅ Cached ${filePath} (${dependencies.length} deps)`,
-        ),
-      );
-    } catch (error) {
-      console.warn(chalk.yellow(`[Cache] Failed to cache ${filePath}:`, error));
-    }
+  // .swite/cache/<inputs hash>/<path and source hash>.json
+  private getPersistedPath(key: string, source: string): string {
+    return path.join(this.persistDir!, `${hash(`${key}\0${source}`)}.json`);
   }
 
   /**
    * Clear cache for a specific file
    */
   clear(filePath: string): void {
-    this.cache.delete(filePath);
+    this.cache.delete(path.resolve(filePath));
   }
 
   /**
@@ -178,5 +198,43 @@ export class CompilationCache {
   }
 }
 
+/**
+ * Versions of the code that compiles modules, for persistTo's inputs. Each
+ * includes its entry file's mtime, so a rebuilt workspace package (same
+ * version, new code) counts as a new version too.
+ */
+export async function getCompilerVersions(): Promise<Record<string, string>> {
+  const require = createRequire(import.meta.url);
+  const resolve = (specifier: string): string | null => {
+    try {
+      return require.resolve(specifier);
+    } catch {
+      return null;
+    }
+  };
+  return {
+    swite: await getPackageVersion("@swissjs/swite", fileURLToPath(import.meta.url)),
+    compiler: await getPackageVersion("@swissjs/compiler", resolve("@swissjs/compiler")),
+    esbuild: await getPackageVersion("esbuild", resolve("esbuild")),
+  };
+}
+
+async function getPackageVersion(name: string, entry: string | null): Promise<string> {
+  if (!entry) return "unknown";
+  for (let dir = path.dirname(entry); path.dirname(dir) !== dir; dir = path.dirname(dir)) {
+    try {
+      const pkg = JSON.parse(await fs.readFile(path.join(dir, "package.json"), "utf-8"));
+      if (pkg.name === name) return `${pkg.version}+${(await fs.stat(entry)).mtimeMs}`;
+    } catch {
+      // no package.json at this level
+    }
+  }
+  return "unknown";
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
 // Singleton instance
 export const compilationCache = new CompilationCache();
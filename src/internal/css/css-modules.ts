@@ -0,0 +1,143 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * CSS Modules scoping shared by the dev server and the production builder
+ * Licensed under the MIT License.
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export interface CssModuleResult {
+  css: string;
+  // Class name as written → scoped class name
+  exports: Record<string, string>;
+}
+
+// Strings and comments are copied as-is; `:global(` / `:local(` open a
+// parenthesised selector; anything else that starts with a dot is a class.
+const SELECTOR_TOKEN =
+  /("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\/\*[\s\S]*?\*\/)|:(global|local)\(|\.(-?[_a-zA-Z][_a-zA-Z0-9-]*)/g;
+
+export function isCssModule(file: string): boolean {
+  return file.split("?")[0].endsWith(".module.css");
+}
+
+/**
+ * Identify a CSS module by its package name and its path inside that
+ * package, e.g. `@acme/ui/src/Card.module.css`. Scoped names are hashed from
+ * this id, so they are the same in dev and production, on every machine, and
+ * across edits to the file.
+ */
+export async function getCssModuleId(file: string): Promise<string> {
+  let dir = path.dirname(file);
+  for (;;) {
+    try {
+      const pkg = JSON.parse(await fs.readFile(path.join(dir, "package.json"), "utf-8"));
+      const relative = path.relative(dir, file).split(path.sep).join("/");
+      return `${pkg.name ?? path.basename(dir)}/${relative}`;
+    } catch {
+      // no (readable) package.json here, keep walking up
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return file.split(path.sep).join("/");
+    dir = parent;
+  }
+}
+
+/**
+ * Rename every class selector in `css` to `<file>_<class>_<hash>`.
+ *
+ * Only rule selectors are rewritten: declarations and at-rule preludes are
+ * left alone, and `:global(...)` keeps its contents unscoped. Keyframe and
+ * custom property names stay global.
+ */
+export function scopeCssModule(css: string, id: string): CssModuleResult {
+  const hash = createHash("sha256").update(id).digest("hex").slice(0, 6);
+  const base = path.posix
+    .basename(id)
+    .replace(/\.module\.css$/, "")
+    .replace(/[^_a-zA-Z0-9-]/g, "_");
+  const names = new Map<string, string>();
+  const scope = (name: string): string => {
+    let scoped = names.get(name);
+    if (!scoped) {
+      scoped = `${base}_${name}_${hash}`;
+      names.set(name, scoped);
+    }
+    return scoped;
+  };
+
+  let out = "";
+  // Text since the last `{`, `}` or `;`: a selector if it ends at `{`
+  let prelude = "";
+  let i = 0;
+  while (i < css.length) {
+    const char = css[i];
+    if (char === "/" && css[i + 1] === "*") {
+      const end = css.indexOf("*/", i + 2);
+      const stop = end === -1 ? css.length : end + 2;
+      prelude += css.slice(i, stop);
+      i = stop;
+    } else if (char === '"' || char === "'") {
+      const stop = skipString(css, i);
+      prelude += css.slice(i, stop);
+      i = stop;
+    } else if (char === "{") {
+      out += (prelude.trimStart().startsWith("@") ? prelude : scopeSelector(prelude, scope)) + char;
+      prelude = "";
+      i++;
+    } else if (char === "}" || char === ";") {
+      out += prelude + char;
+      prelude = "";
+      i++;
+    } else {
+      prelude += char;
+      i++;
+    }
+  }
+
+  return { css: out + prelude, exports: Object.fromEntries(names) };
+}
+
+function scopeSelector(selector: string, scope: (name: string) => string): string {
+  const token = new RegExp(SELECTOR_TOKEN.source, "g");
+  let out = "";
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(selector)) !== null) {
+    out += selector.slice(last, match.index);
+    const [, verbatim, pseudo, className] = match;
+    if (verbatim !== undefined) {
+      out += verbatim;
+    } else if (pseudo !== undefined) {
+      const close = findClosingParen(selector, token.lastIndex);
+      const inner = selector.slice(token.lastIndex, close);
+      out += pseudo === "global" ? inner : scopeSelector(inner, scope);
+      token.lastIndex = close + 1;
+    } else {
+      out += `.${scope(className)}`;
+    }
+    last = token.lastIndex;
+  }
+  return out + selector.slice(last);
+}
+
+function findClosingParen(text: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    if (text[i] === ")" && --depth === 0) return i;
+  }
+  return text.length;
+}
+
+function skipString(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text[i] === quote || text[i] === "\n") return i + 1;
+  }
+  return text.length;
+}
@@ -0,0 +1,233 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Plugin hooks shared by the dev server and the production builder
+ * Licensed under the MIT License.
+ */
+
+import type { Express } from "express";
+import { toTransformError } from "../../dev-engine/hmr/error-payload.js";
+import type { HMREngine } from "../../dev-engine/hmr/hmr.js";
+import type { ModuleNode } from "../../dev-engine/hmr/module-graph.js";
+import type { SSRModuleExports } from "../../dev-engine/ssr/ssr-module-loader.js";
+import { composeSourceMaps, type RawSourceMap } from "../sourcemap/source-map.js";
+
+export type PluginMode = "serve" | "build";
+
+// Dev server URLs for virtual modules: `/@id/<encoded id>`
+export const VIRTUAL_MODULE_PREFIX = "/@id/";
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface PluginHookOptions {
+  // True when the module is loaded by the dev server's SSR module loader
+  ssr: boolean;
+}
+
+/** Code returned from `load` or `transform`, with an optional source map */
+export type PluginCodeResult = string | { code: string; map?: RawSourceMap | string | null };
+
+export interface IndexHtmlContext {
+  // URL the page is served at
+  path: string;
+  mode: PluginMode;
+}
+
+export interface PluginServerContext {
+  app: Express;
+  hmr: HMREngine;
+  root: string;
+  ssrLoadModule: (url: string) => Promise<SSRModuleExports>;
+}
+
+export interface HotUpdateContext {
+  // Absolute path of the changed file
+  file: string;
+  timestamp: number;
+  // Modules the browser loaded from the file
+  modules: ModuleNode[];
+  read: () => Promise<string>;
+}
+
+export interface SwitePlugin {
+  name: string;
+  /** Only run in `swite dev` ("serve") or `swite build`; both by default */
+  apply?: PluginMode;
+  /**
+   * Resolve an import. Return an absolute file path, a URL, or any other
+   * id for a virtual module that `load` provides; `null` to pass.
+   */
+  resolveId?: (
+    source: string,
+    importer: string | undefined,
+    options: PluginHookOptions,
+  ) => MaybePromise<string | null | undefined | void>;
+  /** Provide a module's JavaScript, e.g. for a custom file type; `null` to pass */
+  load?: (id: string, options: PluginHookOptions) => MaybePromise<PluginCodeResult | null | undefined | void>;
+  /**
+   * Change a module's JavaScript. Runs after .ui/.uix compilation and
+   * TypeScript stripping, before imports are resolved.
+   */
+  transform?: (
+    code: string,
+    id: string,
+    options: PluginHookOptions,
+  ) => MaybePromise<PluginCodeResult | null | undefined | void>;
+  /** Change index.html before it is served or written to the output */
+  transformIndexHtml?: (html: string, context: IndexHtmlContext) => MaybePromise<string | null | undefined | void>;
+  /**
+   * Add middleware to the dev server. Middleware added here runs before
+   * swite's own; middleware added in a returned function runs after it,
+   * just before the SPA fallback.
+   */
+  configureServer?: (server: PluginServerContext) => MaybePromise<(() => MaybePromise<void>) | void>;
+  /**
+   * Choose the modules to hot-update when a file changes. Return an empty
+   * array to skip swite's update; return nothing to keep the default.
+   */
+  handleHotUpdate?: (context: HotUpdateContext) => MaybePromise<ModuleNode[] | null | undefined | void>;
+}
+
+export interface PluginTransformResult {
+  code: string;
+  // Maps `code` back to the code passed in; null when a plugin changed the
+  // code without returning a map
+  map: RawSourceMap | null;
+}
+
+/**
+ * Runs the configured plugins' hooks in order. `resolveId` and `load` stop
+ * at the first plugin that returns a result; the other hooks chain.
+ */
+export class PluginContainer {
+  readonly plugins: SwitePlugin[];
+
+  constructor(plugins: SwitePlugin[], mode: PluginMode) {
+    this.plugins = plugins.filter((plugin) => !plugin.apply || plugin.apply === mode);
+  }
+
+  has(hook: Exclude<keyof SwitePlugin, "name" | "apply">): boolean {
+    return this.plugins.some((plugin) => typeof plugin[hook] === "function");
+  }
+
+  async resolveId(
+    source: string,
+    importer: string | undefined,
+    options: PluginHookOptions = { ssr: false },
+  ): Promise<string | null> {
+    for (const plugin of this.plugins) {
+      if (!plugin.resolveId) continue;
+      try {
+        const resolved = await plugin.resolveId(source, importer, options);
+        if (resolved) return resolved;
+      } catch (error) {
+        throw toTransformError(error, importer ?? source, "", plugin.name);
+      }
+    }
+    return null;
+  }
+
+  async load(id: string, options: PluginHookOptions = { ssr: false }): Promise<PluginTransformResult | null> {
+    for (const plugin of this.plugins) {
+      if (!plugin.load) continue;
+      try {
+        const loaded = await plugin.load(id, options);
+        if (loaded !== null && loaded !== undefined) return normalizeResult(loaded);
+      } catch (error) {
+        throw toTransformError(error, id, "", plugin.name);
+      }
+    }
+    return null;
+  }
+
+  async transform(
+    code: string,
+    id: string,
+    options: PluginHookOptions = { ssr: false },
+  ): Promise<PluginTransformResult> {
+    let result: PluginTransformResult = { code, map: null };
+    let mapped = true;
+    for (const plugin of this.plugins) {
+      if (!plugin.transform) continue;
+      let transformed: PluginCodeResult | null | undefined | void;
+      try {
+        transformed = await plugin.transform(result.code, id, options);
+      } catch (error) {
+        throw toTransformError(error, id, result.code, plugin.name);
+      }
+      if (transformed === null || transformed === undefined) continue;
+
+      const next = normalizeResult(transformed);
+      if (next.code === result.code) continue;
+      if (!next.map) {
+        mapped = false;
+      } else if (mapped) {
+        next.map = result.map ? composeSourceMaps(next.map, result.map) : next.map;
+      }
+      result = next;
+    }
+    return { code: result.code, map: mapped ? result.map : null };
+  }
+
+  async transformIndexHtml(html: string, context: IndexHtmlContext): Promise<string> {
+    let result = html;
+    for (const plugin of this.plugins) {
+      if (!plugin.transformIndexHtml) continue;
+      try {
+        result = (await plugin.transformIndexHtml(result, context)) ?? result;
+      } catch (error) {
+        throw pluginError(plugin, "transformIndexHtml", error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Run `configureServer` hooks; returns the functions they returned, to
+   * call once swite's middleware is in place.
+   */
+  async configureServer(server: PluginServerContext): Promise<Array<() => MaybePromise<void>>> {
+    const postHooks: Array<() => MaybePromise<void>> = [];
+    for (const plugin of this.plugins) {
+      if (!plugin.configureServer) continue;
+      try {
+        const postHook = await plugin.configureServer(server);
+        if (postHook) postHooks.push(postHook);
+      } catch (error) {
+        throw pluginError(plugin, "configureServer", error);
+      }
+    }
+    return postHooks;
+  }
+
+  /**
+   * Run `handleHotUpdate` hooks, each seeing the modules the previous one
+   * chose. Returns null when no plugin changed the default.
+   */
+  async handleHotUpdate(context: HotUpdateContext): Promise<ModuleNode[] | null> {
+    let modules: ModuleNode[] | null = null;
+    for (const plugin of this.plugins) {
+      if (!plugin.handleHotUpdate) continue;
+      try {
+        const filtered = await plugin.handleHotUpdate({ ...context, modules: modules ?? context.modules });
+        if (filtered) modules = filtered;
+      } catch (error) {
+        throw pluginError(plugin, "handleHotUpdate", error);
+      }
+    }
+    return modules;
+  }
+}
+
+function normalizeResult(result: PluginCodeResult): PluginTransformResult {
+  if (typeof result === "string") return { code: result, map: null };
+  const map = typeof result.map === "string" ? JSON.parse(result.map) : result.map ?? null;
+  return { code: result.code, map };
+}
+
+function pluginError(plugin: SwitePlugin, hook: string, error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  const wrapped = new Error(`[plugin ${plugin.name}] ${hook} failed: ${message}`);
+  if (error instanceof Error && error.stack) wrapped.stack = error.stack;
+  return wrapped;
+}
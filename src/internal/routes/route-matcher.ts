@@ -0,0 +1,132 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * File-router route matching shared by dev SSR and the production builder
+ * Licensed under the MIT License.
+ */
+
+import type { RouteDefinition } from "@swissjs/core";
+
+export type RouteParams = Record<string, string>;
+
+export interface RouteMatch {
+  route: RouteDefinition;
+  params: RouteParams;
+}
+
+type RouteSegment =
+  | { type: "static"; value: string }
+  | { type: "param"; name: string }
+  // Matches the rest of the path; `*` is named "*"
+  | { type: "catch-all"; name: string };
+
+// `:slug` / `[slug]`, and catch-all `[...slug]` / `*`
+const PARAM_SEGMENT = /^(?::([A-Za-z_]\w*)|\[([A-Za-z_]\w*)\])$/;
+const CATCH_ALL_SEGMENT = /^(?:\[\.\.\.([A-Za-z_]\w*)\]|\*)$/;
+
+/**
+ * Layout routes nest their pages as children with paths relative to the
+ * layout; return every route with its full path.
+ */
+export function flattenRoutes(routes: RouteDefinition[], base = ""): RouteDefinition[] {
+  return routes.flatMap((route) => {
+    const routePath = route.path.startsWith("/")
+      ? route.path
+      : `${base.replace(/\/$/, "")}/${route.path}`;
+    return [{ ...route, path: routePath }, ...flattenRoutes(route.children ?? [], routePath)];
+  });
+}
+
+/**
+ * Find the route that renders `pathname`. Static segments beat parameters,
+ * which beat catch-alls; pages beat the layouts wrapping them.
+ */
+export function matchRoute(routes: RouteDefinition[], pathname: string): RouteMatch | null {
+  const segments = splitPath(pathname);
+  let best: (RouteMatch & { rank: number[] }) | null = null;
+
+  for (const route of flattenRoutes(routes)) {
+    const pattern = parseRoutePath(route.path);
+    const params = matchSegments(pattern, segments);
+    if (!params) continue;
+
+    const rank = [
+      ...pattern.map((segment) => SEGMENT_RANK[segment.type]),
+      route.children?.length ? 0 : 1,
+    ];
+    if (!best || compareRanks(rank, best.rank) > 0) {
+      best = { route, params, rank };
+    }
+  }
+
+  return best && { route: best.route, params: best.params };
+}
+
+// Whether the route has parameters or a catch-all to fill in
+export function isDynamicRoute(routePath: string): boolean {
+  return parseRoutePath(routePath).some((segment) => segment.type !== "static");
+}
+
+/**
+ * Fill a dynamic route's parameters in. Catch-all values may contain `/`;
+ * other values are URL-encoded.
+ */
+export function expandRoutePath(routePath: string, params: RouteParams): string {
+  const segments = parseRoutePath(routePath).map((segment) => {
+    if (segment.type === "static") return segment.value;
+    const value = params[segment.name];
+    if (value === undefined) {
+      throw new Error(`Missing "${segment.name}" for route ${routePath} in ${JSON.stringify(params)}`);
+    }
+    return segment.type === "catch-all" ? String(value) : encodeURIComponent(String(value));
+  });
+  return `/${segments.join("/")}`;
+}
+
+// Static segments beat parameters, which beat catch-alls
+const SEGMENT_RANK: Record<RouteSegment["type"], number> = {
+  static: 3,
+  param: 2,
+  "catch-all": 1,
+};
+
+function parseRoutePath(routePath: string): RouteSegment[] {
+  return splitPath(routePath).map((segment) => {
+    const param = PARAM_SEGMENT.exec(segment);
+    if (param) return { type: "param", name: param[1] ?? param[2] };
+    const catchAll = CATCH_ALL_SEGMENT.exec(segment);
+    if (catchAll) return { type: "catch-all", name: catchAll[1] ?? "*" };
+    return { type: "static", value: segment };
+  });
+}
+
+function matchSegments(pattern: RouteSegment[], segments: string[]): RouteParams | null {
+  const params: RouteParams = {};
+  for (let i = 0; i < pattern.length; i++) {
+    const segment = pattern[i];
+    if (segment.type === "catch-all") {
+      params[segment.name] = segments.slice(i).map(decodeURIComponent).join("/");
+      return params;
+    }
+    if (i >= segments.length) return null;
+
+    if (segment.type === "param") {
+      params[segment.name] = decodeURIComponent(segments[i]);
+    } else if (segment.value !== segments[i]) {
+      return null;
+    }
+  }
+  return pattern.length === segments.length ? params : null;
+}
+
+function compareRanks(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function splitPath(urlPath: string): string[] {
+  return urlPath.split("/").filter(Boolean);
+}
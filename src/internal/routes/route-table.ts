@@ -0,0 +1,46 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Route table the client router loads page components from
+ * Licensed under the MIT License.
+ */
+
+import type { RouteDefinition } from "@swissjs/core";
+
+// Served by the dev server, and written to the build output under this name
+export const ROUTE_TABLE_PATH = "/__swite_routes";
+
+export interface RouteTableEntry {
+  path: string;
+  meta: RouteDefinition["meta"];
+  // URL the client router imports the page component from
+  componentUrl: string | null;
+}
+
+export interface RouteTable {
+  routes: RouteTableEntry[];
+}
+
+/**
+ * Serialize routes for the client router; the scanner's component loaders
+ * can't be sent, so each page is imported from `componentUrl` instead.
+ * `toComponentUrl` maps the page's dev server URL (`meta.httpUrl`) to the
+ * URL that serves it, e.g. its hashed chunk in a build; `meta.httpUrl` is
+ * rewritten to match.
+ */
+export function createRouteTable(
+  routes: RouteDefinition[],
+  toComponentUrl: (httpUrl: string) => string | null = (httpUrl) => httpUrl,
+): RouteTable {
+  return {
+    routes: routes.map((route) => {
+      const httpUrl: string | undefined = route.meta?.httpUrl;
+      const componentUrl = httpUrl ? toComponentUrl(httpUrl) : null;
+      return {
+        path: route.path,
+        meta: componentUrl ? { ...route.meta, httpUrl: componentUrl } : route.meta,
+        componentUrl,
+      };
+    }),
+  };
+}
@@ -0,0 +1,169 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Source map composition for dev-transformed modules
+ * Licensed under the MIT License.
+ */
+
+import {
+  decodeMappings,
+  encodeMappings,
+  type DecodedMappings,
+  type SourceMapSegment,
+} from "./vlq.js";
+
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: Array<string | null>;
+  names: string[];
+  mappings: string;
+}
+
+const INLINE_MAP_PATTERN =
+  /\r?\n?\/\/[#@] sourceMappingURL=data:application\/json(?:;charset=[^;,]+)?;base64,([A-Za-z0-9+/=]+)\s*$/;
+
+/**
+ * Split a trailing inline `//# sourceMappingURL=data:...` comment off `code`.
+ */
+export function extractInlineSourceMap(code: string): {
+  code: string;
+  map: RawSourceMap | null;
+} {
+  const match = INLINE_MAP_PATTERN.exec(code);
+  if (!match) return { code, map: null };
+  try {
+    const map = JSON.parse(Buffer.from(match[1], "base64").toString("utf-8"));
+    return { code: code.slice(0, match.index), map };
+  } catch {
+    return { code, map: null };
+  }
+}
+
+export function appendInlineSourceMap(code: string, map: RawSourceMap): string {
+  const encoded = Buffer.from(JSON.stringify(map), "utf-8").toString("base64");
+  return `${code}\n//# sourceMappingURL=data:application/json;base64,${encoded}\n`;
+}
+
+/**
+ * Chain two maps: `outer` maps the final code to an intermediate one, `inner`
+ * maps that intermediate code to the original source. The result maps the
+ * final code straight to the original.
+ */
+export function composeSourceMaps(outer: RawSourceMap, inner: RawSourceMap): RawSourceMap {
+  const innerMappings = decodeMappings(inner.mappings);
+  const composed: DecodedMappings = decodeMappings(outer.mappings).map((line) => {
+    const mapped: SourceMapSegment[] = [];
+    for (const segment of line) {
+      if (segment.length === 1) continue;
+      const traced = findSegment(innerMappings[segment[2]], segment[3]);
+      if (!traced || traced.length === 1) continue;
+      mapped.push(
+        traced.length === 5
+          ? [segment[0], traced[1], traced[2], traced[3], traced[4]]
+          : [segment[0], traced[1], traced[2], traced[3]],
+      );
+    }
+    return mapped;
+  });
+
+  return {
+    version: 3,
+    sources: inner.sources,
+    sourcesContent: inner.sourcesContent,
+    names: inner.names,
+    mappings: encodeMappings(composed),
+  };
+}
+
+/**
+ * Shift generated columns in `map` after line-preserving string rewrites
+ * turned `before` into `after` (import rewriting, env inlining and the like).
+ *
+ * Each changed line is treated as one edit between a common prefix and a
+ * common suffix: columns before the edit are unchanged, columns after it move
+ * by the length difference, and columns inside it snap to its start. If the
+ * rewrites changed the line count the map is returned unchanged.
+ */
+export function adjustForLineRewrites(
+  map: RawSourceMap,
+  before: string,
+  after: string,
+): RawSourceMap {
+  if (before === after) return map;
+  const beforeLines = before.split("\n");
+  const afterLines = after.split("\n");
+  if (beforeLines.length !== afterLines.length) return map;
+
+  const decoded = decodeMappings(map.mappings);
+  for (let i = 0; i < decoded.length && i < beforeLines.length; i++) {
+    const oldLine = beforeLines[i];
+    const newLine = afterLines[i];
+    if (oldLine === newLine) continue;
+
+    const maxShared = Math.min(oldLine.length, newLine.length);
+    let prefix = 0;
+    while (prefix < maxShared && oldLine[prefix] === newLine[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < maxShared - prefix &&
+      oldLine[oldLine.length - 1 - suffix] === newLine[newLine.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const editEnd = oldLine.length - suffix;
+    const delta = newLine.length - oldLine.length;
+    for (const segment of decoded[i]) {
+      if (segment[0] < prefix) continue;
+      segment[0] = segment[0] >= editEnd ? segment[0] + delta : prefix;
+    }
+  }
+
+  return { ...map, mappings: encodeMappings(decoded) };
+}
+
+/**
+ * Source map for a module served by the dev server.
+ *
+ * `transformMap` is esbuild's map from `transformed` back to its input, and
+ * `inputMap` (when the input was itself generated, e.g. by the UI compiler)
+ * maps that input back to the original file. `served` is `transformed` after
+ * swite's own string rewrites.
+ */
+export function buildServedSourceMap(options: {
+  transformMap: string;
+  inputMap?: RawSourceMap | null;
+  transformed: string;
+  served: string;
+  file: string;
+  // Content shown for `file` when no input map provides one
+  content: string;
+}): RawSourceMap {
+  let map: RawSourceMap = JSON.parse(options.transformMap);
+  map = adjustForLineRewrites(map, options.transformed, options.served);
+  if (options.inputMap) {
+    map = composeSourceMaps(map, options.inputMap);
+  }
+  if (map.sources.length === 1 && !map.sourcesContent?.[0]) {
+    map.sources = [options.file];
+    map.sourcesContent = [options.content];
+  }
+  return map;
+}
+
+// Last segment starting at or before `column`
+function findSegment(
+  line: SourceMapSegment[] | undefined,
+  column: number,
+): SourceMapSegment | null {
+  if (!line) return null;
+  let found: SourceMapSegment | null = null;
+  for (const segment of line) {
+    if (segment[0] > column) break;
+    found = segment;
+  }
+  return found;
+}
@@ -0,0 +1,128 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Source map "mappings" (Base64 VLQ) encoding and decoding
+ * Licensed under the MIT License.
+ */
+
+// [generatedColumn] or [generatedColumn, sourceIndex, sourceLine, sourceColumn, nameIndex?]
+// All values are 0-based and absolute (not relative to the previous segment).
+export type SourceMapSegment =
+  | [number]
+  | [number, number, number, number]
+  | [number, number, number, number, number];
+
+// One array of segments per generated line
+export type DecodedMappings = SourceMapSegment[][];
+
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map(
+  Array.from(BASE64_CHARS, (char, index) => [char, index] as const),
+);
+
+export function decodeMappings(mappings: string): DecodedMappings {
+  const decoded: DecodedMappings = [];
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  let nameIndex = 0;
+
+  for (const lineText of mappings.split(";")) {
+    const line: SourceMapSegment[] = [];
+    let generatedColumn = 0;
+
+    for (const segmentText of lineText.split(",")) {
+      if (!segmentText) continue;
+      const values = decodeVlq(segmentText);
+      generatedColumn += values[0];
+      if (values.length < 4) {
+        line.push([generatedColumn]);
+        continue;
+      }
+      sourceIndex += values[1];
+      sourceLine += values[2];
+      sourceColumn += values[3];
+      if (values.length >= 5) {
+        nameIndex += values[4];
+        line.push([generatedColumn, sourceIndex, sourceLine, sourceColumn, nameIndex]);
+      } else {
+        line.push([generatedColumn, sourceIndex, sourceLine, sourceColumn]);
+      }
+    }
+    decoded.push(line);
+  }
+
+  return decoded;
+}
+
+export function encodeMappings(decoded: DecodedMappings): string {
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  let nameIndex = 0;
+
+  const lines: string[] = [];
+  for (const line of decoded) {
+    let generatedColumn = 0;
+    const segments: string[] = [];
+    for (const segment of [...line].sort((a, b) => a[0] - b[0])) {
+      let text = encodeVlq(segment[0] - generatedColumn);
+      generatedColumn = segment[0];
+      if (segment.length !== 1) {
+        text += encodeVlq(segment[1] - sourceIndex);
+        text += encodeVlq(segment[2] - sourceLine);
+        text += encodeVlq(segment[3] - sourceColumn);
+        sourceIndex = segment[1];
+        sourceLine = segment[2];
+        sourceColumn = segment[3];
+        if (segment.length === 5) {
+          text += encodeVlq(segment[4] - nameIndex);
+          nameIndex = segment[4];
+        }
+      }
+      segments.push(text);
+    }
+    lines.push(segments.join(","));
+  }
+
+  return lines.join(";");
+}
+
+function decodeVlq(text: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of text) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid source map VLQ character "${char}"`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    // Lowest bit is the sign
+    const negative = value & 1;
+    value >>>= 1;
+    values.push(negative ? -value : value);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+}
+
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let text = "";
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    text += BASE64_CHARS[digit];
+  } while (vlq > 0);
+  return text;
+}
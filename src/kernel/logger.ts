@@ -0,0 +1,15 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Licensed under the MIT License.
+ */
+
+// The console methods the resolver and package registry log through
+export type Logger = Pick<Console, "log" | "warn" | "error">;
+
+// Keeps errors only, for commands that print a report of their own
+export const quietLogger: Logger = {
+  log: () => {},
+  warn: () => {},
+  error: (...args: unknown[]) => console.error(...args),
+};
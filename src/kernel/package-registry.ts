@@ -7,6 +7,7 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
 import chalk from "chalk";
+import type { Logger } from "./logger.js";
 
 export interface PackageInfo {
   name: string;
@@ -24,7 +25,8 @@ export class PackageRegistry {
    */
   async scanWorkspace(
     workspaceRoot: string,
-    additionalRoots: string[] = []
+    additionalRoots: string[] = [],
+    logger: Logger = console
   ): Promise<void> {
     if (this.scanned) {
       return; // Already scanned
@@ -32,33 +34,33 @@ export class PackageRegistry {
 
     // Validate workspace root exists
     if (!workspaceRoot) {
-      console.warn(chalk.yellow("[PackageRegistry] No workspace root provided, skipping scan"));
+      logger.warn(chalk.yellow("[PackageRegistry] No workspace root provided, skipping scan"));
       return;
     }
 
     try {
       const rootStat = await fs.stat(workspaceRoot);
       if (!rootStat.isDirectory()) {
-        console.warn(chalk.yellow(`[PackageRegistry] Workspace root is not a directory: ${workspaceRoot}`));
+        logger.warn(chalk.yellow(`[PackageRegistry] Workspace root is not a directory: ${workspaceRoot}`));
         return;
       }
     } catch (error: any) {
-      console.warn(chalk.yellow(`[PackageRegistry] Cannot access workspace root ${workspaceRoot}:`, error.message));
+      logger.warn(chalk.yellow(`[PackageRegistry] Cannot access workspace root ${workspaceRoot}:`, error.message));
       return;
     }
 
     this.scanRoots = [workspaceRoot, ...additionalRoots.filter(root => root && root !== workspaceRoot)];
-    console.log(chalk.blue(`[PackageRegistry] Scanning workspace for packages...`));
-    console.log(chalk.gray(`[PackageRegistry] Roots: ${this.scanRoots.join(", ")}`));
+    logger.log(chalk.blue(`[PackageRegistry] Scanning workspace for packages...`));
+    logger.log(chalk.gray(`[PackageRegistry] Roots: ${this.scanRoots.join(", ")}`));
 
     for (const root of this.scanRoots) {
       if (root) {
-        await this.scanDirectory(root);
+        await this.scanDirectory(root, logger);
       }
     }
 
     this.scanned = true;
-    console.log(
+    logger.log(
       chalk.green(
         `[PackageRegistry] ✅ Found ${this.packages.size} packages`
       )
@@ -68,7 +70,7 @@ export class PackageRegistry {
   /**
    * Recursively scan directory for package.json files
    */
-  private async scanDirectory(dir: string, depth: number = 0): Promise<void> {
+  private async scanDirectory(dir: string, logger: Logger, depth: number = 0): Promise<void> {
     if (depth > 15) return; // Prevent infinite recursion
 
     // Validate directory exists and is accessible
@@ -82,7 +84,7 @@ export class PackageRegistry {
       if (error.code === "ENOENT" || error.code === "EACCES") {
         return;
       }
-      console.warn(chalk.yellow(`[PackageRegistry] Cannot access ${dir}:`, error.message));
+      logger.warn(chalk.yellow(`[PackageRegistry] Cannot access ${dir}:`, error.message));
       return;
     }
 
@@ -119,14 +121,14 @@ export class PackageRegistry {
               // Store package - if duplicate name, prefer the one found first (or closest to workspace root)
               if (!this.packages.has(packageJson.name)) {
                 this.packages.set(packageJson.name, packageInfo);
-                console.log(
+                logger.log(
                   chalk.gray(
                     `[PackageRegistry] Found: ${packageJson.name} at ${packagePath}`
                   )
                 );
               } else {
                 // Log duplicate but don't overwrite (first found wins)
-                console.log(
+                logger.log(
                   chalk.yellow(
                     `[PackageRegistry] Duplicate package ${packageJson.name} found at ${packagePath}, keeping first`
                   )
@@ -140,13 +142,13 @@ export class PackageRegistry {
 
           // Recurse into subdirectories (but skip if we found a package.json here)
           // This allows nested package layouts (e.g. packages/foo/modules/bar)
-          await this.scanDirectory(path.join(dir, entry.name), depth + 1);
+          await this.scanDirectory(path.join(dir, entry.name), logger, depth + 1);
         }
       }
     } catch (error: any) {
       // Directory read error, log but don't fail
       if (error.code !== "ENOENT" && error.code !== "EACCES") {
-        console.warn(chalk.yellow(`[PackageRegistry] Error reading directory ${dir}:`, error.message));
+        logger.warn(chalk.yellow(`[PackageRegistry] Error reading directory ${dir}:`, error.message));
       }
     }
   }
@@ -168,14 +170,14 @@ export class PackageRegistry {
   /**
    * Clear cache and rescan
    */
-  async rescan(): Promise<void> {
+  async rescan(logger: Logger = console): Promise<void> {
     const roots = [...this.scanRoots];
     this.packages.clear();
     this.scanned = false;
     this.scanRoots = [];
     
     if (roots.length > 0) {
-      await this.scanWorkspace(roots[0], roots.slice(1));
+      await this.scanWorkspace(roots[0], roots.slice(1), logger);
     }
   }
 
@@ -6,12 +6,13 @@
 
 import { promises as fs } from "node:fs";
 import path from "node:path";
+import type { Logger } from "./logger.js";
 
 /**
  * Find the workspace root by looking for pnpm-workspace.yaml or package.json with workspaces
  * Updated: Now also checks for lib/ directory to ensure we find the correct SWS root
  */
-export async function findWorkspaceRoot(root: string): Promise<string | null> {
+export async function findWorkspaceRoot(root: string, logger: Logger = console): Promise<string | null> {
   let current = root;
   for (let i = 0; i < 10; i++) { // Increased from 5 to 10 to go higher up
     const workspaceFile = path.join(current, "pnpm-workspace.yaml");
@@ -24,16 +25,16 @@ export async function findWorkspaceRoot(root: string): Promise<string | null> {
       const packagesDir = path.join(current, "packages");
       try {
         await fs.access(libDir);
-        console.log(`[workspace] Found workspace root with lib/: ${current}`);
+        logger.log(`[workspace] Found workspace root with lib/: ${current}`);
         return current;
       } catch {
         try {
           await fs.access(packagesDir);
-          console.log(`[workspace] Found workspace root with packages/: ${current}`);
+          logger.log(`[workspace] Found workspace root with packages/: ${current}`);
           return current;
         } catch {
           // Workspace file exists but no lib/ or packages/, continue searching up
-          console.log(`[workspace] Found workspace file at ${current} but no lib/ or packages/, continuing search...`);
+          logger.log(`[workspace] Found workspace file at ${current} but no lib/ or packages/, continuing search...`);
         }
       }
     } catch {
@@ -43,7 +44,7 @@ export async function findWorkspaceRoot(root: string): Promise<string | null> {
           // Also check for lib/ when package.json has workspaces
           try {
             await fs.access(libDir);
-            console.log(`[workspace] Found workspace root with lib/ (via package.json): ${current}`);
+            logger.log(`[workspace] Found workspace root with lib/ (via package.json): ${current}`);
             return current;
           } catch {
             // Has workspaces but no lib/, continue searching
@@ -57,6 +58,6 @@ export async function findWorkspaceRoot(root: string): Promise<string | null> {
     if (parent === current) break;
     current = parent;
   }
-  console.warn(`[workspace] No workspace root found starting from: ${root}`);
+  logger.warn(`[workspace] No workspace root found starting from: ${root}`);
   return null;
 }
@@ -0,0 +1,99 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Preview Server
+ * Licensed under the MIT License.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+
+export type ContentEncoding = "br" | "gzip";
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const gzip = promisify(zlib.gzip);
+
+// Binary formats (images, fonts) are already compressed — re-compressing them
+// only burns CPU for a few bytes.
+const COMPRESSIBLE_EXTS = new Set([
+  ".js",
+  ".mjs",
+  ".css",
+  ".html",
+  ".json",
+  ".map",
+  ".svg",
+  ".txt",
+  ".xml",
+  ".wasm",
+]);
+
+// Below this size the compression framing costs more than it saves
+const MIN_COMPRESS_BYTES = 1024;
+
+interface CompressedEntry {
+  mtimeMs: number;
+  body: Buffer;
+}
+
+const cache = new Map<string, CompressedEntry>();
+
+export function isCompressible(filePath: string, size: number): boolean {
+  return size >= MIN_COMPRESS_BYTES && COMPRESSIBLE_EXTS.has(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Pick the best encoding the client accepts. Brotli wins over gzip when both
+ * are offered; `q=0` explicitly refuses an encoding.
+ */
+export function negotiateEncoding(acceptEncoding: string | undefined): ContentEncoding | null {
+  if (!acceptEncoding) return null;
+  const accepted = new Set<string>();
+  for (const part of acceptEncoding.split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    const q = params.find((p) => p.trim().startsWith("q="));
+    if (q && Number(q.trim().slice(2)) === 0) continue;
+    accepted.add(name.trim());
+  }
+  if (accepted.has("br")) return "br";
+  if (accepted.has("gzip") || accepted.has("*")) return "gzip";
+  return null;
+}
+
+/**
+ * Return the encoded body for a file. Precompressed siblings (`app.js.br`,
+ * `app.js.gz`) written by a build step are preferred; otherwise the file is
+ * compressed once and kept in memory until its mtime changes.
+ */
+export async function getEncodedBody(
+  filePath: string,
+  mtimeMs: number,
+  encoding: ContentEncoding,
+): Promise<Buffer> {
+  const precompressed = `${filePath}.${encoding === "br" ? "br" : "gz"}`;
+  try {
+    const stats = await fs.stat(precompressed);
+    if (stats.mtimeMs >= mtimeMs) {
+      return await fs.readFile(precompressed);
+    }
+  } catch {
+    // no precompressed sibling — compress on the fly
+  }
+
+  const key = `${encoding}:${filePath}`;
+  const cached = cache.get(key);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.body;
+  }
+
+  const raw = await fs.readFile(filePath);
+  const body =
+    encoding === "br"
+      ? await brotliCompress(raw, {
+          params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 9 },
+        })
+      : await gzip(raw, { level: 9 });
+  cache.set(key, { mtimeMs, body });
+  return body;
+}
@@ -0,0 +1,188 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Preview Server
+ * Licensed under the MIT License.
+ */
+
+import express from "express";
+import type { Request, Response, NextFunction } from "express";
+import { promises as fs } from "node:fs";
+import type { Server } from "node:http";
+import path from "node:path";
+import chalk from "chalk";
+import {
+  getEncodedBody,
+  isCompressible,
+  negotiateEncoding,
+} from "./compression.js";
+import { ROUTE_TABLE_PATH } from "../internal/routes/route-table.js";
+
+export interface PreviewConfig {
+  root: string;
+  // Build output to serve, relative to root (what SwiteBuilder wrote)
+  outDir: string;
+  port: number;
+  host: string;
+}
+
+// esbuild content hashes are 8 upper-case base32 characters: app-5HXKQ2ZB.js
+const HASHED_ASSET_PATTERN = /-[A-Z0-9]{8}\.[a-z0-9]+$/;
+
+const ROUTE_TABLE_FILE = ROUTE_TABLE_PATH.slice(1);
+
+const IMMUTABLE_CACHE = "public, max-age=31536000, immutable";
+const REVALIDATE_CACHE = "no-cache";
+
+/**
+ * Serves the production build exactly as it would ship: no on-the-fly
+ * compilation, no HMR. Hashed assets are cached forever, everything else is
+ * revalidated via ETag, and navigation requests fall back to the built
+ * index.html so client-side routes work on reload.
+ */
+export class SwitePreviewServer {
+  private app = express();
+  private config: PreviewConfig;
+  private outDir: string;
+  private server: Server | null = null;
+
+  constructor(config: Partial<PreviewConfig> = {}) {
+    this.config = {
+      root: process.cwd(),
+      outDir: "dist",
+      port: 3000,
+      host: "localhost",
+      ...config,
+    };
+    this.outDir = path.resolve(this.config.root, this.config.outDir);
+  }
+
+  async start(): Promise<void> {
+    console.log(chalk.cyan("\n⚡ SWITE - Preview Server\n"));
+
+    try {
+      await fs.access(path.join(this.outDir, "index.html"));
+    } catch {
+      throw new Error(
+        `No build output found at ${this.outDir}. Run "swite build" before "swite preview".`,
+      );
+    }
+
+    this.app.disable("x-powered-by");
+    this.app.use((req, res, next) => {
+      this.serveFile(req, res, next).catch(next);
+    });
+    this.app.use((req, res, next) => {
+      this.serveFallback(req, res).catch(next);
+    });
+
+    const bindHost = this.config.host === "localhost" ? "0.0.0.0" : this.config.host;
+    await new Promise<void>((resolve) => {
+      this.server = this.app.listen(this.config.port, bindHost, () => {
+        console.log(chalk.green(`  ➜ Local:   http://localhost:${this.config.port}/`));
+        console.log(chalk.gray(`  ➜ Serving ${this.outDir}\n`));
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  private async serveFile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    if (req.method !== "GET" && req.method !== "HEAD") return next();
+
+    let urlPath: string;
+    try {
+      urlPath = decodeURIComponent(req.path);
+    } catch {
+      res.status(400).send("Bad request");
+      return;
+    }
+
+    const filePath = path.join(this.outDir, urlPath);
+    if (filePath !== this.outDir && !filePath.startsWith(this.outDir + path.sep)) {
+      res.status(403).send("Forbidden");
+      return;
+    }
+
+    let servedPath = filePath;
+    let stats;
+    try {
+      stats = await fs.stat(servedPath);
+      // Prerendered pages live at <route>/index.html
+      if (stats.isDirectory()) {
+        servedPath = path.join(filePath, "index.html");
+        stats = await fs.stat(servedPath);
+      }
+    } catch {
+      return next();
+    }
+    if (!stats.isFile()) return next();
+
+    await this.sendFile(req, res, servedPath, stats.size, stats.mtimeMs);
+  }
+
+  private async serveFallback(req: Request, res: Response): Promise<void> {
+    const accept = String(req.headers.accept || "");
+    const isNavigation =
+      (req.method === "GET" || req.method === "HEAD") &&
+      accept.includes("text/html") &&
+      !path.extname(req.path);
+
+    // Same rule as the dev server: never answer a script/style fetch with HTML
+    if (!isNavigation) {
+      res.status(404).setHeader("Content-Type", "text/plain");
+      res.send(`Not found: ${req.path}`);
+      return;
+    }
+
+    const indexPath = path.join(this.outDir, "index.html");
+    const stats = await fs.stat(indexPath);
+    await this.sendFile(req, res, indexPath, stats.size, stats.mtimeMs);
+  }
+
+  private async sendFile(
+    req: Request,
+    res: Response,
+    filePath: string,
+    size: number,
+    mtimeMs: number,
+  ): Promise<void> {
+    const immutable = HASHED_ASSET_PATTERN.test(path.basename(filePath));
+    const etag = `W/"${size.toString(16)}-${Math.floor(mtimeMs).toString(16)}"`;
+
+    // The route table is JSON despite having no extension
+    res.type(path.basename(filePath) === ROUTE_TABLE_FILE ? ".json" : path.extname(filePath) || ".html");
+    res.setHeader("Cache-Control", immutable ? IMMUTABLE_CACHE : REVALIDATE_CACHE);
+    res.setHeader("ETag", etag);
+
+    if (req.headers["if-none-match"] === etag) {
+      res.status(304).end();
+      return;
+    }
+
+    let body: Buffer | null = null;
+    if (isCompressible(filePath, size)) {
+      res.setHeader("Vary", "Accept-Encoding");
+      const encoding = negotiateEncoding(req.headers["accept-encoding"] as string | undefined);
+      if (encoding) {
+        body = await getEncodedBody(filePath, mtimeMs, encoding);
+        res.setHeader("Content-Encoding", encoding);
+      }
+    }
+    if (!body) {
+      body = await fs.readFile(filePath);
+    }
+
+    res.setHeader("Content-Length", body.length);
+    if (req.method === "HEAD") {
+      res.end();
+      return;
+    }
+    res.end(body);
+  }
+}
@@ -7,13 +7,29 @@ import path from "node:path";
 import { promises as fs } from "node:fs";
 import chalk from "chalk";
 import { findSwissLibMonorepo } from "../kernel/package-finder.js";
-import { shouldUseCdnFallback } from "./cdn/cdn-fallback.js";
+import { VENDOR_URL_PREFIX, type VendoredDeps } from "../dev-engine/deps/vendor.js";
+import {
+  CdnFallbackDisabledError,
+  getCdnUrl,
+  isCdnVersionPinned,
+  shouldUseCdnFallback,
+  type CdnOptions,
+} from "./cdn/cdn-fallback.js";
+import { resolvePackageExports } from "./package-exports.js";
 import type { UrlResolverContext, WorkspacePackageResolverContext } from "./url-resolver.js";
 import { resolveWorkspacePackage } from "./workspace-package-resolver.js";
 import { toUrl } from "./url-resolver.js";
 
 export interface BareImportResolverContext extends UrlResolverContext {
   resolveWorkspacePackage: (pkgName: string) => Promise<string | null>;
+  // package.json `exports` conditions to match (see package-exports.ts)
+  conditions: readonly string[];
+  // False with --offline or resolve.cdn: false
+  cdnFallback: boolean;
+  // Provider and pinned versions (see resolve.cdn)
+  cdn: CdnOptions;
+  // Imports `swite vendor` bundled, served instead of the CDN
+  vendoredDeps: VendoredDeps | null;
 }
 
 /**
@@ -61,15 +77,18 @@ export async function resolveBareImport(
       const testPkgDir = path.join(nodeModulesPath, pkgName);
       const testPkgJsonPath = path.join(testPkgDir, "package.json");
       if (await context.fileExists(testPkgJsonPath)) {
+        context.trace?.accept("node-modules", `found ${testPkgDir}`);
         pkgDir = testPkgDir;
         pkgJsonPath = testPkgJsonPath;
         break;
       }
+      context.trace?.reject("node-modules", `no ${pkgName}/package.json in ${nodeModulesPath}`);
     }
 
     if (!pkgJsonPath || !pkgDir) {
       const workspacePkg = await context.resolveWorkspacePackage(pkgName);
       if (workspacePkg) {
+        context.trace?.accept("workspace-package", `package registry has ${pkgName} at ${workspacePkg}`);
         return await resolveWorkspacePackageEntry(
           workspacePkg,
           pkgName,
@@ -79,15 +98,16 @@ export async function resolveBareImport(
         );
       }
 
-      if (!shouldUseCdnFallback(pkgName)) {
-        console.warn(
+      context.trace?.reject("package-registry", `${pkgName} is not a workspace package in the registry`);
+
+      if (!shouldUseCdnFallback(pkgName, context.cdn.scopes)) {
+        context.logger.warn(
           `[SWITE] Package ${pkgName} not found anywhere. Scoped package detected; CDN fallback is disabled by default.`,
         );
-        return `/node_modules/${specifier}`;
+      } else {
+        context.logger.warn(`[SWITE] Package ${pkgName} not found anywhere, using CDN fallback`);
       }
-
-      console.warn(`[SWITE] Package ${pkgName} not found anywhere, using CDN fallback`);
-      return `https://cdn.jsdelivr.net/npm/${specifier}/+esm`;
+      return fallbackUrl(specifier, `${pkgName} not found in node_modules or the workspace`, context);
     }
 
     // Continue with normal resolution if we found it
@@ -185,7 +205,7 @@ export async function resolveBareImport(
           if (caseInsensitiveMatch) {
             const correctedPath = path.join(dir, caseInsensitiveMatch);
             if (await context.fileExists(correctedPath)) {
-              console.log(
+              context.logger.log(
                 chalk.yellow(
                   `[SWITE] Case-insensitive match for ${pkgName}: ${fileName} -> ${caseInsensitiveMatch}`,
                 ),
@@ -222,18 +242,48 @@ export async function resolveBareImport(
     }
 
     // Fallback to CDN (jsDelivr; esm.sh returns 500 for some packages) when allowed.
-    console.warn(`[SWITE] Could not resolve ${specifier}, using fallback`);
-    return shouldUseCdnFallback(pkgName)
-      ? `https://cdn.jsdelivr.net/npm/${specifier}/+esm`
-      : `/node_modules/${specifier}`;
+    context.logger.warn(`[SWITE] Could not resolve ${specifier}, using fallback`);
+    return fallbackUrl(specifier, `no entry point for ${pkgName}`, context);
   } catch (error) {
-    console.warn(`[SWITE] Error resolving ${specifier}:`, error);
-    return shouldUseCdnFallback(pkgName)
-      ? `https://cdn.jsdelivr.net/npm/${specifier}/+esm`
-      : `/node_modules/${specifier}`;
+    if (error instanceof CdnFallbackDisabledError) throw error;
+    context.logger.warn(`[SWITE] Error resolving ${specifier}:`, error);
+    return fallbackUrl(specifier, `error: ${error instanceof Error ? error.message : String(error)}`, context);
   }
 }
 
+/**
+ * URL for an import that can't be resolved locally: its `swite vendor`
+ * bundle, the CDN when the CDN policy allows it for the package, otherwise
+ * a /node_modules/ URL for the browser to try. Throws
+ * CdnFallbackDisabledError when only the CDN would do and it's turned off.
+ */
+export function fallbackUrl(
+  specifier: string,
+  reason: string,
+  context: Pick<BareImportResolverContext, "cdnFallback" | "cdn" | "vendoredDeps" | "trace">,
+): string {
+  const { vendoredDeps, trace } = context;
+  if (vendoredDeps && Object.prototype.hasOwnProperty.call(vendoredDeps.files, specifier)) {
+    trace?.accept("vendor", `${reason}; vendored into ${path.join(vendoredDeps.dir, vendoredDeps.files[specifier])}`);
+    return `${VENDOR_URL_PREFIX}${vendoredDeps.files[specifier]}?v=${vendoredDeps.hash}`;
+  }
+  if (!shouldUseCdnFallback(specifier, context.cdn.scopes)) {
+    trace?.reject("cdn", `${reason}; CDN fallback is off for this scope (SWITE_CDN_FALLBACK_SCOPES or resolve.cdn.scopes), using /node_modules/`);
+    return `/node_modules/${specifier}`;
+  }
+  if (!context.cdnFallback) {
+    trace?.reject("cdn", `${reason}; CDN fallback is off (--offline or resolve.cdn: false)`);
+    throw new CdnFallbackDisabledError(specifier, reason);
+  }
+  trace?.accept(
+    "cdn",
+    `${reason}; falling back to the CDN, ${
+      isCdnVersionPinned(specifier, context.cdn) ? "version pinned by the lockfile" : "unpinned (not in the lockfile)"
+    }`,
+  );
+  return getCdnUrl(specifier, context.cdn);
+}
+
 /**
  * Resolve entry point for workspace package
  */
@@ -248,86 +298,49 @@ async function resolveWorkspacePackageEntry(
     await fs.readFile(path.join(workspacePkg, "package.json"), "utf-8"),
   );
 
-  // Handle exports field if present
-  if (workspacePkgJson.exports) {
-    const subPathWithoutExt = subPath
-      ? subPath.replace(/\.(js|ts|ui|uix)$/, "")
-      : "";
-    let exportKey = subPathWithoutExt ? `./${subPathWithoutExt}` : ".";
-
-    // Try to find matching export
-    if (subPath && !workspacePkgJson.exports[exportKey]) {
-      if (subPathWithoutExt) {
-        const withoutExtKey = `./${subPathWithoutExt}`;
-        if (workspacePkgJson.exports[withoutExtKey]) {
-          exportKey = withoutExtKey;
-        }
-      }
-
-      if (!workspacePkgJson.exports[exportKey]) {
-        const subPathParts = subPathWithoutExt.split("/");
-        if (subPathParts.length > 1) {
-          const dirPath = subPathParts.slice(0, -1).join("/");
-          const dirExportKey = `./${dirPath}`;
-          if (workspacePkgJson.exports[dirExportKey]) {
-            exportKey = dirExportKey;
-          } else {
-            const firstDir = subPathParts[0];
-            const firstDirExportKey = `./${firstDir}`;
-            if (workspacePkgJson.exports[firstDirExportKey]) {
-              exportKey = firstDirExportKey;
-            } else {
-              const lastDir = subPathParts[subPathParts.length - 2];
-              const lastDirExportKey = `./${lastDir}`;
-              if (workspacePkgJson.exports[lastDirExportKey]) {
-                exportKey = lastDirExportKey;
-              }
-            }
-          }
-        }
-      }
+  // Handle exports field if present; it hides everything it doesn't list
+  if (workspacePkgJson.exports !== undefined && workspacePkgJson.exports !== null) {
+    const entryPoint = resolvePackageExports(
+      workspacePkgJson.exports,
+      subPath ? `./${subPath}` : ".",
+      context.conditions,
+    );
+    if (!entryPoint) {
+      context.logger.warn(`[SWITE] ${specifier} is not exported by ${pkgName}, using fallback`);
+      context.trace?.reject(
+        "package-exports",
+        `"${subPath ? `./${subPath}` : "."}" is not exported for conditions ${context.conditions.join(", ")}`,
+      );
+      return fallbackUrl(specifier, `${specifier} is not exported`, context);
     }
-
-    const exportEntry = workspacePkgJson.exports[exportKey];
-
-    if (exportEntry) {
-      let entryPoint: string;
-      if (typeof exportEntry === "string") {
-        entryPoint = exportEntry;
-      } else if (exportEntry.import) {
-        entryPoint = exportEntry.import;
-      } else if (exportEntry.default) {
-        entryPoint = exportEntry.default;
-      } else {
-        entryPoint = exportEntry;
-      }
-
-      const normalizedEntryPoint = entryPoint.startsWith("./")
-        ? entryPoint.slice(2)
-        : entryPoint;
-      const fullPath = path.join(workspacePkg, normalizedEntryPoint);
-
-      // Dev: prefer src over dist for workspace packages (unbuilt or dev mode)
-      const normalizedFull = fullPath.replace(/\\/g, "/");
-      if (normalizedFull.includes("/dist/")) {
-        const srcPath = fullPath.replace(/[/\\]dist[/\\]/, path.sep + "src" + path.sep).replace(/\.js$/i, ".ts");
-        if (await context.fileExists(srcPath)) {
-          return await toUrl(srcPath, context);
-        }
+    context.trace?.accept("package-exports", `"${subPath ? `./${subPath}` : "."}" -> ${entryPoint}`);
+
+    const normalizedEntryPoint = entryPoint.startsWith("./")
+      ? entryPoint.slice(2)
+      : entryPoint;
+    const fullPath = path.join(workspacePkg, normalizedEntryPoint);
+
+    // Dev: prefer src over dist for workspace packages (unbuilt or dev mode)
+    const normalizedFull = fullPath.replace(/\\/g, "/");
+    if (normalizedFull.includes("/dist/")) {
+      const srcPath = fullPath.replace(/[/\\]dist[/\\]/, path.sep + "src" + path.sep).replace(/\.js$/i, ".ts");
+      if (await context.fileExists(srcPath)) {
+        return await toUrl(srcPath, context);
       }
+    }
 
-      if (await context.fileExists(fullPath)) {
-        return await toUrl(fullPath, context);
-      }
+    if (await context.fileExists(fullPath)) {
+      return await toUrl(fullPath, context);
+    }
 
-      // Try extensions
-      for (const ext of [".ui", ".uix", ".ts", ".js"]) {
-        const withExt = fullPath.replace(/\.(js|ts|ui|uix)$/, ext);
-        if (await context.fileExists(withExt)) {
-          return await toUrl(withExt, context);
-        }
+    // Try extensions
+    for (const ext of [".ui", ".uix", ".ts", ".js"]) {
+      const withExt = fullPath.replace(/\.(js|ts|ui|uix)$/, ext);
+      if (await context.fileExists(withExt)) {
+        return await toUrl(withExt, context);
       }
     }
+    context.trace?.reject("package-exports", `${fullPath} does not exist`);
   }
 
   // Fallback to old logic
@@ -340,6 +353,10 @@ async function resolveWorkspacePackageEntry(
   }
 
   const fullPath = path.join(workspacePkg, entryPoint);
+  context.trace?.accept(
+    "entry-point",
+    subPath ? `subpath ${subPath} as a file path` : `"module"/"main" entry ${entryPoint}`,
+  );
 
   // Dev: prefer src over dist for workspace packages
   const normalizedFull = fullPath.replace(/\\/g, "/");
@@ -384,17 +401,16 @@ async function resolveWorkspacePackageEntry(
   for (const ext of [".ts", ".ui", ".uix", ".js"]) {
     const srcIndex = path.join(srcDir, `index${ext}`);
     if (await context.fileExists(srcIndex)) {
-      console.log(
+      context.logger.log(
         `[SWITE] Found unbuilt workspace package ${pkgName} at ${srcIndex}`,
       );
       return await toUrl(srcIndex, context);
     }
   }
 
-  console.warn(
+  context.logger.warn(
     `[SWITE] Entry point not found for ${pkgName} at ${fullPath}, using fallback`,
   );
-  return shouldUseCdnFallback(pkgName)
-    ? `https://cdn.jsdelivr.net/npm/${specifier}/+esm`
-    : `/node_modules/${specifier}`;
+  context.trace?.reject("entry-point", `nothing at ${fullPath}, with extensions, index files or src/index`);
+  return fallbackUrl(specifier, `no entry point for ${pkgName}`, context);
 }
@@ -1,16 +1,39 @@
 /**
  * CDN fallback policy.
  *
- * Swite can fall back to jsDelivr (+esm) for packages it can't resolve locally.
- * This must be safe and project-agnostic:
+ * Swite can fall back to a CDN (jsDelivr +esm by default, see resolve.cdn)
+ * for packages it can't resolve locally. This must be safe and project-agnostic:
  * - Unscoped packages (e.g. "react") are usually public on npm; allow by default.
  * - Scoped packages (e.g. "@scope/pkg") may be private; do NOT CDN-fallback by default.
  *
  * Opt-in:
  * - Set `SWITE_CDN_FALLBACK_SCOPES` to a comma-separated list of scopes to allow,
- *   e.g. "@types,@tanstack".
+ *   e.g. "@types,@tanstack", or list them in resolve.cdn.scopes.
  */
 
+import type { CdnConfig, CdnProvider } from "../../config/config.js";
+import { readLockedVersions } from "./lockfile.js";
+
+// `{path}` is the subpath with its leading slash, or empty
+export const CDN_PROVIDERS: Record<CdnProvider, string> = {
+  jsdelivr: "https://cdn.jsdelivr.net/npm/{name}@{version}{path}/+esm",
+  // A fixed target: esm.sh picks one from the User-Agent otherwise, which
+  // would break integrity hashes taken outside the browser
+  "esm.sh": "https://esm.sh/{name}@{version}{path}?target=es2022",
+  unpkg: "https://unpkg.com/{name}@{version}{path}?module",
+};
+
+export interface CdnOptions {
+  // URL template with {name}, {version} and {path}
+  template: string;
+  // Package name -> version locked in the lockfile
+  versions: Record<string, string>;
+  // Scopes allowed besides SWITE_CDN_FALLBACK_SCOPES
+  scopes: string[];
+}
+
+export const DEFAULT_CDN_OPTIONS: CdnOptions = { template: CDN_PROVIDERS.jsdelivr, versions: {}, scopes: [] };
+
 function getScope(specifierOrPkg: string): string | null {
   if (!specifierOrPkg.startsWith("@")) return null;
   const firstSlash = specifierOrPkg.indexOf("/");
@@ -18,20 +41,78 @@ function getScope(specifierOrPkg: string): string | null {
   return specifierOrPkg.slice(0, firstSlash); // "@scope"
 }
 
-function parseAllowList(): Set<string> {
+function parseAllowList(extraScopes: string[]): Set<string> {
   const raw = process.env.SWITE_CDN_FALLBACK_SCOPES || "";
-  const scopes = raw
-    .split(",")
+  const scopes = [...raw.split(","), ...extraScopes]
     .map((s) => s.trim())
     .filter(Boolean)
     .map((s) => (s.startsWith("@") ? s : `@${s}`));
   return new Set(scopes);
 }
 
-export function shouldUseCdnFallback(specifierOrPkg: string): boolean {
+export function shouldUseCdnFallback(specifierOrPkg: string, extraScopes: string[] = []): boolean {
   const scope = getScope(specifierOrPkg);
   if (!scope) return true; // unscoped: allow by default
-  const allow = parseAllowList();
+  const allow = parseAllowList(extraScopes);
   return allow.has(scope);
 }
 
+/**
+ * CDN settings from resolve.cdn: the provider's URL template and, unless
+ * `pin` is false, the versions locked in the app's lockfile. Throws for a
+ * provider that's neither known nor a template.
+ */
+export async function loadCdnOptions(root: string, config: boolean | CdnConfig = {}): Promise<CdnOptions> {
+  const cdn = typeof config === "object" ? config : {};
+  const provider = cdn.provider ?? "jsdelivr";
+  const template = Object.prototype.hasOwnProperty.call(CDN_PROVIDERS, provider)
+    ? CDN_PROVIDERS[provider as CdnProvider]
+    : provider;
+  if (!template.includes("{name}")) {
+    throw new Error(
+      `resolve.cdn.provider must be one of ${Object.keys(CDN_PROVIDERS).join(", ")} or a URL template with {name}, got "${provider}"`,
+    );
+  }
+  return {
+    template,
+    versions: cdn.pin === false ? {} : await readLockedVersions(root),
+    scopes: cdn.scopes ?? [],
+  };
+}
+
+/** Whether the lockfile pins the import's package, i.e. its CDN URL can't change */
+export function isCdnVersionPinned(specifier: string, options: CdnOptions): boolean {
+  return Object.prototype.hasOwnProperty.call(options.versions, getPackageName(specifier));
+}
+
+export function getCdnUrl(specifier: string, options: CdnOptions = DEFAULT_CDN_OPTIONS): string {
+  const name = getPackageName(specifier);
+  const version = options.versions[name];
+  const template = version ? options.template : options.template.replace(/@\{version\}/g, "");
+  return template
+    .replace(/\{name\}/g, () => name)
+    .replace(/\{version\}/g, () => version ?? "latest")
+    .replace(/\{path\}/g, () => specifier.slice(name.length));
+}
+
+function getPackageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+/**
+ * Thrown instead of falling back to the CDN when the fallback is turned off
+ * (`swite dev --offline` or `resolve.cdn: false`).
+ */
+export class CdnFallbackDisabledError extends Error {
+  constructor(
+    readonly specifier: string,
+    reason: string,
+  ) {
+    super(
+      `Cannot resolve "${specifier}": ${reason}, and CDN fallback is off (--offline or resolve.cdn: false). ` +
+        `Install the package, or run "swite vendor" to bundle it from node_modules into .swite/vendor.`,
+    );
+    this.name = "CdnFallbackDisabledError";
+  }
+}
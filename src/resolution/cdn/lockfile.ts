@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Locked dependency versions from pnpm-lock.yaml and package-lock.json
+ * Licensed under the MIT License.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+const LOCKFILES = ["pnpm-lock.yaml", "package-lock.json"];
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "optionalDependencies"];
+// Registry versions only; workspace links, file: and git dependencies aren't on a CDN
+const VERSION = /^\d+\.\d+\.\d+[^\s]*$/;
+
+/**
+ * Versions of the app's direct dependencies, from the nearest lockfile at
+ * or above `root`. In a workspace the app's own entries win over the
+ * workspace root's. Empty when there's no lockfile.
+ */
+export async function readLockedVersions(root: string): Promise<Record<string, string>> {
+  for (let current = path.resolve(root); ; current = path.dirname(current)) {
+    for (const name of LOCKFILES) {
+      let source: string;
+      try {
+        source = await fs.readFile(path.join(current, name), "utf-8");
+      } catch {
+        continue;
+      }
+      // Lockfiles key workspace projects by their path from the lockfile
+      const project = path.relative(current, root).split(path.sep).join("/");
+      return name === "pnpm-lock.yaml"
+        ? readPnpmLock(readYamlBlocks(source, ["importers", ...DEPENDENCY_FIELDS]), project)
+        : readPackageLock(JSON.parse(source), project);
+    }
+    if (path.dirname(current) === current) return {};
+  }
+}
+
+function readPnpmLock(lock: Record<string, unknown>, project: string): Record<string, string> {
+  // Without `importers` (single-project lockfiles) the dependencies are top level
+  const importers = isRecord(lock.importers)
+    ? [lock.importers["."], project ? lock.importers[project] : undefined]
+    : [lock];
+
+  const versions: Record<string, string> = {};
+  for (const importer of importers) {
+    if (!isRecord(importer)) continue;
+    for (const field of DEPENDENCY_FIELDS) {
+      const dependencies = importer[field];
+      if (!isRecord(dependencies)) continue;
+      for (const [name, entry] of Object.entries(dependencies)) {
+        // `name: 1.0.0` (v5) or `name: { specifier, version }` (v6+); peer
+        // suffixes are `(react@18.2.0)` (v6+) or `_react@18.2.0` (v5)
+        const version = typeof entry === "string" ? entry : isRecord(entry) ? entry.version : undefined;
+        if (typeof version !== "string") continue;
+        const locked = version.replace(/[(_].*$/, "");
+        if (VERSION.test(locked)) versions[name] = locked;
+      }
+    }
+  }
+  return versions;
+}
+
+function readPackageLock(lock: unknown, project: string): Record<string, string> {
+  const versions: Record<string, string> = {};
+  if (!isRecord(lock)) return versions;
+  // lockfileVersion 1
+  if (!isRecord(lock.packages)) {
+    for (const [name, entry] of Object.entries(isRecord(lock.dependencies) ? lock.dependencies : {})) {
+      const version = isRecord(entry) ? entry.version : undefined;
+      if (typeof version === "string" && VERSION.test(version)) versions[name] = version;
+    }
+    return versions;
+  }
+
+  // lockfileVersion 2/3: hoisted `node_modules/<name>`, then the app's own
+  // `<project>/node_modules/<name>`
+  for (const prefix of project ? ["", `${project}/`] : [""]) {
+    for (const [key, entry] of Object.entries(lock.packages)) {
+      if (!key.startsWith(`${prefix}node_modules/`) || !isRecord(entry)) continue;
+      const name = key.slice(prefix.length + "node_modules/".length);
+      if (name.includes("/node_modules/") || entry.link) continue;
+      if (typeof entry.version === "string" && VERSION.test(entry.version)) versions[name] = entry.version;
+    }
+  }
+  return versions;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+type YamlMapping = { [key: string]: string | YamlMapping };
+
+// `key:` or `key: value`; a quoted key may contain `: `
+const MAPPING_LINE = /^('(?:[^']|'')*'|"(?:[^"\\]|\\.)*"|[^\s'"#](?:[^:]|:(?=\S))*?)\s*:(?:\s+(.*))?$/;
+
+/**
+ * Read the block mappings under the given top-level keys of a YAML
+ * document, which is all that's needed of a pnpm lockfile: its importers
+ * and dependencies. Other sections (packages, snapshots) are skipped, and
+ * so is anything under a sequence item or a key with a value on its line,
+ * which covers flow collections and multi-line scalars.
+ */
+function readYamlBlocks(source: string, keys: readonly string[]): YamlMapping {
+  const document: YamlMapping = {};
+  let stack: Array<{ indent: number; value: YamlMapping }> = [];
+  // Lines indented past this continue the value of the line before
+  let skipPast = Infinity;
+  for (const line of source.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const indent = line.length - line.trimStart().length;
+    if (indent > skipPast) continue;
+    skipPast = Infinity;
+
+    const match = /^-(\s|$)/.test(trimmed) ? null : MAPPING_LINE.exec(trimmed);
+    const key = match ? unquote(match[1]) : null;
+    const value = match?.[2] ? readScalar(match[2]) : null;
+    if (indent === 0) {
+      stack = key !== null && value === null && keys.includes(key) ? [{ indent, value: (document[key] = {}) }] : [];
+      continue;
+    }
+    if (stack.length === 0) continue;
+    if (key === null || value !== null) skipPast = indent;
+    if (key === null) continue;
+
+    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1].value;
+    if (value === null) {
+      const child: YamlMapping = {};
+      parent[key] = child;
+      stack.push({ indent, value: child });
+    } else {
+      parent[key] = value;
+    }
+  }
+  return document;
+}
+
+function readScalar(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^['"]/.test(trimmed)) return unquote(trimmed);
+  const plain = trimmed.replace(/\s+#.*$/, "");
+  return plain || null;
+}
+
+function unquote(value: string): string {
+  if (/^'.*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+  if (/^".*"$/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return value.trim();
+}
@@ -0,0 +1,181 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * package.json `exports` / `imports` resolution shared by the dev server and the production builder
+ * Licensed under the MIT License.
+ */
+
+// Conditions matched by `swite dev`; `default` always matches
+export const DEV_CONDITIONS = ["swiss", "development", "browser", "import"];
+// Conditions matched by `swite build`
+export const BUILD_CONDITIONS = ["swiss", "production", "browser", "import"];
+
+export class InvalidPackageConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPackageConfigError";
+  }
+}
+
+/**
+ * Resolve a subpath (`"."` or `"./feature"`) through a package's `exports`
+ * field, as Node does: exact keys, then `*` patterns (most specific first),
+ * with condition objects matched in the package's key order. Returns the
+ * target relative to the package (`./src/feature.ts`), or null when the
+ * subpath isn't exported or is excluded with `null`.
+ */
+export function resolvePackageExports(
+  exports: unknown,
+  subpath: string,
+  conditions: readonly string[],
+): string | null {
+  let map = exports;
+  if (typeof exports === "string" || Array.isArray(exports) || !hasSubpathKeys(exports)) {
+    map = { ".": exports };
+  }
+  return resolveMap(map as Record<string, unknown>, subpath, conditions, false);
+}
+
+/**
+ * Resolve a `#specifier` through a package's `imports` field. Returns a
+ * target relative to the package, a bare specifier for a dependency
+ * (`"#dep": "some-package"`), or null when there's no mapping.
+ */
+export function resolvePackageImports(
+  imports: unknown,
+  specifier: string,
+  conditions: readonly string[],
+): string | null {
+  if (!specifier.startsWith("#") || specifier === "#" || specifier.startsWith("#/")) {
+    throw new InvalidPackageConfigError(`Invalid import specifier ${specifier}`);
+  }
+  if (!imports || typeof imports !== "object" || Array.isArray(imports)) return null;
+  return resolveMap(imports as Record<string, unknown>, specifier, conditions, true);
+}
+
+function hasSubpathKeys(exports: unknown): boolean {
+  if (!exports || typeof exports !== "object") return false;
+  const keys = Object.keys(exports);
+  const subpathKeys = keys.filter((key) => key.startsWith("."));
+  if (subpathKeys.length > 0 && subpathKeys.length !== keys.length) {
+    throw new InvalidPackageConfigError(
+      `"exports" mixes subpaths and conditions: ${keys.join(", ")}`,
+    );
+  }
+  return subpathKeys.length > 0;
+}
+
+function resolveMap(
+  map: Record<string, unknown>,
+  key: string,
+  conditions: readonly string[],
+  isImports: boolean,
+): string | null {
+  if (Object.prototype.hasOwnProperty.call(map, key) && !key.includes("*")) {
+    return resolveTarget(map[key], null, conditions, isImports) ?? null;
+  }
+
+  let bestKey: string | null = null;
+  let bestMatch = "";
+  for (const candidate of Object.keys(map)) {
+    const star = candidate.indexOf("*");
+    if (star === -1 || candidate.indexOf("*", star + 1) !== -1) continue;
+    const base = candidate.slice(0, star);
+    const trailer = candidate.slice(star + 1);
+    if (
+      key.startsWith(base) &&
+      key !== base &&
+      key.length >= candidate.length &&
+      key.endsWith(trailer) &&
+      (bestKey === null || comparePatternKeys(candidate, bestKey) < 0)
+    ) {
+      bestKey = candidate;
+      bestMatch = key.slice(base.length, key.length - trailer.length);
+    }
+  }
+  if (bestKey === null) return null;
+  return resolveTarget(map[bestKey], bestMatch, conditions, isImports) ?? null;
+}
+
+// Node's PATTERN_KEY_COMPARE: longer prefix before `*` first, then longer key
+function comparePatternKeys(a: string, b: string): number {
+  const baseA = a.indexOf("*");
+  const baseB = b.indexOf("*");
+  if (baseA !== baseB) return baseB - baseA;
+  return b.length - a.length;
+}
+
+/**
+ * undefined: no condition matched, keep looking; null: excluded
+ */
+function resolveTarget(
+  target: unknown,
+  patternMatch: string | null,
+  conditions: readonly string[],
+  isImports: boolean,
+): string | null | undefined {
+  if (typeof target === "string") {
+    return resolveStringTarget(target, patternMatch, isImports);
+  }
+
+  if (Array.isArray(target)) {
+    if (target.length === 0) return null;
+    let lastError: unknown = null;
+    for (const item of target) {
+      try {
+        const resolved = resolveTarget(item, patternMatch, conditions, isImports);
+        if (resolved === undefined) continue;
+        return resolved;
+      } catch (error) {
+        if (!(error instanceof InvalidPackageConfigError)) throw error;
+        lastError = error;
+      }
+    }
+    if (lastError) throw lastError;
+    return null;
+  }
+
+  if (target && typeof target === "object") {
+    for (const [condition, value] of Object.entries(target)) {
+      if (/^\d+$/.test(condition)) {
+        throw new InvalidPackageConfigError(`Condition keys can't be numbers: ${condition}`);
+      }
+      if (condition !== "default" && !conditions.includes(condition)) continue;
+      const resolved = resolveTarget(value, patternMatch, conditions, isImports);
+      if (resolved !== undefined) return resolved;
+    }
+    return undefined;
+  }
+
+  if (target === null) return null;
+  throw new InvalidPackageConfigError(`Invalid target ${JSON.stringify(target)}`);
+}
+
+function resolveStringTarget(
+  target: string,
+  patternMatch: string | null,
+  isImports: boolean,
+): string {
+  const substitute = (value: string): string =>
+    patternMatch === null ? value : value.replace(/\*/g, () => patternMatch);
+
+  if (!target.startsWith("./")) {
+    // `imports` may map to a dependency; exports and file targets are ./-relative
+    if (isImports && !target.startsWith("../") && !target.startsWith("/") && !/^[a-z][a-z\d+.-]*:/i.test(target)) {
+      return substitute(target);
+    }
+    throw new InvalidPackageConfigError(`Invalid target ${target}: must start with ./`);
+  }
+
+  const resolved = substitute(target);
+  if (hasInvalidSegment(target.slice(2)) || (patternMatch !== null && hasInvalidSegment(patternMatch))) {
+    throw new InvalidPackageConfigError(`Invalid target ${resolved}: leaves the package or enters node_modules`);
+  }
+  return resolved;
+}
+
+function hasInvalidSegment(value: string): boolean {
+  return value
+    .split(/[/\\]/)
+    .some((segment) => segment === "." || segment === ".." || segment.toLowerCase() === "node_modules");
+}
@@ -0,0 +1,205 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * tsconfig `paths`/`baseUrl` and `resolve.alias` shared by the dev server and the production builder
+ * Licensed under the MIT License.
+ */
+
+import { promises as fs } from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+
+export interface PathAliases {
+  // resolve.alias from swiss.config.ts, longest prefix first
+  alias: Array<{ find: string; replacement: string }>;
+  // compilerOptions.paths with targets made absolute
+  paths: Record<string, string[]>;
+  // compilerOptions.baseUrl, absolute
+  baseUrl: string | null;
+}
+
+const TSCONFIG_FILES = ["tsconfig.json", "jsconfig.json"];
+// Tried after the exact path, then as `<path>/index<ext>`
+const EXTENSIONS = [".ui", ".uix", ".ts", ".tsx", ".js", ".mjs", ".jsx"];
+// Strings are kept as-is; comments go first so they can't hide a trailing comma
+const JSONC_COMMENT = /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+const JSONC_TRAILING_COMMA = /("(?:[^"\\]|\\.)*")|,(?=\s*[}\]])/g;
+
+interface TsconfigPathOptions {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  // Directory `paths` targets are relative to when there's no baseUrl
+  pathsDir?: string;
+}
+
+/**
+ * Read the aliases for an app: `resolve.alias` (values relative to `root`)
+ * and `paths`/`baseUrl` from its tsconfig.json, following `extends`.
+ */
+export async function loadPathAliases(
+  root: string,
+  alias: Record<string, string> = {},
+): Promise<PathAliases> {
+  let options: TsconfigPathOptions = {};
+  for (const name of TSCONFIG_FILES) {
+    const file = path.join(root, name);
+    if (await isFile(file)) {
+      options = await readTsconfig(file, []);
+      break;
+    }
+  }
+
+  const paths: Record<string, string[]> = {};
+  const pathsDir = options.baseUrl ?? options.pathsDir ?? root;
+  for (const [pattern, targets] of Object.entries(options.paths ?? {})) {
+    if (!Array.isArray(targets)) continue;
+    paths[pattern] = targets.map((target) => path.resolve(pathsDir, target));
+  }
+
+  return {
+    alias: Object.entries(alias)
+      .map(([find, replacement]) => ({ find, replacement: path.resolve(root, replacement) }))
+      .sort((a, b) => b.find.length - a.find.length),
+    paths,
+    baseUrl: options.baseUrl ?? null,
+  };
+}
+
+/** Whether an alias or `paths` pattern applies to the specifier */
+export function isPathAlias(aliases: PathAliases, specifier: string): boolean {
+  return findAlias(aliases, specifier) !== null || matchPaths(aliases.paths, specifier).length > 0;
+}
+
+/**
+ * Resolve a specifier through the aliases to an absolute file path. Returns
+ * null when no alias applies or none of its targets exist, leaving the
+ * specifier to package resolution (so a catch-all `"*"` pattern or a
+ * baseUrl doesn't hide node_modules).
+ */
+export async function resolvePathAlias(
+  aliases: PathAliases,
+  specifier: string,
+): Promise<string | null> {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) return null;
+
+  const alias = findAlias(aliases, specifier);
+  const candidates = alias
+    ? [alias.replacement + specifier.slice(alias.find.length)]
+    : matchPaths(aliases.paths, specifier);
+  if (!alias && aliases.baseUrl) candidates.push(path.join(aliases.baseUrl, specifier));
+
+  for (const candidate of candidates) {
+    const file = await findFile(candidate);
+    if (file) return file;
+  }
+  return null;
+}
+
+function findAlias(aliases: PathAliases, specifier: string): PathAliases["alias"][number] | null {
+  return (
+    aliases.alias.find(
+      ({ find }) => specifier === find || specifier.startsWith(find.endsWith("/") ? find : `${find}/`),
+    ) ?? null
+  );
+}
+
+// TypeScript's rules: an exact key, else the `*` pattern with the longest prefix
+function matchPaths(paths: Record<string, string[]>, specifier: string): string[] {
+  if (Object.prototype.hasOwnProperty.call(paths, specifier) && !specifier.includes("*")) {
+    return [...paths[specifier]];
+  }
+
+  let best: { prefix: string; match: string; targets: string[] } | null = null;
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const star = pattern.indexOf("*");
+    if (star === -1 || pattern.indexOf("*", star + 1) !== -1) continue;
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      (!best || prefix.length > best.prefix.length)
+    ) {
+      best = { prefix, match: specifier.slice(prefix.length, specifier.length - suffix.length), targets };
+    }
+  }
+  if (!best) return [];
+  const { match, targets } = best;
+  return targets.map((target) => target.replace("*", () => match));
+}
+
+async function findFile(candidate: string): Promise<string | null> {
+  if (await isFile(candidate)) return candidate;
+  for (const ext of EXTENSIONS) {
+    if (await isFile(candidate + ext)) return candidate + ext;
+  }
+  // TypeScript-style `.js` imports of .ts sources, and .ui/.uix imports the
+  // compiler emitted as .js or .tsx
+  if (/\.(js|jsx|tsx)$/.test(candidate)) {
+    const base = candidate.replace(/\.(js|jsx|tsx)$/, "");
+    for (const ext of [".ts", ".tsx", ".ui", ".uix"]) {
+      if (await isFile(base + ext)) return base + ext;
+    }
+  }
+  for (const ext of EXTENSIONS) {
+    const index = path.join(candidate, `index${ext}`);
+    if (await isFile(index)) return index;
+  }
+  return null;
+}
+
+async function readTsconfig(file: string, chain: string[]): Promise<TsconfigPathOptions> {
+  if (chain.includes(file)) {
+    throw new Error(`Circular "extends" in ${[...chain, file].join(" -> ")}`);
+  }
+  const config = parseJsonc(await fs.readFile(file, "utf-8"));
+  const dir = path.dirname(file);
+
+  // Bases first, in order; this file's own options win
+  let options: TsconfigPathOptions = {};
+  const bases = config.extends === undefined ? [] : [config.extends].flat();
+  for (const base of bases) {
+    options = { ...options, ...(await readTsconfig(resolveExtends(base, file), [...chain, file])) };
+  }
+
+  const compilerOptions = config.compilerOptions ?? {};
+  if (typeof compilerOptions.baseUrl === "string") {
+    options.baseUrl = path.resolve(dir, compilerOptions.baseUrl);
+  }
+  if (compilerOptions.paths && typeof compilerOptions.paths === "object") {
+    options.paths = compilerOptions.paths;
+    options.pathsDir = dir;
+  }
+  return options;
+}
+
+// `extends` is a path relative to the config, or a package (`@tsconfig/strictest`)
+function resolveExtends(base: string, from: string): string {
+  if (base.startsWith(".") || path.isAbsolute(base)) {
+    const file = path.resolve(path.dirname(from), base);
+    return file.endsWith(".json") ? file : `${file}.json`;
+  }
+  const require = createRequire(from);
+  try {
+    return require.resolve(base);
+  } catch {
+    return require.resolve(`${base}/tsconfig.json`);
+  }
+}
+
+function parseJsonc(source: string): Record<string, any> {
+  return JSON.parse(
+    source
+      .replace(JSONC_COMMENT, (_match, string?: string) => string ?? "")
+      .replace(JSONC_TRAILING_COMMA, (_match, string?: string) => string ?? ""),
+  );
+}
+
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await fs.stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
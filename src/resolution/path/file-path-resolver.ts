@@ -8,6 +8,7 @@ import { promises as fs } from "node:fs";
 import path from "node:path";
 import { findWorkspaceRoot } from "../../kernel/workspace.js";
 import { findSwissLibMonorepo } from "../../kernel/package-finder.js";
+import type { Logger } from "../../kernel/logger.js";
 
 export interface PathResolverContext {
   root: string;
@@ -21,6 +22,7 @@ export async function resolveFilePath(
   url: string,
   root: string,
   workspaceRoot: string | null = null,
+  logger: Logger = console,
 ): Promise<string> {
   // /node_modules/ URLs: walk up from app root until we find the package.
   // pnpm may place deps at the app root, one level up (workspace pkg), or at
@@ -49,7 +51,7 @@ export async function resolveFilePath(
     }
 
     // Explicit workspace root (covers hoisted-to-root installs)
-    const wsRoot = workspaceRoot || (await findWorkspaceRoot(root));
+    const wsRoot = workspaceRoot || (await findWorkspaceRoot(root, logger));
     if (wsRoot) {
       const wsPath = path.join(wsRoot, urlPath);
       if (!visited.has(wsPath)) {
@@ -80,7 +82,7 @@ export async function resolveFilePath(
       }
     }
     // No co-located monorepo found — return a path that will 404 cleanly
-    console.warn(`[file-path-resolver] No framework monorepo found for /swiss-packages/${relativePath}`);
+    logger.warn(`[file-path-resolver] No framework monorepo found for /swiss-packages/${relativePath}`);
     return path.join(root, "node_modules", relativePath);
   }
 
@@ -94,8 +96,8 @@ export async function resolveFilePath(
   ) {
     let wsRoot = workspaceRoot;
     if (!wsRoot) {
-      wsRoot = await findWorkspaceRoot(root);
-      console.log(`[file-path-resolver] Detected workspace root: ${wsRoot} (from app root: ${root})`);
+      wsRoot = await findWorkspaceRoot(root, logger);
+      logger.log(`[file-path-resolver] Detected workspace root: ${wsRoot} (from app root: ${root})`);
     }
     
     // Normalize URL: path.join with leading slash is wrong on Windows (treats as drive root)
@@ -113,8 +115,8 @@ export async function resolveFilePath(
           await fs.access(libDir);
           // Found SWS root!
           const resolved = path.join(current, urlPath);
-          console.log(`[file-path-resolver] Found SWS root with lib/: ${current}`);
-          console.log(`[file-path-resolver] Resolving ${url} from SWS root: ${current} -> ${resolved}`);
+          logger.log(`[file-path-resolver] Found SWS root with lib/: ${current}`);
+          logger.log(`[file-path-resolver] Resolving ${url} from SWS root: ${current} -> ${resolved}`);
           return resolved;
         } catch {
           // Continue searching up
@@ -140,23 +142,23 @@ export async function resolveFilePath(
           const srcResolved = path.join(wsRoot, srcUrl);
           try {
             await fs.access(srcResolved);
-            console.log(`[file-path-resolver] dist not found, serving src: ${resolved} -> ${srcResolved}`);
+            logger.log(`[file-path-resolver] dist not found, serving src: ${resolved} -> ${srcResolved}`);
             return srcResolved;
           } catch {
             // Keep original resolved; handler will 404
           }
         }
       }
-      console.log(`[file-path-resolver] Resolving ${url} from workspace root: ${wsRoot} -> ${resolved}`);
+      logger.log(`[file-path-resolver] Resolving ${url} from workspace root: ${wsRoot} -> ${resolved}`);
       return resolved;
     } else {
-      console.warn(`[file-path-resolver] No workspace root found, using app root: ${root}`);
+      logger.warn(`[file-path-resolver] No workspace root found, using app root: ${root}`);
       return path.join(root, urlPath);
     }
   }
 
   // For app files, check if URL already includes the app path
-  const wsRoot = workspaceRoot || (await findWorkspaceRoot(root));
+  const wsRoot = workspaceRoot || (await findWorkspaceRoot(root, logger));
   if (wsRoot) {
     const appRelativeToWorkspace = path
       .relative(wsRoot, root)
@@ -0,0 +1,88 @@
+/*
+ * Copyright (c) 2024 Themba Mzumara
+ * SWITE - SWISS Development Server
+ * Step-by-step resolution traces for `swite resolve` and /__swite_resolve
+ * Licensed under the MIT License.
+ */
+
+import chalk from "chalk";
+
+export type ResolveStrategy =
+  | "plugin"
+  | "alias"
+  | "optimized-deps"
+  | "import-map"
+  | "package-imports"
+  | "specifier"
+  | "relative"
+  | "node-modules"
+  | "package-registry"
+  | "workspace-package"
+  | "package-exports"
+  | "entry-point"
+  | "symlink-registry"
+  | "url"
+  | "vendor"
+  | "cdn";
+
+export interface ResolveStep {
+  strategy: ResolveStrategy;
+  accepted: boolean;
+  // Why the step was accepted or rejected
+  reason: string;
+}
+
+export interface ResolveExplanation {
+  specifier: string;
+  importer: string;
+  // null when resolution threw; see error
+  url: string | null;
+  // File the URL is served from; null for CDN URLs and virtual modules
+  file: string | null;
+  exists: boolean;
+  error: string | null;
+  steps: ResolveStep[];
+}
+
+/**
+ * Collects the steps of one resolution. Passed down through the resolver
+ * and its helpers, which record what they tried; resolution without a
+ * trace records nothing.
+ */
+export class ResolveTrace {
+  readonly steps: ResolveStep[] = [];
+  // Last file turned into a URL, i.e. the file the URL was made from
+  file: string | null = null;
+
+  accept(strategy: ResolveStrategy, reason: string): void {
+    this.steps.push({ strategy, accepted: true, reason });
+  }
+
+  reject(strategy: ResolveStrategy, reason: string): void {
+    this.steps.push({ strategy, accepted: false, reason });
+  }
+}
+
+/** Render an explanation for the terminal */
+export function formatResolveExplanation(explanation: ResolveExplanation): string {
+  const width = Math.max(...explanation.steps.map((step) => step.strategy.length), 0);
+  const lines = [
+    `${chalk.bold(explanation.specifier)} ${chalk.gray(`from ${explanation.importer}`)}`,
+    "",
+    ...explanation.steps.map(
+      (step) =>
+        `  ${step.accepted ? chalk.green("✓") : chalk.red("✗")} ${chalk.cyan(step.strategy.padEnd(width))}  ${step.reason}`,
+    ),
+    "",
+    ...(explanation.error ? [`  ${chalk.red(`error: ${explanation.error}`)}`] : []),
+    `  url:  ${explanation.url === null ? chalk.gray("(none)") : chalk.bold(explanation.url)}`,
+    `  file: ${
+      explanation.file === null
+        ? chalk.gray("(none)")
+        : explanation.exists
+          ? explanation.file
+          : `${explanation.file} ${chalk.red("(missing)")}`
+    }`,
+  ];
+  return lines.join("\n");
+}
@@ -6,16 +6,44 @@ import path from "node:path";
 import { promises as fs } from "node:fs";
 import chalk from "chalk";
 import type { ImportMap } from "../internal/generate-import-map.js";
+import { DEPS_URL_PREFIX, type OptimizedDeps } from "../dev-engine/deps/dep-optimizer.js";
+import type { VendoredDeps } from "../dev-engine/deps/vendor.js";
+import { VIRTUAL_MODULE_PREFIX, type PluginContainer } from "../internal/plugins/plugin-container.js";
 import { findWorkspaceRoot } from "../kernel/workspace.js";
+import type { Logger } from "../kernel/logger.js";
 import { toUrl, type UrlResolverContext, type WorkspacePackageResolverContext } from "./url-resolver.js";
 import { resolveWorkspacePackage } from "./workspace-package-resolver.js";
-import { resolveBareImport, type BareImportResolverContext } from "./bare-import-resolver.js";
+import { fallbackUrl, resolveBareImport, type BareImportResolverContext } from "./bare-import-resolver.js";
+import { DEFAULT_CDN_OPTIONS, getCdnUrl, shouldUseCdnFallback, type CdnOptions } from "./cdn/cdn-fallback.js";
+import { DEV_CONDITIONS, resolvePackageImports } from "./package-exports.js";
+import { isPathAlias, resolvePathAlias, type PathAliases } from "./path-aliases.js";
+import { ResolveTrace, type ResolveExplanation } from "./resolve-trace.js";
+import { resolveFilePath } from "./path/file-path-resolver.js";
 
 export class ModuleResolver {
   private workspaceRoot: string | null = null;
   private importMap: ImportMap | null = null;
+  private plugins: PluginContainer | null = null;
+  private optimizedDeps: OptimizedDeps | null = null;
+  private pathAliases: PathAliases | null = null;
+  private cdnFallback = true;
+  private cdnOptions: CdnOptions = DEFAULT_CDN_OPTIONS;
+  private vendoredDeps: VendoredDeps | null = null;
+  private logger: Logger = console;
 
-  constructor(private root: string) {}
+  constructor(
+    private root: string,
+    // package.json `exports`/`imports` conditions (see package-exports.ts)
+    private conditions: readonly string[] = DEV_CONDITIONS,
+  ) {}
+
+  /**
+   * Log through `logger` instead of the console, e.g. quietLogger for
+   * commands that print their own report
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
 
   /**
    * Set pre-resolved import map (from build-time generation)
@@ -23,7 +51,7 @@ export class ModuleResolver {
   setImportMap(importMap: ImportMap | null): void {
     this.importMap = importMap;
     if (importMap) {
-      console.log(
+      this.logger.log(
         chalk.green(
           `[Resolver] Loaded import map with ${Object.keys(importMap).length - 2} entries`,
         ),
@@ -31,22 +59,192 @@ export class ModuleResolver {
     }
   }
 
+  /**
+   * Let plugins' resolveId hooks resolve imports before swite does
+   */
+  setPluginContainer(plugins: PluginContainer | null): void {
+    this.plugins = plugins;
+  }
+
+  /**
+   * Point bare imports of pre-bundled dependencies at their bundles
+   */
+  setOptimizedDeps(optimizedDeps: OptimizedDeps | null): void {
+    this.optimizedDeps = optimizedDeps;
+  }
+
+  /**
+   * Resolve tsconfig `paths`/`baseUrl` and `resolve.alias` imports to app files
+   */
+  setPathAliases(pathAliases: PathAliases | null): void {
+    this.pathAliases = pathAliases;
+  }
+
+  /**
+   * Fall back to the CDN for packages that aren't found locally. When off
+   * (--offline or resolve.cdn: false), those imports fail with a
+   * CdnFallbackDisabledError instead.
+   */
+  setCdnFallback(enabled: boolean): void {
+    this.cdnFallback = enabled;
+  }
+
+  /**
+   * CDN provider, pinned versions and allowed scopes (see loadCdnOptions)
+   */
+  setCdnOptions(cdnOptions: CdnOptions): void {
+    this.cdnOptions = cdnOptions;
+  }
+
+  /**
+   * Serve the imports `swite vendor` bundled instead of falling back to the CDN
+   */
+  setVendoredDeps(vendoredDeps: VendoredDeps | null): void {
+    this.vendoredDeps = vendoredDeps;
+  }
+
+  /**
+   * Whether a package may be loaded from the CDN, given the CDN setting
+   * and the scopes allowed by SWITE_CDN_FALLBACK_SCOPES and resolve.cdn
+   */
+  allowsCdnFallback(pkgName: string): boolean {
+    return this.cdnFallback && shouldUseCdnFallback(pkgName, this.cdnOptions.scopes);
+  }
+
+  /** The import's URL on the configured CDN, pinned when the lockfile has it */
+  getCdnUrl(specifier: string): string {
+    return getCdnUrl(specifier, this.cdnOptions);
+  }
+
+  /**
+   * URL for a bare import resolve() couldn't map: its vendored copy, the
+   * CDN, or /node_modules/ for scopes kept off the CDN. Throws a
+   * CdnFallbackDisabledError when only the CDN would do and it's off.
+   */
+  fallbackUrl(specifier: string, reason = `${specifier} could not be resolved`): string {
+    return fallbackUrl(specifier, reason, {
+      cdnFallback: this.cdnFallback,
+      cdn: this.cdnOptions,
+      vendoredDeps: this.vendoredDeps,
+    });
+  }
+
+  /**
+   * Whether the specifier is an alias rather than a package, even when it
+   * doesn't look like one (`~/components/Button`)
+   */
+  isPathAlias(specifier: string): boolean {
+    return this.pathAliases !== null && isPathAlias(this.pathAliases, specifier);
+  }
+
+  /**
+   * Ask plugins to resolve an import. Returns the URL to import it from, or
+   * null when no plugin resolved it. Ids that are neither files nor URLs are
+   * virtual modules, served from /@id/.
+   */
+  async resolveWithPlugins(specifier: string, importer: string): Promise<string | null> {
+    if (!this.plugins?.has("resolveId")) return null;
+    const id = await this.plugins.resolveId(specifier, importer || undefined);
+    if (!id) return null;
+    if (path.isAbsolute(id) && (await this.fileExists(id))) return this.toUrl(id);
+    if (id.startsWith("/") || /^https?:\/\//.test(id)) return id;
+    return VIRTUAL_MODULE_PREFIX + encodeURIComponent(id);
+  }
+
   private async getWorkspaceRoot(): Promise<string | null> {
     if (this.workspaceRoot) return this.workspaceRoot;
-    this.workspaceRoot = await findWorkspaceRoot(this.root);
+    this.workspaceRoot = await findWorkspaceRoot(this.root, this.logger);
     return this.workspaceRoot;
   }
 
-  async resolve(specifier: string, importer: string): Promise<string> {
+  /**
+   * Resolve like resolve(), recording each strategy tried and why it was
+   * accepted or rejected, and the file the resulting URL is served from.
+   * The importer can be a URL or an absolute file path.
+   */
+  async explain(specifier: string, importer: string): Promise<ResolveExplanation> {
+    if (path.isAbsolute(importer) && (await this.fileExists(importer))) {
+      importer = await this.toUrl(importer);
+    }
+    const trace = new ResolveTrace();
+    const explanation: ResolveExplanation = {
+      specifier,
+      importer,
+      url: null,
+      file: null,
+      exists: false,
+      error: null,
+      steps: trace.steps,
+    };
+    try {
+      explanation.url = await this.resolve(specifier, importer, trace);
+    } catch (error) {
+      explanation.error = error instanceof Error ? error.message : String(error);
+      return explanation;
+    }
+
+    const url = explanation.url.split("?")[0];
+    if (trace.file && path.isAbsolute(trace.file) && (await this.fileExists(trace.file))) {
+      explanation.file = trace.file;
+    } else if (url.startsWith("/") && !url.startsWith(VIRTUAL_MODULE_PREFIX)) {
+      explanation.file = await resolveFilePath(url, this.root, await this.getWorkspaceRoot(), this.logger);
+    }
+    explanation.exists = explanation.file !== null && (await this.fileExists(explanation.file));
+    return explanation;
+  }
+
+  async resolve(specifier: string, importer: string, trace?: ResolveTrace): Promise<string> {
+    const pluginResolved = await this.resolveWithPlugins(specifier, importer);
+    if (pluginResolved) {
+      trace?.accept("plugin", `a resolveId hook returned ${pluginResolved}`);
+      return pluginResolved;
+    }
+    if (this.plugins?.has("resolveId")) {
+      trace?.reject("plugin", "no resolveId hook resolved it");
+    }
+
+    // Path aliases point into the app, ahead of any package of the same name
+    if (this.pathAliases) {
+      const aliased = await resolvePathAlias(this.pathAliases, specifier);
+      if (aliased) {
+        trace?.accept("alias", `${specifier} -> ${aliased}`);
+        return this.toUrl(aliased, trace);
+      }
+      if (isPathAlias(this.pathAliases, specifier)) {
+        trace?.reject("alias", "matches an alias or tsconfig path, but none of its targets exist");
+      }
+    }
+
+    const isBare = !specifier.startsWith(".") && !specifier.startsWith("/");
+
+    // Pre-bundled dependencies; the query changes when the lockfile does
+    const optimizedDeps = this.optimizedDeps;
+    if (optimizedDeps && Object.prototype.hasOwnProperty.call(optimizedDeps.files, specifier)) {
+      trace?.accept("optimized-deps", `pre-bundled into ${path.join(optimizedDeps.dir, optimizedDeps.files[specifier])}`);
+      return `${DEPS_URL_PREFIX}${optimizedDeps.files[specifier]}?v=${optimizedDeps.hash}`;
+    }
+    if (optimizedDeps && isBare) {
+      trace?.reject("optimized-deps", "not pre-bundled");
+    }
+
     // Check import map first (fast path)
-    if (this.importMap && !specifier.startsWith(".") && !specifier.startsWith("/")) {
+    if (this.importMap && isBare) {
       const mapped = this.importMap.imports[specifier];
       if (mapped) {
-        console.log(
+        this.logger.log(
           chalk.green(`[Resolver] ✅ Import map hit: ${specifier} -> ${mapped}`),
         );
+        trace?.accept("import-map", `mapped to ${mapped}`);
         return mapped;
       }
+      trace?.reject("import-map", "not in .swite/import-map.json");
+    } else if (isBare) {
+      trace?.reject("import-map", "no .swite/import-map.json loaded");
+    }
+
+    // Package-internal imports (`#internal/*`) from the importer's package.json
+    if (specifier.startsWith("#")) {
+      return this.resolvePackageImport(specifier, importer, trace);
     }
 
     // CRITICAL: Skip variable references - they should never be resolved as modules
@@ -56,11 +254,12 @@ export class ModuleResolver {
       // Check if this looks like a variable reference (property access, camelCase without @, etc.)
       // Valid module specifiers: @scope/name, package-name, ./relative, /absolute
       // Variable references: def.componentUrl, someVar, obj.prop, etc.
-      if (specifier.includes(".") && !specifier.startsWith("@")) {
+      if (specifier.includes(".") && !specifier.startsWith("@") && !specifier.endsWith(".css")) {
         // Property access pattern (def.componentUrl) - this is a variable, not a module
-        console.warn(
+        this.logger.warn(
           `[SWITE] resolve: Skipping variable reference: ${specifier}`,
         );
+        trace?.reject("specifier", "looks like a property access (variable reference); left as-is");
         return specifier; // Return as-is, don't try to resolve
       }
 
@@ -68,13 +267,14 @@ export class ModuleResolver {
       // Valid package names: start with letter or @, contain only alphanumeric, -, _, /
       // Also allow file extensions at the end: .js, .ts, .ui, .uix, etc.
       if (
-        !/^[@a-zA-Z][a-zA-Z0-9_/@-]*(\.(js|ts|ui|uix|mjs|cjs|jsx|tsx))?$/.test(
+        !/^[@a-zA-Z][a-zA-Z0-9_/@-]*(\.(js|ts|ui|uix|mjs|cjs|jsx|tsx|css))?$/.test(
           specifier,
         )
       ) {
-        console.warn(
+        this.logger.warn(
           `[SWITE] resolve: Invalid module specifier (likely variable): ${specifier}`,
         );
+        trace?.reject("specifier", "not a valid package name (likely a variable); left as-is");
         return specifier; // Return as-is
       }
 
@@ -83,47 +283,24 @@ export class ModuleResolver {
         getWorkspaceRoot: () => this.getWorkspaceRoot(),
         fileExists: (p) => this.fileExists(p),
         resolveWorkspacePackage: (pkgName) => this.resolveWorkspacePackage(pkgName),
+        conditions: this.conditions,
+        cdnFallback: this.cdnFallback,
+        cdn: this.cdnOptions,
+        vendoredDeps: this.vendoredDeps,
+        trace,
+        logger: this.logger,
       };
       return await resolveBareImport(specifier, context);
     }
 
     // Handle absolute paths (already URLs)
     if (specifier.startsWith("/")) {
+      trace?.accept("url", "absolute path, already a URL");
       return specifier;
     }
 
     // Handle relative imports
-    // importer might be a URL path (/src/modules/index.ui) or file path
-    // Convert URL to file path if needed
-    let importerPath = importer;
-    if (importer.startsWith("/")) {
-      // URL path - convert to file path
-      // Prioritize app root for app files (src/, public/, assets/)
-      if (
-        importer.startsWith("/src/") ||
-        importer.startsWith("/public/") ||
-        importer.startsWith("/assets/")
-      ) {
-        // App-specific paths - resolve from app root
-        importerPath = path.join(this.root, importer);
-      } else {
-        // Other paths - try workspace root first (for libraries/, packages/)
-        const workspaceRoot = await this.getWorkspaceRoot();
-        if (workspaceRoot) {
-          const workspacePath = path.join(workspaceRoot, importer);
-          if (await this.fileExists(workspacePath)) {
-            importerPath = workspacePath;
-          } else {
-            // Fallback to app root
-            importerPath = path.join(this.root, importer);
-          }
-        } else {
-          // No workspace root, use app root
-          importerPath = path.join(this.root, importer);
-        }
-      }
-    }
-    const importerDir = path.dirname(importerPath);
+    const importerDir = path.dirname(await this.toImporterPath(importer));
 
     // If specifier already has an extension (.ui, .uix, .ts, .js, etc.), try it first
     // This preserves .ui/.uix extensions for SWISS files
@@ -132,7 +309,8 @@ export class ModuleResolver {
     if (hasExtension) {
       const resolved = path.resolve(importerDir, specifier);
       if (await this.fileExists(resolved)) {
-        return await this.toUrl(resolved);
+        trace?.accept("relative", `found ${resolved}`);
+        return await this.toUrl(resolved, trace);
       }
     }
 
@@ -147,7 +325,8 @@ export class ModuleResolver {
     for (const ext of extensions) {
       const withExt = resolved + ext;
       if (await this.fileExists(withExt)) {
-        return await this.toUrl(withExt);
+        trace?.accept("relative", `found ${withExt}`);
+        return await this.toUrl(withExt, trace);
       }
     }
 
@@ -155,12 +334,84 @@ export class ModuleResolver {
     for (const ext of extensions) {
       const indexFile = path.join(resolved, `index${ext}`);
       if (await this.fileExists(indexFile)) {
-        return await this.toUrl(indexFile);
+        trace?.accept("relative", `found ${indexFile}`);
+        return await this.toUrl(indexFile, trace);
       }
     }
 
     // Return as-is if nothing found
-    return await this.toUrl(resolved);
+    trace?.reject("relative", `no file at ${resolved} with any of ${extensions.join(", ")} or an index file`);
+    return await this.toUrl(resolved, trace);
+  }
+
+  /**
+   * importer might be a URL path (/src/modules/index.ui) or file path;
+   * convert URL to file path if needed
+   */
+  private async toImporterPath(importer: string): Promise<string> {
+    if (!importer.startsWith("/")) return importer;
+
+    // URL path - convert to file path
+    // Prioritize app root for app files (src/, public/, assets/)
+    if (
+      importer.startsWith("/src/") ||
+      importer.startsWith("/public/") ||
+      importer.startsWith("/assets/")
+    ) {
+      // App-specific paths - resolve from app root
+      return path.join(this.root, importer);
+    }
+
+    // Other paths - try workspace root first (for libraries/, packages/)
+    const workspaceRoot = await this.getWorkspaceRoot();
+    if (workspaceRoot) {
+      const workspacePath = path.join(workspaceRoot, importer);
+      if (await this.fileExists(workspacePath)) {
+        return workspacePath;
+      }
+    }
+    // Fallback to app root
+    return path.join(this.root, importer);
+  }
+
+  /**
+   * Resolve `#specifier` through the `imports` field of the package.json
+   * nearest to the importer. Targets are files in that package or
+   * dependencies, resolved like any other bare import.
+   */
+  private async resolvePackageImport(
+    specifier: string,
+    importer: string,
+    trace?: ResolveTrace,
+  ): Promise<string> {
+    let pkgDir = path.dirname(await this.toImporterPath(importer || path.join(this.root, "index.js")));
+    while (!(await this.fileExists(path.join(pkgDir, "package.json")))) {
+      const parent = path.dirname(pkgDir);
+      if (parent === pkgDir) {
+        throw new Error(`No package.json above ${importer} to resolve ${specifier}`);
+      }
+      pkgDir = parent;
+    }
+
+    const pkgJson = JSON.parse(await fs.readFile(path.join(pkgDir, "package.json"), "utf-8"));
+    const target = resolvePackageImports(pkgJson.imports, specifier, this.conditions);
+    if (!target) {
+      trace?.reject("package-imports", `not in "imports" of ${path.join(pkgDir, "package.json")}`);
+      throw new Error(`${specifier} is not defined in "imports" of ${path.join(pkgDir, "package.json")}`);
+    }
+    trace?.accept("package-imports", `${path.join(pkgDir, "package.json")} maps it to ${target}`);
+    if (!target.startsWith("./")) {
+      return this.resolve(target, importer, trace);
+    }
+
+    // Same extension fallbacks as exports targets
+    const fullPath = path.join(pkgDir, target);
+    if (await this.fileExists(fullPath)) return this.toUrl(fullPath, trace);
+    for (const ext of [".ui", ".uix", ".ts", ".js"]) {
+      const withExt = fullPath.replace(/\.(js|ts|ui|uix)$/, ext);
+      if (await this.fileExists(withExt)) return this.toUrl(withExt, trace);
+    }
+    return this.toUrl(fullPath, trace);
   }
 
   private async fileExists(filePath: string): Promise<boolean> {
@@ -179,17 +430,20 @@ export class ModuleResolver {
       root: this.root,
       getWorkspaceRoot: () => this.getWorkspaceRoot(),
       fileExists: (p) => this.fileExists(p),
+      logger: this.logger,
     };
     return resolveWorkspacePackage(pkgName, context);
   }
 
   // OLD IMPLEMENTATION REMOVED - now uses resolver/workspace-package-resolver.ts
 
-  private async toUrl(filePath: string): Promise<string> {
+  private async toUrl(filePath: string, trace?: ResolveTrace): Promise<string> {
     const context: UrlResolverContext = {
       root: this.root,
       getWorkspaceRoot: () => this.getWorkspaceRoot(),
       fileExists: (p) => this.fileExists(p),
+      trace,
+      logger: this.logger,
     };
     return toUrl(filePath, context);
   }
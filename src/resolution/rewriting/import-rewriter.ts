@@ -20,7 +20,8 @@ import { ModuleResolver } from "../resolver.js";
 import { promises as fs } from "node:fs";
 import path from "node:path";
 import chalk from "chalk";
-import { shouldUseCdnFallback } from "../cdn/cdn-fallback.js";
+import { CdnFallbackDisabledError } from "../cdn/cdn-fallback.js";
+import { toTransformError } from "../../dev-engine/hmr/error-payload.js";
 
 interface Replacement {
   start: number;
@@ -45,13 +46,22 @@ export async function rewriteImports(
       const { s: rawStart, e: rawEnd } = imp;
       const rawSpecifier = code.slice(rawStart, rawEnd);
 
-      // Skip CSS imports — handled as static assets
-      if (rawSpecifier.includes(".css")) continue;
-
       // Determine actual specifier string and the span in `code` that includes quotes
       const { specifier, start, end } = resolveQuotedSpan(code, rawSpecifier, rawStart, rawEnd);
       if (specifier === null) continue;
 
+      // CSS imports are served as JS modules that inject a <style> tag
+      const isCss = isCssSpecifier(specifier);
+
+      // Plugins may resolve relative imports too; bare ones go through resolver.resolve()
+      if (specifier.startsWith(".") || specifier.startsWith("/")) {
+        const pluginResolved = await resolver.resolveWithPlugins(specifier, importer);
+        if (pluginResolved) {
+          replacements.push({ start, end, text: `"${isCss ? markCssImport(pluginResolved) : pluginResolved}"` });
+          continue;
+        }
+      }
+
       // Fix compiler bug: .uix/.ui imports emitted as .js or .tsx
       if (
         specifier.startsWith(".") &&
@@ -67,9 +77,13 @@ export async function rewriteImports(
       }
 
       // Skip relative and absolute path imports (already resolved)
-      if (specifier.startsWith(".") || specifier.startsWith("/")) continue;
+      if (specifier.startsWith(".") || specifier.startsWith("/")) {
+        if (isCss) replacements.push({ start, end, text: `"${markCssImport(specifier)}"` });
+        continue;
+      }
 
-      if (!/^[@a-zA-Z]/.test(specifier)) {
+      // Bare imports, package.json `imports` (#internal/*) and path aliases
+      if (!/^[@a-zA-Z#]/.test(specifier) && !resolver.isPathAlias(specifier)) {
         console.warn(`[SWITE] import-rewriter: Invalid specifier format: ${specifier}`);
         continue;
       }
@@ -80,15 +94,14 @@ export async function rewriteImports(
         resolved = await resolver.resolve(specifier, importer);
         if (!resolved || resolved === specifier || (!resolved.startsWith("/") && !resolved.startsWith("http"))) {
           console.warn(chalk.yellow(`[SWITE] import-rewriter: Resolver returned invalid result for ${specifier}, using CDN fallback`));
-          resolved = shouldUseCdnFallback(specifier)
-            ? `https://cdn.jsdelivr.net/npm/${specifier}/+esm`
-            : `/node_modules/${specifier}`;
+          resolved = resolver.fallbackUrl(specifier);
         }
       } catch (error) {
+        if (error instanceof CdnFallbackDisabledError) throw error;
         console.error(chalk.red(`[SWITE] import-rewriter: Error resolving ${specifier}:`), error);
-        resolved = shouldUseCdnFallback(specifier)
-          ? `https://cdn.jsdelivr.net/npm/${specifier}/+esm`
-          : `/node_modules/${specifier}`;
+        // No CDN copy of a package's own #imports
+        if (specifier.startsWith("#")) continue;
+        resolved = resolver.fallbackUrl(specifier);
       }
 
       // Prefer src/ over dist/ for workspace/swiss packages in dev
@@ -96,7 +109,7 @@ export async function rewriteImports(
         resolved = resolved.replace("/dist/", "/src/").replace(/\.js$/, ".ts");
       }
 
-      replacements.push({ start, end, text: `"${resolved}"` });
+      replacements.push({ start, end, text: `"${isCss ? markCssImport(resolved) : resolved}"` });
     }
 
     // Apply right-to-left so earlier positions are never shifted by later replacements
@@ -112,9 +125,7 @@ export async function rewriteImports(
       const bareImport = match[1];
       if (!bareImport.startsWith("/") && !bareImport.startsWith("http") && !bareImport.startsWith(".")) {
         console.error(chalk.red(`[SWITE] import-rewriter: CRITICAL — bare import "${bareImport}" still present after rewriting`));
-        const replacement = shouldUseCdnFallback(bareImport)
-          ? `https://cdn.jsdelivr.net/npm/${bareImport}/+esm`
-          : `/node_modules/${bareImport}`;
+        const replacement = resolver.fallbackUrl(bareImport);
         result = result.replace(
           new RegExp(bareImport.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "g"),
           replacement,
@@ -146,11 +157,29 @@ export async function rewriteImports(
 
     return result;
   } catch (error) {
+    // Offline, a missing package fails the module rather than loading it from the CDN
+    if (error instanceof CdnFallbackDisabledError) throw toTransformError(error, importer, "", "resolve");
     console.error(chalk.red(`[SWITE] import-rewriter: Error rewriting imports in ${importer}:`), error);
     return code;
   }
 }
 
+function isCssSpecifier(specifier: string): boolean {
+  return specifier.split("?")[0].endsWith(".css");
+}
+
+/**
+ * Add the `import` query that tells the dev server to serve a stylesheet as a
+ * JS module (see css-handler.ts). Remote stylesheets are left alone.
+ */
+function markCssImport(specifier: string): string {
+  if (specifier.startsWith("http")) return specifier;
+  const [pathname, query] = specifier.split("?");
+  const params = new URLSearchParams(query ?? "");
+  if (params.has("import")) return specifier;
+  return `${pathname}?import${query ? `&${query}` : ""}`;
+}
+
 /**
  * Given a raw specifier token from es-module-lexer, find the full quoted span
  * in `code` (including the surrounding quote characters) and extract the clean
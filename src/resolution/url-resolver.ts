@@ -7,11 +7,17 @@ import path from "node:path";
 import { promises as fs } from "node:fs";
 import { findSwissLibMonorepo } from "../kernel/package-finder.js";
 import { lookupInSymlinkRegistry } from "./symlink-registry.js";
+import type { ResolveTrace } from "./resolve-trace.js";
+import type { Logger } from "../kernel/logger.js";
 
 export interface UrlResolverContext {
   root: string;
   getWorkspaceRoot: () => Promise<string | null>;
   fileExists: (filePath: string) => Promise<boolean>;
+  // Records the symlink registry lookup and the URL chosen (see resolve-trace.ts)
+  trace?: ResolveTrace;
+  // Where resolution logs what it does (see ModuleResolver.setLogger)
+  logger: Logger;
 }
 
 export type WorkspacePackageResolverContext = UrlResolverContext;
@@ -26,6 +32,18 @@ function normalizeResult(result: string): string {
 export async function toUrl(
   filePath: string,
   context: UrlResolverContext
+): Promise<string> {
+  const url = await fileToUrl(filePath, context);
+  if (context.trace) {
+    context.trace.file = filePath;
+    context.trace.accept("url", `${filePath} -> ${url}`);
+  }
+  return url;
+}
+
+async function fileToUrl(
+  filePath: string,
+  context: UrlResolverContext
 ): Promise<string> {
   const normalized = filePath.replace(/\\/g, "/");
 
@@ -52,11 +70,13 @@ export async function toUrl(
     }
 
     if (registryUrl) {
-      console.log(
+      context.logger.log(
         `[SWITE] toUrl: symlink registry hit: ${filePath} → ${registryUrl}`
       );
+      context.trace?.accept("symlink-registry", `${filePath} is in a symlinked package served at ${registryUrl}`);
       return registryUrl;
     }
+    context.trace?.reject("symlink-registry", "not inside a symlinked package");
 
     // If the absolute filesystem path contains /node_modules/, convert it to a
     // browser-relative URL (/node_modules/...) before the startsWith("/") early
@@ -65,7 +85,7 @@ export async function toUrl(
       const nodeModulesIndex = normalized.toLowerCase().indexOf("/node_modules/");
       const afterNodeModules = normalized.slice(nodeModulesIndex + "/node_modules/".length);
       const url = "/node_modules/" + afterNodeModules;
-      console.log(`[SWITE] toUrl: abs→node_modules URL: ${filePath} → ${url}`);
+      context.logger.log(`[SWITE] toUrl: abs→node_modules URL: ${filePath} → ${url}`);
       return normalizeResult(url);
     }
 
@@ -79,7 +99,7 @@ export async function toUrl(
       if (normalizedLower.startsWith(wsRoot.toLowerCase() + "/") || normalizedLower === wsRoot.toLowerCase()) {
         const relative = normalized.slice(wsRoot.length);
         const url = relative.startsWith("/") ? relative : "/" + relative;
-        console.log(`[SWITE] toUrl: abs→workspace URL: ${filePath} → ${url}`);
+        context.logger.log(`[SWITE] toUrl: abs→workspace URL: ${filePath} → ${url}`);
         return normalizeResult(url);
       }
     }
@@ -87,7 +107,7 @@ export async function toUrl(
     if (normalizedLower.startsWith(appRoot.toLowerCase() + "/") || normalizedLower === appRoot.toLowerCase()) {
       const relative = normalized.slice(appRoot.length);
       const url = relative.startsWith("/") ? relative : "/" + relative;
-      console.log(`[SWITE] toUrl: abs→approot URL: ${filePath} → ${url}`);
+      context.logger.log(`[SWITE] toUrl: abs→approot URL: ${filePath} → ${url}`);
       return normalizeResult(url);
     }
   }
@@ -99,7 +119,7 @@ export async function toUrl(
       const srcPath = normalized.replace("/dist/", "/src/").replace(/\.js$/, ".ts");
       const { resolveFilePath } = await import("../path/file-path-resolver.js");
       const workspaceRoot = await context.getWorkspaceRoot();
-      const srcFilePath = await resolveFilePath(srcPath, context.root, workspaceRoot);
+      const srcFilePath = await resolveFilePath(srcPath, context.root, workspaceRoot, context.logger);
       if (await context.fileExists(srcFilePath)) {
         return normalizeResult(srcPath);
       }
@@ -209,7 +229,7 @@ export async function toUrl(
     } else {
       url = "/" + rawRelative.replace(/\\/g, "/");
     }
-    console.warn(`[SWITE] toUrl fallback: ${filePath} -> ${url}`);
+    context.logger.warn(`[SWITE] toUrl fallback: ${filePath} -> ${url}`);
     return normalizeResult(url);
   }
 
@@ -6,11 +6,13 @@
 import path from "node:path";
 import { findSwissLibMonorepo } from "../kernel/package-finder.js";
 import { getPackageRegistry } from "../kernel/package-registry.js";
+import type { Logger } from "../kernel/logger.js";
 
 export interface WorkspacePackageResolverContext {
   root: string;
   getWorkspaceRoot: () => Promise<string | null>;
   fileExists: (filePath: string) => Promise<boolean>;
+  logger: Logger;
 }
 
 /**
@@ -71,9 +73,9 @@ export async function resolveWorkspacePackage(
 
   if (!registry.getPackageCount() && primaryRoot) {
     try {
-      await registry.scanWorkspace(primaryRoot, additionalRoots);
+      await registry.scanWorkspace(primaryRoot, additionalRoots, context.logger);
     } catch (error: any) {
-      console.error(`[SWITE] Error scanning package registry:`, error.message);
+      context.logger.error(`[SWITE] Error scanning package registry:`, error.message);
     }
   }
 
@@ -83,12 +85,12 @@ export async function resolveWorkspacePackage(
   }
 
   // Rescan in case the package was added after the initial scan
-  await registry.rescan();
+  await registry.rescan(context.logger);
   packageInfo = registry.findPackage(pkgName);
   if (packageInfo) {
     return packageInfo.path;
   }
 
-  console.log(`[SWITE] Package ${pkgName} not found in workspace (scanned ${registry.getPackageCount()} packages)`);
+  context.logger.log(`[SWITE] Package ${pkgName} not found in workspace (scanned ${registry.getPackageCount()} packages)`);
   return null;
 }